@@ -11,6 +11,9 @@ import VideoConnectionDialog from './components/VideoConnectionDialog'
 import Chat from './components/Chat'
 import HelperButtonGroup from './components/HelperButtonGroup'
 import MobileVirtualJoystick from './components/MobileVirtualJoystick'
+import LayoutEditorPanel from './components/LayoutEditorPanel'
+import PlayerMenu from './components/PlayerMenu'
+import RemovalDialog from './components/RemovalDialog'
 
 const Backdrop = styled.div`
   position: absolute;
@@ -24,9 +27,14 @@ function App() {
   const whiteboardDialogOpen = useAppSelector((state) => state.whiteboard.whiteboardDialogOpen)
   const videoConnected = useAppSelector((state) => state.user.videoConnected)
   const roomJoined = useAppSelector((state) => state.room.roomJoined)
+  const layoutEditing = useAppSelector((state) => state.layout.layoutEditing)
+  const removed = useAppSelector((state) => !!state.moderation.removal)
 
   let ui: JSX.Element
-  if (loggedIn) {
+  if (removed) {
+    /* Render RemovalDialog once a moderator kicked or banned the player. */
+    ui = <RemovalDialog />
+  } else if (loggedIn) {
     if (computerDialogOpen) {
       /* Render ComputerDialog if user is using a computer. */
       ui = <ComputerDialog />
@@ -41,6 +49,9 @@ function App() {
           {/* Render VideoConnectionDialog if user is not connected to a webcam. */}
           {!videoConnected && <VideoConnectionDialog />}
           <MobileVirtualJoystick />
+          <PlayerMenu />
+          {/* Render LayoutEditorPanel while the office layout is being edited. */}
+          {layoutEditing && <LayoutEditorPanel />}
         </>
       )
     }
@@ -56,7 +67,7 @@ function App() {
     <Backdrop>
       {ui}
       {/* Render HelperButtonGroup if no dialogs are opened. */}
-      {!computerDialogOpen && !whiteboardDialogOpen && <HelperButtonGroup />}
+      {!computerDialogOpen && !whiteboardDialogOpen && !removed && <HelperButtonGroup />}
     </Backdrop>
   )
 }
@@ -16,10 +16,34 @@ import { NavKeys } from '../../../types/KeyboardState'
 import { JoystickMovement } from '../components/Joystick'
 import { openURL } from '../utils/helpers'
 
+// matches PLAYER_SPEED in server/pathfinding/MovementValidator.ts
+const PLAYER_SPEED = 200
+
+// click-to-move walks report their position at this interval, keyboard movement every frame
+const WALK_UPDATE_INTERVAL_MS = 100
+// a waypoint counts as reached within this many pixels, or one frame of movement if more
+const WAYPOINT_TOLERANCE = 4
+// a walk that gets no closer to its next waypoint for this long is stuck and gets cancelled
+const WALK_STUCK_MS = 600
+// the destination marker sits under the feet of a player standing on the target tile
+const WALK_MARKER_OFFSET_Y = 16
+
+// prefer the horizontal animation unless the movement is mostly vertical
+function getRunDirection(vx: number, vy: number) {
+  if (Math.abs(vx) >= Math.abs(vy)) return vx > 0 ? 'right' : 'left'
+  return vy > 0 ? 'down' : 'up'
+}
+
 export default class MyPlayer extends Player {
   private playContainerBody: Phaser.Physics.Arcade.Body
   private chairOnSit?: Chair
   public joystickMovement?: JoystickMovement
+  private walkPath: { x: number; y: number }[] = []
+  private walkMarker?: Phaser.GameObjects.Arc
+  // bumped on every new walk or cancel, so a late path response cannot restart a walk
+  private walkRequest = 0
+  private lastWalkUpdate = 0
+  private walkProgress = { distance: Infinity, at: 0 }
   constructor(
     scene: Phaser.Scene,
     x: number,
@@ -33,7 +57,7 @@ export default class MyPlayer extends Player {
   }
 
   setPlayerName(name: string) {
-    this.playerName.setText(name)
+    super.setPlayerName(name)
     phaserEvents.emit(Event.MY_PLAYER_NAME_CHANGE, name)
     store.dispatch(pushPlayerJoinedMessage(name))
   }
@@ -44,10 +68,96 @@ export default class MyPlayer extends Player {
     phaserEvents.emit(Event.MY_PLAYER_TEXTURE_CHANGE, this.x, this.y, this.anims.currentAnim.key)
   }
 
+  // snap back to the position the server accepted last, e.g. after moving too fast or into a wall
+  reconcilePosition(x: number, y: number, playerSelector: PlayerSelector) {
+    this.cancelWalk()
+    this.setVelocity(0, 0)
+    this.setPosition(x, y).setDepth(y)
+    this.playContainerBody.setVelocity(0, 0)
+    this.playerContainer.setPosition(x, y - 30)
+
+    if (this.playerBehavior === PlayerBehavior.SITTING) {
+      const parts = this.anims.currentAnim.key.split('_')
+      parts[1] = 'idle'
+      this.play(parts.join('_'), true)
+      this.playerBehavior = PlayerBehavior.IDLE
+      this.chairOnSit?.clearDialogBox()
+    }
+    playerSelector.setPosition(x, y)
+  }
+
   handleJoystickMovement(movement: JoystickMovement) {
     this.joystickMovement = movement
   }
 
+  // click-to-move: asks the server for a path to the point and follows it in update
+  async walkTo(x: number, y: number, network: Network) {
+    if (this.playerBehavior !== PlayerBehavior.IDLE) return
+    this.cancelWalk()
+    const request = this.walkRequest
+    try {
+      const route = await network.findPath({ x: this.x, y: this.y }, { x, y })
+      if (request !== this.walkRequest || this.playerBehavior !== PlayerBehavior.IDLE) return
+      // the first waypoint is the centre of the tile the player already stands on
+      const path = route?.path.slice(1) ?? []
+      if (!path.length) return
+      this.walkPath = path
+      this.walkProgress = { distance: Infinity, at: this.scene.time.now }
+      this.showWalkMarker(route!.target)
+    } catch (err) {
+      console.warn('Failed to plan a path', err)
+    }
+  }
+
+  cancelWalk() {
+    this.walkRequest += 1
+    this.walkPath = []
+    this.walkMarker?.destroy()
+    this.walkMarker = undefined
+  }
+
+  private showWalkMarker(point: { x: number; y: number }) {
+    this.walkMarker = this.scene.add
+      .circle(point.x, point.y + WALK_MARKER_OFFSET_Y, 5, 0x1ea2df, 0.8)
+      .setStrokeStyle(2, 0xffffff, 0.8)
+      // above the floor, below every object and player
+      .setDepth(1)
+    this.scene.tweens.add({
+      targets: this.walkMarker,
+      scale: 1.6,
+      alpha: 0.4,
+      duration: 600,
+      yoyo: true,
+      repeat: -1,
+    })
+  }
+
+  // direction towards the next waypoint, or zero once the walk is over
+  private followWalkPath(): Phaser.Math.Vector2 {
+    const frameDistance = (this.scene.game.loop.delta / 1000) * PLAYER_SPEED
+    const tolerance = Math.max(WAYPOINT_TOLERANCE, frameDistance)
+    let waypoint = this.walkPath[0]
+    let distance = waypoint && Phaser.Math.Distance.Between(this.x, this.y, waypoint.x, waypoint.y)
+    while (waypoint && distance <= tolerance) {
+      this.walkPath.shift()
+      this.walkProgress = { distance: Infinity, at: this.scene.time.now }
+      waypoint = this.walkPath[0]
+      distance = waypoint && Phaser.Math.Distance.Between(this.x, this.y, waypoint.x, waypoint.y)
+    }
+    if (!waypoint) {
+      this.cancelWalk()
+      return new Phaser.Math.Vector2(0, 0)
+    }
+
+    if (distance < this.walkProgress.distance - 1) {
+      this.walkProgress = { distance, at: this.scene.time.now }
+    } else if (this.scene.time.now - this.walkProgress.at > WALK_STUCK_MS) {
+      this.cancelWalk()
+      return new Phaser.Math.Vector2(0, 0)
+    }
+    return new Phaser.Math.Vector2(waypoint.x - this.x, waypoint.y - this.y)
+  }
+
   update(
     playerSelector: PlayerSelector,
     cursors: NavKeys,
@@ -82,6 +192,7 @@ export default class MyPlayer extends Player {
         // if press E in front of selected chair
         if (Phaser.Input.Keyboard.JustDown(keyE) && item?.itemType === ItemType.CHAIR) {
           const chairItem = item as Chair
+          this.cancelWalk()
           /**
            * move player to the chair and play sit animation
            * a delay is called to wait for player movement (from previous velocity) to end
@@ -126,7 +237,7 @@ export default class MyPlayer extends Player {
           return
         }
 
-        const speed = 200
+        const speed = PLAYER_SPEED
         let vx = 0
         let vy = 0
 
@@ -152,6 +263,19 @@ export default class MyPlayer extends Player {
           vy += speed
           this.setDepth(this.y) //change player.depth if player.y changes
         }
+
+        // any manual input takes over from click-to-move
+        let walking = false
+        if (vx !== 0 || vy !== 0) {
+          if (this.walkPath.length || this.walkMarker) this.cancelWalk()
+        } else if (this.walkPath.length) {
+          const direction = this.followWalkPath()
+          vx = direction.x
+          vy = direction.y
+          walking = vx !== 0 || vy !== 0
+          this.setDepth(this.y)
+        }
+
         // update character velocity
         this.setVelocity(vx, vy)
         this.body.velocity.setLength(speed)
@@ -160,8 +284,17 @@ export default class MyPlayer extends Player {
         this.playContainerBody.velocity.setLength(speed)
 
         // update animation according to velocity and send new location and anim to server
-        if (vx !== 0 || vy !== 0) network.updatePlayer(this.x, this.y, this.anims.currentAnim.key)
-        if (vx > 0) {
+        if (walking) {
+          if (this.scene.time.now - this.lastWalkUpdate >= WALK_UPDATE_INTERVAL_MS) {
+            this.lastWalkUpdate = this.scene.time.now
+            network.updatePlayer(this.x, this.y, this.anims.currentAnim.key)
+          }
+        } else if (vx !== 0 || vy !== 0) {
+          network.updatePlayer(this.x, this.y, this.anims.currentAnim.key)
+        }
+        if (walking) {
+          this.play(`${this.playerTexture}_run_${getRunDirection(vx, vy)}`, true)
+        } else if (vx > 0) {
           this.play(`${this.playerTexture}_run_right`, true)
         } else if (vx < 0) {
           this.play(`${this.playerTexture}_run_left`, true)
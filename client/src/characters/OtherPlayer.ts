@@ -4,6 +4,9 @@ import MyPlayer from './MyPlayer'
 import { sittingShiftData } from './Player'
 import WebRTC from '../web/WebRTC'
 import { Event, phaserEvents } from '../events/EventCenter'
+import store from '../stores'
+import { openConversation, setFocused, setShowChat } from '../stores/ChatStore'
+import { openPlayerMenu } from '../stores/ModerationStore'
 
 export default class OtherPlayer extends Player {
   private targetPosition: [number, number]
@@ -25,13 +28,35 @@ export default class OtherPlayer extends Player {
     super(scene, x, y, texture, id, frame)
     this.targetPosition = [x, y]
 
-    this.playerName.setText(name)
+    this.setPlayerName(name)
+    // click the name to start a direct message, right-click it for the player menu
+    this.playerName
+      .setInteractive({ useHandCursor: true })
+      .on('pointerup', (pointer: Phaser.Input.Pointer) => {
+        if (pointer.rightButtonReleased()) {
+          const { clientX, clientY } = pointer.event as MouseEvent
+          store.dispatch(
+            openPlayerMenu({
+              playerId: this.playerId,
+              name: this.playerName.text,
+              x: clientX,
+              y: clientY,
+            })
+          )
+          return
+        }
+        store.dispatch(setShowChat(true))
+        store.dispatch(openConversation(this.playerId))
+        store.dispatch(setFocused(true))
+      })
     this.playContainerBody = this.playerContainer.body as Phaser.Physics.Arcade.Body
   }
 
   makeCall(myPlayer: MyPlayer, webRTC: WebRTC) {
     this.myPlayer = myPlayer
     const myPlayerId = myPlayer.playerId
+    // nobody is called automatically while either side does not want to be disturbed
+    if (this.status === 'dnd' || myPlayer.status === 'dnd') return
     if (
       !this.connected &&
       this.connectionBufferTime >= 750 &&
@@ -50,7 +75,7 @@ export default class OtherPlayer extends Player {
     switch (field) {
       case 'name':
         if (typeof value === 'string') {
-          this.playerName.setText(value)
+          this.setPlayerName(value)
         }
         break
 
@@ -83,6 +108,12 @@ export default class OtherPlayer extends Player {
           this.videoConnected = value
         }
         break
+
+      case 'status':
+        if (typeof value === 'string') {
+          this.setStatus(value)
+        }
+        break
     }
   }
 
@@ -155,6 +186,13 @@ export default class OtherPlayer extends Player {
     // while currently connected with myPlayer
     // if myPlayer and the otherPlayer stop overlapping, delete video stream
     this.connectionBufferTime += dt
+    // switching to do-not-disturb ends a proximity call right away
+    if (this.connected && (this.status === 'dnd' || this.myPlayer?.status === 'dnd')) {
+      phaserEvents.emit(Event.PLAYER_DISCONNECTED, this.playerId)
+      this.connectionBufferTime = 0
+      this.connected = false
+      return
+    }
     if (
       this.connected &&
       !this.body.embedded &&
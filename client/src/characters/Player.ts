@@ -1,5 +1,8 @@
 import Phaser from 'phaser'
 import { PlayerBehavior } from '../../../types/PlayerBehavior'
+import { toDialogBubbleText } from '../../../types/ChatFormatting'
+import { DEFAULT_PLAYER_STATUS, isPlayerStatus } from '../../../types/PlayerStatus'
+import { playerStatusStyles } from '../util'
 /**
  * shifting distance for sitting animation
  * format: direction: [xShift, yShift, depthShift]
@@ -17,7 +20,10 @@ export default class Player extends Phaser.Physics.Arcade.Sprite {
   playerBehavior = PlayerBehavior.IDLE
   readyToConnect = false
   videoConnected = false
+  // one of PLAYER_STATUSES
+  status: string = DEFAULT_PLAYER_STATUS
   playerName: Phaser.GameObjects.Text
+  private statusBadge: Phaser.GameObjects.Arc
   playerContainer: Phaser.GameObjects.Container
   private playerDialogBubble: Phaser.GameObjects.Container
   private timeoutID?: number
@@ -53,6 +59,11 @@ export default class Player extends Phaser.Physics.Arcade.Sprite {
       .setOrigin(0.5)
     this.playerContainer.add(this.playerName)
 
+    // add the status badge left of playerName, shown once there is a name
+    this.statusBadge = this.scene.add.circle(0, 0, 3).setStrokeStyle(1, 0x000000).setVisible(false)
+    this.playerContainer.add(this.statusBadge)
+    this.setStatus(this.status)
+
     this.scene.physics.world.enable(this.playerContainer)
     const playContainerBody = this.playerContainer.body as Phaser.Physics.Arcade.Body
     const collisionScale = [0.5, 0.2]
@@ -61,11 +72,24 @@ export default class Player extends Phaser.Physics.Arcade.Sprite {
       .setOffset(-8, this.height * (1 - collisionScale[1]) + 6)
   }
 
+  setPlayerName(name: string) {
+    this.playerName.setText(name)
+    this.statusBadge.setX(-this.playerName.width / 2 - 6).setVisible(!!name)
+  }
+
+  setStatus(status: string) {
+    if (!isPlayerStatus(status)) return
+    this.status = status
+    const { color } = playerStatusStyles[status]
+    this.statusBadge.setFillStyle(Phaser.Display.Color.HexStringToColor(color).color)
+  }
+
   updateDialogBubble(content: string) {
     this.clearDialogBubble()
 
-    // preprocessing for dialog bubble text (maximum 70 characters)
-    const dialogBubbleText = content.length <= 70 ? content : content.substring(0, 70).concat('...')
+    // plain text without markup, clipped to the bubble's length
+    const dialogBubbleText = toDialogBubbleText(content)
+    if (!dialogBubbleText) return
 
     const innerText = this.scene.add
       .text(0, 0, dialogBubbleText, { wordWrap: { width: 165, useAdvancedWrap: true } })
@@ -1,22 +1,55 @@
-import React, { useRef, useState, useEffect } from 'react'
+import React, { useRef, useState, useEffect, useLayoutEffect } from 'react'
 import styled from 'styled-components'
 import Box from '@mui/material/Box'
 import Fab from '@mui/material/Fab'
+import Badge from '@mui/material/Badge'
+import Chip from '@mui/material/Chip'
 import Tooltip from '@mui/material/Tooltip'
+import Snackbar from '@mui/material/Snackbar'
+import Alert from '@mui/material/Alert'
 import IconButton from '@mui/material/IconButton'
 import InputBase from '@mui/material/InputBase'
 import InsertEmoticonIcon from '@mui/icons-material/InsertEmoticon'
 import ChatBubbleOutlineIcon from '@mui/icons-material/ChatBubbleOutline'
 import CloseIcon from '@mui/icons-material/Close'
+import AddReactionIcon from '@mui/icons-material/AddReaction'
+import EditOutlinedIcon from '@mui/icons-material/EditOutlined'
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline'
 import 'emoji-mart/css/emoji-mart.css'
 import { Picker } from 'emoji-mart'
 
 import phaserGame from '../PhaserGame'
 import Game from '../scenes/Game'
 
-import { getColorByString } from '../util'
+import { getColorByString, sanitizeId } from '../util'
 import { useAppDispatch, useAppSelector } from '../hooks'
-import { MessageType, setFocused, setShowChat } from '../stores/ChatStore'
+import {
+  MessageType,
+  closeConversation,
+  openChannel,
+  openConversation,
+  pushCommandResult,
+  setChatHistoryLoading,
+  setFocused,
+  setMention,
+  setShowChat,
+} from '../stores/ChatStore'
+import { IChatMessage } from '../../../types/IOfficeState'
+import { MAX_CHAT_MESSAGE_LENGTH } from '../../../types/MessagePayloads'
+import { parseChatReactions } from '../../../types/ChatReactions'
+import {
+  CHAT_COMMAND_NAME_PATTERN,
+  CHAT_COMMAND_PREFIX,
+  parseChatCommand,
+} from '../../../types/ChatCommands'
+import { toPlainText, tokenizeChatContent } from '../../../types/ChatFormatting'
+import {
+  GLOBAL_CHANNEL,
+  PROXIMITY_CHANNEL,
+  getZoneChannel,
+  parseChatChannel,
+} from '../../../types/ChatChannels'
+import { canModerate } from '../../../types/RoomRoles'
 
 const Backdrop = styled.div`
   position: fixed;
@@ -60,6 +93,18 @@ const ChatHeader = styled.div`
   }
 `
 
+const ConversationBar = styled.div`
+  display: flex;
+  gap: 6px;
+  padding: 6px;
+  overflow-x: auto;
+  background: #000000a7;
+
+  .MuiBadge-root {
+    flex: none;
+  }
+`
+
 const ChatBox = styled(Box)`
   height: 100%;
   width: 100%;
@@ -69,6 +114,7 @@ const ChatBox = styled(Box)`
 `
 
 const MessageWrapper = styled.div`
+  position: relative;
   display: flex;
   flex-wrap: wrap;
   padding: 0px 2px;
@@ -90,6 +136,89 @@ const MessageWrapper = styled.div`
   .notification {
     color: grey;
     font-weight: normal;
+    white-space: pre-line;
+  }
+
+  .emote {
+    color: #c8c8c8;
+    font-style: italic;
+    font-weight: normal;
+  }
+
+  .history {
+    all: unset;
+    cursor: pointer;
+    color: grey;
+    font-weight: normal;
+
+    :hover {
+      text-decoration: underline;
+    }
+  }
+
+  .author {
+    all: unset;
+    cursor: pointer;
+
+    :hover {
+      text-decoration: underline;
+    }
+  }
+
+  .edited {
+    color: grey;
+    font-size: 12px;
+  }
+
+  .mention {
+    color: #42eacb;
+    font-weight: bold;
+
+    &.me {
+      background: #42eacb33;
+      border-radius: 3px;
+    }
+  }
+
+  a {
+    color: #8ab4f8;
+    font-weight: normal;
+  }
+
+  code {
+    padding: 0 3px;
+    background: #00000066;
+    border-radius: 3px;
+    font-weight: normal;
+  }
+
+  .actions {
+    position: absolute;
+    top: 0;
+    right: 2px;
+    background: #3a3a3a;
+  }
+
+  .reactions {
+    display: flex;
+    flex-wrap: wrap;
+    gap: 4px;
+    width: 100%;
+    padding: 0 3px 3px;
+  }
+
+  .reaction {
+    all: unset;
+    cursor: pointer;
+    padding: 0 6px;
+    border: 1px solid #555;
+    border-radius: 10px;
+    color: white;
+    font-size: 13px;
+
+    &.mine {
+      border-color: #42eacb;
+    }
   }
 
   :hover {
@@ -113,6 +242,40 @@ const InputTextField = styled(InputBase)`
   }
 `
 
+const Suggestions = styled.div`
+  position: absolute;
+  bottom: 54px;
+  left: 16px;
+  right: 16px;
+  max-height: 160px;
+  overflow-y: auto;
+  background: #000000e0;
+  border-radius: 8px 8px 0 0;
+
+  button {
+    all: unset;
+    display: block;
+    width: 100%;
+    box-sizing: border-box;
+    padding: 4px 8px;
+    cursor: pointer;
+    color: white;
+    font-size: 14px;
+
+    :hover {
+      background: #3a3a3a;
+    }
+  }
+
+  .usage {
+    color: #42eacb;
+  }
+
+  .description {
+    color: grey;
+  }
+`
+
 const EmojiPickerWrapper = styled.div`
   position: absolute;
   bottom: 54px;
@@ -124,8 +287,66 @@ const dateFormatter = new Intl.DateTimeFormat('en', {
   dateStyle: 'short',
 })
 
-const Message = ({ chatMessage, messageType }) => {
+const getChannelLabel = (channel: string, game: Game) => {
+  const parsed = parseChatChannel(channel)
+  if (!parsed || parsed.kind === 'global') return 'Room'
+  if (parsed.kind === 'proximity') return 'Nearby'
+  switch (parsed.zoneType) {
+    case 'computer':
+      return 'Computer'
+    case 'whiteboard':
+      return 'Whiteboard'
+    case 'area':
+      return game.getMapAreas().find((area) => area.id === parsed.zoneId)?.name ?? 'Area'
+  }
+}
+
+// renders the markdown subset, links and mentions as elements, so the content always stays text
+const MessageContent = ({ content, names, myName }) => (
+  <>
+    {tokenizeChatContent(content, names).map((token, index) => {
+      switch (token.type) {
+        case 'bold':
+          return <strong key={index}>{token.text}</strong>
+        case 'italic':
+          return <em key={index}>{token.text}</em>
+        case 'code':
+          return <code key={index}>{token.text}</code>
+        case 'link':
+          return (
+            <a href={token.href} target="_blank" rel="noopener noreferrer" key={index}>
+              {token.text}
+            </a>
+          )
+        case 'mention':
+          return (
+            <span className={token.name === myName ? 'mention me' : 'mention'} key={index}>
+              {token.text}
+            </span>
+          )
+        default:
+          return token.text
+      }
+    })}
+  </>
+)
+
+// onAuthorClick is set when the author can be sent a direct message, the other handlers when the
+// message can be reacted to, edited or deleted
+const Message = ({
+  chatMessage,
+  messageType,
+  mySessionId,
+  names,
+  myName,
+  onAuthorClick,
+  onReact,
+  onEdit,
+  onDelete,
+  onReactionClick,
+}) => {
   const [tooltipOpen, setTooltipOpen] = useState(false)
+  const reactions = Object.entries(parseChatReactions(chatMessage.reactions))
 
   return (
     <MessageWrapper
@@ -148,14 +369,67 @@ const Message = ({ chatMessage, messageType }) => {
               color: getColorByString(chatMessage.author),
             }}
           >
-            {chatMessage.author}: <span>{chatMessage.content}</span>
+            {onAuthorClick ? (
+              <button type="button" className="author" onClick={onAuthorClick}>
+                {chatMessage.author}
+              </button>
+            ) : (
+              chatMessage.author
+            )}
+            :{' '}
+            {chatMessage.deleted ? (
+              <span className="notification">message deleted</span>
+            ) : (
+              <span>
+                <MessageContent content={chatMessage.content} names={names} myName={myName} />
+                {chatMessage.editedAt > 0 && <span className="edited"> (edited)</span>}
+              </span>
+            )}
           </p>
+        ) : messageType === MessageType.SERVER_NOTICE ? (
+          <p className="notification">{chatMessage.content}</p>
+        ) : messageType === MessageType.EMOTE ? (
+          <p className="emote">* {chatMessage.content}</p>
         ) : (
           <p className="notification">
             {chatMessage.author} {chatMessage.content}
           </p>
         )}
       </Tooltip>
+      {tooltipOpen && (onReact || onEdit || onDelete) && (
+        <div className="actions">
+          {onReact && (
+            <IconButton aria-label="react" size="small" onClick={onReact}>
+              <AddReactionIcon fontSize="inherit" />
+            </IconButton>
+          )}
+          {onEdit && (
+            <IconButton aria-label="edit" size="small" onClick={onEdit}>
+              <EditOutlinedIcon fontSize="inherit" />
+            </IconButton>
+          )}
+          {onDelete && (
+            <IconButton aria-label="delete" size="small" onClick={onDelete}>
+              <DeleteOutlineIcon fontSize="inherit" />
+            </IconButton>
+          )}
+        </div>
+      )}
+      {reactions.length > 0 && (
+        <div className="reactions">
+          {reactions.map(([emoji, playerIds]) => (
+            <button
+              type="button"
+              className={playerIds.includes(mySessionId) ? 'reaction mine' : 'reaction'}
+              disabled={!onReactionClick}
+              onClick={() => onReactionClick?.(emoji)}
+              key={emoji}
+            >
+              {emoji} {playerIds.length}
+            </button>
+          ))}
+        </div>
+      )}
     </MessageWrapper>
   )
 }
@@ -164,20 +438,170 @@ export default function Chat() {
   const [inputValue, setInputValue] = useState('')
   const [showEmojiPicker, setShowEmojiPicker] = useState(false)
   const [readyToSubmit, setReadyToSubmit] = useState(false)
+  // the message whose text is in the input while it is being edited
+  const [editingMessage, setEditingMessage] = useState<IChatMessage | null>(null)
+  // id of the message the emoji picker adds a reaction to
+  const [reactionTarget, setReactionTarget] = useState<number | null>(null)
+  // a moderator muted me; the server drops what I send until the mute ends
+  const [muted, setMuted] = useState(false)
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  const chatBoxRef = useRef<HTMLDivElement>(null)
+  // scroll height before a history page was requested, to keep the view in place once it arrives
+  const scrollHeightBeforeLoad = useRef<number | null>(null)
   const inputRef = useRef<HTMLInputElement>(null)
   const chatMessages = useAppSelector((state) => state.chat.chatMessages)
+  const directConversations = useAppSelector((state) => state.chat.directConversations)
+  const activeConversation = useAppSelector((state) => state.chat.activeConversation)
+  const roomUnread = useAppSelector((state) => state.chat.roomUnread)
+  const hasMoreHistory = useAppSelector((state) => state.chat.hasMoreHistory)
+  const historyLoading = useAppSelector((state) => state.chat.historyLoading)
+  const channelLogs = useAppSelector((state) => state.chat.channelLogs)
+  const activeChannel = useAppSelector((state) => state.chat.activeChannel)
+  const currentArea = useAppSelector((state) => state.chat.currentArea)
+  const computerId = useAppSelector((state) => state.computer.computerId)
+  const whiteboardId = useAppSelector((state) => state.whiteboard.whiteboardId)
+  const playerNameMap = useAppSelector((state) => state.user.playerNameMap)
+  const mySessionId = useAppSelector((state) => state.user.sessionId)
+  const role = useAppSelector((state) => state.user.role)
+  const chatMutedUntil = useAppSelector((state) => state.user.chatMutedUntil)
+  const chatCommands = useAppSelector((state) => state.chat.chatCommands)
+  const mention = useAppSelector((state) => state.chat.mention)
   const focused = useAppSelector((state) => state.chat.focused)
   const showChat = useAppSelector((state) => state.chat.showChat)
   const dispatch = useAppDispatch()
   const game = phaserGame.scene.keys.game as Game
+  const activeMessages = activeConversation
+    ? directConversations.get(activeConversation)?.messages ?? []
+    : activeChannel === GLOBAL_CHANNEL
+    ? chatMessages
+    : channelLogs.get(activeChannel)?.messages ?? []
+  const lastMessage = activeMessages[activeMessages.length - 1]
+  const oldestId = chatMessages.find(({ chatMessage }) => chatMessage.id > 0)?.chatMessage.id
+  const canLoadHistory =
+    !activeConversation && activeChannel === GLOBAL_CHANNEL && hasMoreHistory && !!oldestId
+  const totalUnread = [...directConversations.values(), ...channelLogs.values()].reduce(
+    (total, log) => total + log.unread,
+    roomUnread
+  )
+
+  // while a command name is typed, the commands it could be; once arguments follow, its usage
+  const typedCommand = editingMessage ? null : parseChatCommand(inputValue)
+  const typingCommandName = !!typedCommand && !/\s/.test(inputValue.trim())
+  const commandSuggestions = typedCommand
+    ? chatCommands.filter(({ name }) =>
+        typingCommandName ? name.startsWith(typedCommand.name) : name === typedCommand.name
+      )
+    : []
+
+  // names mentions are highlighted for, mine included
+  const myName = game.myPlayer?.playerName.text ?? ''
+  const playerNames = Array.from(new Set([...playerNameMap.values(), myName])).filter(Boolean)
+  // `@` and the start of a name at the end of the input
+  const mentionQuery = typedCommand ? undefined : /(?:^|\s)@([^\s@]*)$/.exec(inputValue)?.[1]
+  const mentionSuggestions =
+    mentionQuery === undefined
+      ? []
+      : playerNames
+          .filter((name) => name !== myName)
+          .filter((name) => name.toLowerCase().startsWith(mentionQuery.toLowerCase()))
+          .sort((a, b) => a.localeCompare(b))
+          .slice(0, 8)
+
+  // the zones myPlayer is in, followed by channels that have history
+  const channels = [
+    GLOBAL_CHANNEL,
+    PROXIMITY_CHANNEL,
+    ...(computerId ? [getZoneChannel('computer', computerId)] : []),
+    ...(whiteboardId ? [getZoneChannel('whiteboard', whiteboardId)] : []),
+    ...(currentArea ? [getZoneChannel('area', currentArea.id)] : []),
+    ...channelLogs.keys(),
+  ].filter((channel, index, all) => all.indexOf(channel) === index)
+
+  // falls back to the name on the last message once the player has left
+  const getPeerName = (peerId: string) => {
+    const name = playerNameMap.get(sanitizeId(peerId))
+    if (name) return name
+    const messages = directConversations.get(peerId)?.messages ?? []
+    const lastIncoming = [...messages]
+      .reverse()
+      .find(({ chatMessage }) => chatMessage.authorId === peerId)
+    return lastIncoming?.chatMessage.author ?? 'Player'
+  }
+
+  // stored messages keep the session id their author had, so only players still here qualify
+  const canMessage = (playerId: string) =>
+    !!playerId && playerId !== mySessionId && playerNameMap.has(sanitizeId(playerId))
+
+  // only messages still in the room state sync their changes back
+  const canChange = (messageType: MessageType, chatMessage: IChatMessage, archived?: boolean) =>
+    !activeConversation &&
+    activeChannel === GLOBAL_CHANNEL &&
+    messageType === MessageType.REGULAR_MESSAGE &&
+    !archived &&
+    chatMessage.id > 0 &&
+    !chatMessage.deleted
+
+  const canManage = (chatMessage: IChatMessage) =>
+    canModerate(role) || (!!mySessionId && chatMessage.authorId === mySessionId)
+
+  const startEdit = (chatMessage: IChatMessage) => {
+    setEditingMessage(chatMessage)
+    setInputValue(chatMessage.content)
+    dispatch(setFocused(true))
+  }
+
+  const cancelEdit = () => {
+    setEditingMessage(null)
+    setInputValue('')
+  }
+
+  const startDirectMessage = (peerId: string) => {
+    dispatch(openConversation(peerId))
+    dispatch(setFocused(true))
+  }
+
+  const loadOlderMessages = () => {
+    if (!canLoadHistory || historyLoading || !oldestId) return
+    scrollHeightBeforeLoad.current = chatBoxRef.current?.scrollHeight ?? null
+    dispatch(setChatHistoryLoading(true))
+    game.network.loadChatHistory(oldestId)
+  }
+
+  const handleScroll = () => {
+    if (chatBoxRef.current?.scrollTop === 0) loadOlderMessages()
+  }
 
   const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     setInputValue(event.target.value)
   }
 
+  const completeCommand = (name: string) => {
+    setInputValue(`${CHAT_COMMAND_PREFIX}${name} `)
+    inputRef.current?.focus()
+  }
+
+  const completeMention = (name: string) => {
+    setInputValue(inputValue.replace(/@[^\s@]*$/, () => `@${name} `))
+    inputRef.current?.focus()
+  }
+
+  const openMention = () => {
+    if (!mention) return
+    dispatch(openChannel(mention.channel))
+    dispatch(setShowChat(true))
+    dispatch(setMention(null))
+  }
+
   const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
-    if (event.key === 'Escape') {
+    if (event.key === 'Tab' && typingCommandName && commandSuggestions.length) {
+      event.preventDefault()
+      completeCommand(commandSuggestions[0].name)
+    } else if (event.key === 'Tab' && mentionSuggestions.length) {
+      event.preventDefault()
+      completeMention(mentionSuggestions[0])
+    } else if (event.key === 'Escape' && editingMessage) {
+      cancelEdit()
+    } else if (event.key === 'Escape') {
       // move focus back to the game
       inputRef.current?.blur()
       dispatch(setShowChat(false))
@@ -199,10 +623,24 @@ export default function Chat() {
     inputRef.current?.blur()
 
     const val = inputValue.trim()
+    const command = parseChatCommand(val)
+    // a leading `//` sends the message with a single slash
+    const content = val.startsWith(CHAT_COMMAND_PREFIX.repeat(2)) ? val.slice(1) : val
     setInputValue('')
-    if (val) {
-      game.network.addChatMessage(val)
-      game.myPlayer.updateDialogBubble(val)
+    if (editingMessage) {
+      if (val && val !== editingMessage.content) {
+        game.network.editChatMessage(editingMessage.id, val)
+      }
+      setEditingMessage(null)
+    } else if (command && !CHAT_COMMAND_NAME_PATTERN.test(command.name)) {
+      dispatch(pushCommandResult(`Unknown command /${command.name}. Type /help for the list.`))
+    } else if (command) {
+      game.network.sendChatCommand(command.name, command.args)
+    } else if (content && activeConversation) {
+      game.network.sendDirectMessage(activeConversation, content)
+    } else if (content) {
+      game.network.addChatMessage(content, activeChannel)
+      game.myPlayer.updateDialogBubble(content)
     }
   }
 
@@ -218,10 +656,49 @@ export default function Chat() {
 
   useEffect(() => {
     scrollToBottom()
-  }, [chatMessages, showChat])
+  }, [lastMessage, showChat])
+
+  useEffect(() => {
+    const remaining = chatMutedUntil - Date.now()
+    setMuted(remaining > 0)
+    if (remaining <= 0) return
+    const timer = window.setTimeout(() => setMuted(false), remaining)
+    return () => window.clearTimeout(timer)
+  }, [chatMutedUntil])
+
+  // an edit belongs to the global channel, so it ends when another channel is opened
+  useEffect(() => {
+    setEditingMessage(null)
+    setReactionTarget(null)
+  }, [activeChannel, activeConversation])
+
+  useLayoutEffect(() => {
+    const chatBox = chatBoxRef.current
+    if (!chatBox || historyLoading || scrollHeightBeforeLoad.current === null) return
+    chatBox.scrollTop = chatBox.scrollHeight - scrollHeightBeforeLoad.current
+    scrollHeightBeforeLoad.current = null
+  }, [chatMessages, historyLoading])
 
   return (
     <Backdrop>
+      <Snackbar
+        anchorOrigin={{ vertical: 'top', horizontal: 'center' }}
+        open={!!mention}
+        autoHideDuration={6000}
+        onClose={(_event, reason) => {
+          if (reason !== 'clickaway') dispatch(setMention(null))
+        }}
+      >
+        <Alert
+          severity="info"
+          variant="outlined"
+          // overwrites the dark theme on render
+          style={{ background: '#e5f6fd', color: '#014361', cursor: 'pointer' }}
+          onClick={openMention}
+        >
+          {mention && `${mention.senderName} mentioned you: ${toPlainText(mention.content)}`}
+        </Alert>
+      </Snackbar>
       <Wrapper>
         {showChat ? (
           <>
@@ -236,18 +713,107 @@ export default function Chat() {
                 <CloseIcon />
               </IconButton>
             </ChatHeader>
-            <ChatBox>
-              {chatMessages.map(({ messageType, chatMessage }, index) => (
-                <Message chatMessage={chatMessage} messageType={messageType} key={index} />
+            <ConversationBar>
+              {channels.map((channel) => (
+                <Badge
+                  badgeContent={
+                    channel === GLOBAL_CHANNEL ? roomUnread : channelLogs.get(channel)?.unread
+                  }
+                  color="error"
+                  key={channel}
+                >
+                  <Chip
+                    label={getChannelLabel(channel, game)}
+                    size="small"
+                    color="primary"
+                    variant={
+                      !activeConversation && activeChannel === channel ? 'filled' : 'outlined'
+                    }
+                    onClick={() => dispatch(openChannel(channel))}
+                  />
+                </Badge>
               ))}
+              {Array.from(directConversations.entries()).map(([peerId, conversation]) => (
+                <Badge badgeContent={conversation.unread} color="error" key={peerId}>
+                  <Chip
+                    label={getPeerName(peerId)}
+                    size="small"
+                    color="secondary"
+                    variant={activeConversation === peerId ? 'filled' : 'outlined'}
+                    onClick={() => dispatch(openConversation(peerId))}
+                    onDelete={() => dispatch(closeConversation(peerId))}
+                  />
+                </Badge>
+              ))}
+            </ConversationBar>
+            <ChatBox ref={chatBoxRef} onScroll={handleScroll}>
+              {canLoadHistory && (
+                <MessageWrapper>
+                  <p>
+                    {historyLoading ? (
+                      <span className="notification">Loading older messages...</span>
+                    ) : (
+                      <button type="button" className="history" onClick={loadOlderMessages}>
+                        Load older messages
+                      </button>
+                    )}
+                  </p>
+                </MessageWrapper>
+              )}
+              {activeMessages.map(({ messageType, chatMessage, archived }, index) => {
+                const changeable = canChange(messageType, chatMessage, archived)
+                return (
+                  <Message
+                    chatMessage={chatMessage}
+                    messageType={messageType}
+                    mySessionId={mySessionId}
+                    names={playerNames}
+                    myName={myName}
+                    onAuthorClick={
+                      !activeConversation && canMessage(chatMessage.authorId)
+                        ? () => startDirectMessage(chatMessage.authorId)
+                        : undefined
+                    }
+                    onReact={
+                      changeable
+                        ? () => {
+                            setShowEmojiPicker(false)
+                            setReactionTarget(chatMessage.id)
+                          }
+                        : undefined
+                    }
+                    onEdit={
+                      changeable && canManage(chatMessage)
+                        ? () => startEdit(chatMessage)
+                        : undefined
+                    }
+                    onDelete={
+                      changeable && canManage(chatMessage)
+                        ? () => game.network.deleteChatMessage(chatMessage.id)
+                        : undefined
+                    }
+                    onReactionClick={
+                      changeable
+                        ? (emoji: string) => game.network.toggleChatReaction(chatMessage.id, emoji)
+                        : undefined
+                    }
+                    key={index}
+                  />
+                )
+              })}
               <div ref={messagesEndRef} />
-              {showEmojiPicker && (
+              {(showEmojiPicker || reactionTarget !== null) && (
                 <EmojiPickerWrapper>
                   <Picker
                     theme="dark"
                     showSkinTones={false}
                     showPreview={false}
                     onSelect={(emoji) => {
+                      if (reactionTarget !== null) {
+                        game.network.toggleChatReaction(reactionTarget, emoji.native)
+                        setReactionTarget(null)
+                        return
+                      }
                       setInputValue(inputValue + emoji.native)
                       setShowEmojiPicker(!showEmojiPicker)
                       dispatch(setFocused(true))
@@ -257,12 +823,58 @@ export default function Chat() {
                 </EmojiPickerWrapper>
               )}
             </ChatBox>
+            {focused && commandSuggestions.length > 0 && (
+              <Suggestions>
+                {commandSuggestions.map(({ name, usage, description }) => (
+                  <button
+                    type="button"
+                    // keeps the input focused
+                    onMouseDown={(event) => event.preventDefault()}
+                    onClick={() => completeCommand(name)}
+                    key={name}
+                  >
+                    {CHAT_COMMAND_PREFIX}
+                    {name} <span className="usage">{usage}</span>{' '}
+                    <span className="description">{description}</span>
+                  </button>
+                ))}
+              </Suggestions>
+            )}
+            {focused && mentionSuggestions.length > 0 && (
+              <Suggestions>
+                {mentionSuggestions.map((name) => (
+                  <button
+                    type="button"
+                    onMouseDown={(event) => event.preventDefault()}
+                    onClick={() => completeMention(name)}
+                    key={name}
+                  >
+                    @{name}
+                  </button>
+                ))}
+              </Suggestions>
+            )}
             <InputWrapper onSubmit={handleSubmit}>
               <InputTextField
                 inputRef={inputRef}
                 autoFocus={focused}
                 fullWidth
-                placeholder="Press Enter to chat"
+                disabled={muted}
+                placeholder={
+                  muted
+                    ? `Muted until ${new Date(chatMutedUntil).toLocaleTimeString([], {
+                        hour: '2-digit',
+                        minute: '2-digit',
+                      })}`
+                    : editingMessage
+                    ? 'Edit message, Esc to cancel'
+                    : activeConversation
+                    ? `Message ${getPeerName(activeConversation)}`
+                    : activeChannel === GLOBAL_CHANNEL
+                    ? 'Press Enter to chat'
+                    : `Chat in ${getChannelLabel(activeChannel, game)}`
+                }
+                inputProps={{ maxLength: MAX_CHAT_MESSAGE_LENGTH }}
                 value={inputValue}
                 onKeyDown={handleKeyDown}
                 onChange={handleChange}
@@ -277,7 +889,13 @@ export default function Chat() {
                   setReadyToSubmit(false)
                 }}
               />
-              <IconButton aria-label="emoji" onClick={() => setShowEmojiPicker(!showEmojiPicker)}>
+              <IconButton
+                aria-label="emoji"
+                onClick={() => {
+                  setReactionTarget(null)
+                  setShowEmojiPicker(!showEmojiPicker)
+                }}
+              >
                 <InsertEmoticonIcon />
               </IconButton>
             </InputWrapper>
@@ -292,7 +910,9 @@ export default function Chat() {
                 dispatch(setFocused(true))
               }}
             >
-              <ChatBubbleOutlineIcon />
+              <Badge badgeContent={totalUnread} color="error">
+                <ChatBubbleOutlineIcon />
+              </Badge>
             </Fab>
           </FabWrapper>
         )}
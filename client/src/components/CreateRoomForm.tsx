@@ -4,10 +4,12 @@ import Button from '@mui/material/Button'
 import IconButton from '@mui/material/IconButton'
 import TextField from '@mui/material/TextField'
 import InputAdornment from '@mui/material/InputAdornment'
+import MenuItem from '@mui/material/MenuItem'
 import Visibility from '@mui/icons-material/Visibility'
 import VisibilityOff from '@mui/icons-material/VisibilityOff'
 
 import { IRoomData } from '../../../types/Rooms'
+import { DEFAULT_MAP_ID, OFFICE_MAPS } from '../../../types/OfficeMaps'
 import { useAppSelector } from '../hooks'
 
 import phaserGame from '../PhaserGame'
@@ -26,6 +28,7 @@ export const CreateRoomForm = () => {
     description: '',
     password: null,
     autoDispose: true,
+    mapId: DEFAULT_MAP_ID,
   })
   const [showPassword, setShowPassword] = useState(false)
   const [nameFieldEmpty, setNameFieldEmpty] = useState(false)
@@ -78,6 +81,21 @@ export const CreateRoomForm = () => {
         onChange={handleChange('description')}
       />
 
+      <TextField
+        select
+        label="Map"
+        variant="outlined"
+        color="secondary"
+        value={values.mapId}
+        onChange={handleChange('mapId')}
+      >
+        {OFFICE_MAPS.map((map) => (
+          <MenuItem key={map.id} value={map.id}>
+            {map.name}
+          </MenuItem>
+        ))}
+      </TextField>
+
       <TextField
         type={showPassword ? 'text' : 'password'}
         label="Password (optional)"
@@ -19,6 +19,7 @@ import PeopleAltIcon from '@mui/icons-material/PeopleAlt'
 import LockIcon from '@mui/icons-material/Lock'
 import { useAppSelector } from '../hooks'
 import { getAvatarString, getColorByString } from '../util'
+import { MODERATION_CLOSE_CODE } from '../../../types/Moderation'
 
 import phaserGame from '../PhaserGame'
 import Bootstrap from '../scenes/Bootstrap'
@@ -91,6 +92,8 @@ export const CustomRoomTable = () => {
   const [showPasswordDialog, setShowPasswordDialog] = useState(false)
   const [showPasswordError, setShowPasswordError] = useState(false)
   const [passwordFieldEmpty, setPasswordFieldEmpty] = useState(false)
+  // why the server refused the last join, e.g. a ban
+  const [joinError, setJoinError] = useState('')
   const lobbyJoined = useAppSelector((state) => state.room.lobbyJoined)
   const availableRooms = useAppSelector((state) => state.room.availableRooms)
 
@@ -102,7 +105,12 @@ export const CustomRoomTable = () => {
       .then(() => bootstrap.launchGame())
       .catch((error) => {
         console.error(error)
-        if (password) setShowPasswordError(true)
+        if (error?.code === MODERATION_CLOSE_CODE) {
+          resetPasswordDialog()
+          setJoinError(error.message)
+        } else if (password) {
+          setShowPasswordError(true)
+        }
       })
   }
 
@@ -125,6 +133,11 @@ export const CustomRoomTable = () => {
     <MessageText>There are no custom rooms now, create one or join the public lobby.</MessageText>
   ) : (
     <>
+      {joinError && (
+        <Alert severity="error" variant="outlined" onClose={() => setJoinError('')}>
+          {joinError}
+        </Alert>
+      )}
       <CustomRoomTableContainer component={Paper}>
         <Table>
           <TableHead>
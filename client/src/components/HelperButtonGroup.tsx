@@ -4,6 +4,7 @@ import Fab from '@mui/material/Fab'
 import IconButton from '@mui/material/IconButton'
 import Avatar from '@mui/material/Avatar'
 import Tooltip from '@mui/material/Tooltip'
+import Button from '@mui/material/Button'
 import HelpOutlineIcon from '@mui/icons-material/HelpOutline'
 import ShareIcon from '@mui/icons-material/Share'
 import LightModeIcon from '@mui/icons-material/LightMode'
@@ -15,11 +16,16 @@ import GitHubIcon from '@mui/icons-material/GitHub'
 import TwitterIcon from '@mui/icons-material/Twitter'
 import VideogameAssetIcon from '@mui/icons-material/VideogameAsset'
 import VideogameAssetOffIcon from '@mui/icons-material/VideogameAssetOff'
+import EditIcon from '@mui/icons-material/Edit'
+import EditOffIcon from '@mui/icons-material/EditOff'
 
 import { BackgroundMode } from '../../../types/BackgroundMode'
 import { setShowJoystick, toggleBackgroundMode } from '../stores/UserStore'
+import { startLayoutEditing, stopLayoutEditing } from '../stores/LayoutStore'
 import { useAppSelector, useAppDispatch } from '../hooks'
 import { getAvatarString, getColorByString } from '../util'
+import RoomSettingsDialog from './RoomSettingsDialog'
+import StatusMenu from './StatusMenu'
 
 const Backdrop = styled.div`
   position: fixed;
@@ -108,16 +114,22 @@ const StyledFab = styled(Fab)<{ target?: string }>`
 export default function HelperButtonGroup() {
   const [showControlGuide, setShowControlGuide] = useState(false)
   const [showRoomInfo, setShowRoomInfo] = useState(false)
+  const [showRoomSettings, setShowRoomSettings] = useState(false)
   const showJoystick = useAppSelector((state) => state.user.showJoystick)
   const backgroundMode = useAppSelector((state) => state.user.backgroundMode)
   const roomJoined = useAppSelector((state) => state.room.roomJoined)
   const roomId = useAppSelector((state) => state.room.roomId)
   const roomName = useAppSelector((state) => state.room.roomName)
   const roomDescription = useAppSelector((state) => state.room.roomDescription)
+  const loggedIn = useAppSelector((state) => state.user.loggedIn)
+  const role = useAppSelector((state) => state.user.role)
+  const layoutEditable = useAppSelector((state) => state.layout.layoutEditable)
+  const layoutEditing = useAppSelector((state) => state.layout.layoutEditing)
   const dispatch = useAppDispatch()
 
   return (
     <Backdrop>
+      <RoomSettingsDialog open={showRoomSettings} onClose={() => setShowRoomSettings(false)} />
       <div className="wrapper-group">
         {roomJoined && (
           <Tooltip title={showJoystick ? 'Disable virtual joystick' : 'Enable virtual joystick'}>
@@ -143,6 +155,11 @@ export default function HelperButtonGroup() {
             <RoomDescription>
               <ArrowRightIcon /> Description: {roomDescription}
             </RoomDescription>
+            {role === 'owner' && (
+              <Button color="secondary" onClick={() => setShowRoomSettings(true)}>
+                Room settings
+              </Button>
+            )}
             <p className="tip">
               <LightbulbIcon />
               Shareable link coming up 😄
@@ -159,6 +176,9 @@ export default function HelperButtonGroup() {
               <li>
                 <strong>W, A, S, D or arrow keys</strong> to move
               </li>
+              <li>
+                <strong>Click or tap</strong> a spot to walk there
+              </li>
               <li>
                 <strong>E</strong> to sit down (when facing a chair)
               </li>
@@ -171,6 +191,12 @@ export default function HelperButtonGroup() {
               <li>
                 <strong>ESC</strong> to close chat
               </li>
+              <li>
+                <strong>Click a name</strong> to send a direct message
+              </li>
+              <li>
+                <strong>/help</strong> in the chat to list the chat commands
+              </li>
             </ul>
             <p className="tip">
               <LightbulbIcon />
@@ -182,6 +208,7 @@ export default function HelperButtonGroup() {
       <ButtonGroup>
         {roomJoined && (
           <>
+            {loggedIn && <StatusMenu />}
             <Tooltip title="Room Info">
               <StyledFab
                 size="small"
@@ -193,6 +220,18 @@ export default function HelperButtonGroup() {
                 <ShareIcon />
               </StyledFab>
             </Tooltip>
+            {loggedIn && layoutEditable && (
+              <Tooltip title={layoutEditing ? 'Discard layout changes' : 'Edit office layout'}>
+                <StyledFab
+                  size="small"
+                  onClick={() =>
+                    dispatch(layoutEditing ? stopLayoutEditing() : startLayoutEditing())
+                  }
+                >
+                  {layoutEditing ? <EditOffIcon /> : <EditIcon />}
+                </StyledFab>
+              </Tooltip>
+            )}
             <Tooltip title="Control Guide">
               <StyledFab
                 size="small"
@@ -0,0 +1,182 @@
+import React, { useState } from 'react'
+import styled from 'styled-components'
+import Button from '@mui/material/Button'
+import Alert from '@mui/material/Alert'
+import TextField from '@mui/material/TextField'
+import MenuItem from '@mui/material/MenuItem'
+
+import { LAYOUT_DECOR_LAYERS, LayoutDecorLayer } from '../../../types/OfficeLayout'
+import { useAppSelector, useAppDispatch } from '../hooks'
+import {
+  setLayoutError,
+  setLayoutPalette,
+  setLayoutSaving,
+  stopLayoutEditing,
+} from '../stores/LayoutStore'
+
+import phaserGame from '../PhaserGame'
+import Game from '../scenes/Game'
+
+const Backdrop = styled.div`
+  position: fixed;
+  top: 16px;
+  right: 16px;
+  width: 300px;
+  max-height: calc(100% - 100px);
+  display: flex;
+  flex-direction: column;
+  gap: 10px;
+  padding: 16px;
+  color: #eee;
+  background: #222639;
+  box-shadow: 0px 0px 5px #0000006f;
+  border-radius: 16px;
+
+  h3 {
+    margin: 0;
+    font-size: 18px;
+  }
+
+  .tip {
+    margin: 0;
+    font-size: 13px;
+    color: #c2c2c2;
+  }
+`
+
+const Palette = styled.div`
+  flex: 1;
+  min-height: 96px;
+  overflow-y: auto;
+  display: flex;
+  flex-wrap: wrap;
+  align-content: flex-start;
+  gap: 2px;
+  padding: 4px;
+  background: #1a1d2e;
+  border-radius: 8px;
+`
+
+const Tile = styled.button<{ selected: boolean }>`
+  flex: none;
+  padding: 0;
+  border: 2px solid ${(props) => (props.selected ? '#1ea2df' : 'transparent')};
+  background-repeat: no-repeat;
+  cursor: pointer;
+`
+
+const ButtonGroup = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 8px;
+`
+
+export default function LayoutEditorPanel() {
+  const [layer, setLayer] = useState<LayoutDecorLayer>('Objects')
+  const palette = useAppSelector((state) => state.layout.palette)
+  const objectSelected = useAppSelector((state) => state.layout.objectSelected)
+  const dirty = useAppSelector((state) => state.layout.dirty)
+  const saving = useAppSelector((state) => state.layout.saving)
+  const error = useAppSelector((state) => state.layout.error)
+  const dispatch = useAppDispatch()
+  const game = phaserGame.scene.keys.game as Game
+  const tileset = game.getLayoutTileset(layer)
+
+  const submit = (request: () => Promise<void>) => {
+    dispatch(setLayoutSaving(true))
+    request()
+      .then(() => dispatch(stopLayoutEditing()))
+      .catch((err) => {
+        dispatch(setLayoutSaving(false))
+        dispatch(setLayoutError(err instanceof Error ? err.message : String(err)))
+      })
+  }
+
+  return (
+    <Backdrop>
+      <h3>Office layout</h3>
+      <p className="tip">
+        Drag objects to move them, select one and press Delete to remove it, or pick a tile and
+        click an empty spot to place it.
+      </p>
+      <TextField
+        select
+        size="small"
+        label="Layer"
+        color="secondary"
+        value={layer}
+        onChange={(event) => {
+          setLayer(event.target.value as LayoutDecorLayer)
+          dispatch(setLayoutPalette(null))
+        }}
+      >
+        {Object.keys(LAYOUT_DECOR_LAYERS).map((name) => (
+          <MenuItem key={name} value={name}>
+            {name}
+          </MenuItem>
+        ))}
+      </TextField>
+      {tileset && (
+        <Palette>
+          {Array.from({ length: tileset.tilecount }, (_, frame) => (
+            <Tile
+              key={frame}
+              selected={palette?.layer === layer && palette.frame === frame}
+              style={{
+                width: tileset.tileSize + 4,
+                height: tileset.tileSize + 4,
+                backgroundImage: `url(${tileset.image})`,
+                backgroundPosition: `${-(frame % tileset.columns) * tileset.tileSize}px ${
+                  -Math.floor(frame / tileset.columns) * tileset.tileSize
+                }px`,
+                backgroundOrigin: 'content-box',
+              }}
+              onClick={() =>
+                dispatch(
+                  setLayoutPalette(
+                    palette?.layer === layer && palette.frame === frame ? null : { layer, frame }
+                  )
+                )
+              }
+            />
+          ))}
+        </Palette>
+      )}
+      {error && <Alert severity="error">{error}</Alert>}
+      <ButtonGroup>
+        <Button
+          variant="contained"
+          color="secondary"
+          disabled={!dirty || saving}
+          onClick={() => submit(() => game.layoutEditor.save())}
+        >
+          Save
+        </Button>
+        <Button
+          variant="outlined"
+          color="secondary"
+          disabled={!objectSelected || saving}
+          onClick={() => game.layoutEditor.removeSelected()}
+        >
+          Remove
+        </Button>
+        <Button
+          variant="outlined"
+          color="secondary"
+          disabled={saving}
+          onClick={() => dispatch(stopLayoutEditing())}
+        >
+          Discard
+        </Button>
+        <Button
+          variant="text"
+          color="secondary"
+          disabled={saving}
+          onClick={() => submit(() => game.layoutEditor.reset())}
+        >
+          Reset to base map
+        </Button>
+      </ButtonGroup>
+    </Backdrop>
+  )
+}
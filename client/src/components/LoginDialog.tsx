@@ -19,6 +19,7 @@ import Nancy from '../images/login/Nancy_login.png'
 import { useAppSelector, useAppDispatch } from '../hooks'
 import { setLoggedIn } from '../stores/UserStore'
 import { getAvatarString, getColorByString } from '../util'
+import { MAX_PLAYER_NAME_LENGTH } from '../../../types/MessagePayloads'
 
 import phaserGame from '../PhaserGame'
 import Game from '../scenes/Game'
@@ -205,6 +206,7 @@ export default function LoginDialog() {
             color="secondary"
             error={nameFieldEmpty}
             helperText={nameFieldEmpty && 'Name is required'}
+            inputProps={{ maxLength: MAX_PLAYER_NAME_LENGTH }}
             onInput={(e) => {
               setName((e.target as HTMLInputElement).value)
             }}
@@ -0,0 +1,233 @@
+import React, { useState } from 'react'
+import styled from 'styled-components'
+import Menu from '@mui/material/Menu'
+import MenuItem from '@mui/material/MenuItem'
+import Divider from '@mui/material/Divider'
+import Dialog from '@mui/material/Dialog'
+import DialogTitle from '@mui/material/DialogTitle'
+import DialogContent from '@mui/material/DialogContent'
+import DialogActions from '@mui/material/DialogActions'
+import TextField from '@mui/material/TextField'
+import Button from '@mui/material/Button'
+
+import phaserGame from '../PhaserGame'
+import Game from '../scenes/Game'
+
+import { useAppDispatch, useAppSelector } from '../hooks'
+import { PlayerMenuTarget, closePlayerMenu } from '../stores/ModerationStore'
+import { openConversation, setFocused, setShowChat } from '../stores/ChatStore'
+import { BanTarget, MAX_MODERATION_REASON_LENGTH } from '../../../types/Moderation'
+import { RoomRole, canModerate, outranks } from '../../../types/RoomRoles'
+
+const HOUR_MS = 60 * 60_000
+const DAY_MS = 24 * HOUR_MS
+
+const MUTE_DURATIONS = [
+  { label: 'Mute for 10 minutes', durationMs: 10 * 60_000 },
+  { label: 'Mute for an hour', durationMs: HOUR_MS },
+]
+
+// 0 stands for a permanent ban
+const BAN_DURATIONS = [
+  { label: 'An hour', durationMs: HOUR_MS },
+  { label: 'A day', durationMs: DAY_MS },
+  { label: 'A week', durationMs: 7 * DAY_MS },
+  { label: 'Permanently', durationMs: 0 },
+]
+
+const ModerationDialog = styled(Dialog)`
+  .dialog-content {
+    display: flex;
+    flex-direction: column;
+    gap: 16px;
+    padding-top: 8px !important;
+    min-width: 320px;
+  }
+
+  .MuiDialog-paper {
+    background: #222639;
+  }
+`
+
+interface PendingAction {
+  target: PlayerMenuTarget
+  action: 'kick' | 'ban'
+}
+
+export default function PlayerMenu() {
+  const [pending, setPending] = useState<PendingAction | null>(null)
+  const [reason, setReason] = useState('')
+  const [banDuration, setBanDuration] = useState(DAY_MS)
+  const [banBy, setBanBy] = useState<BanTarget>('identity')
+  const target = useAppSelector((state) => state.moderation.playerMenu)
+  const role = useAppSelector((state) => state.user.role)
+  const dispatch = useAppDispatch()
+  const game = phaserGame.scene.keys.game as Game
+
+  // owners moderate moderators too, moderators only members
+  const moderation = target ? game.network.getModerationState(target.playerId) : null
+  const mayModerate = canModerate(role) && !!moderation && outranks(role, moderation.role)
+
+  const openDirectMessage = (playerId: string) => {
+    dispatch(closePlayerMenu())
+    dispatch(setShowChat(true))
+    dispatch(openConversation(playerId))
+    dispatch(setFocused(true))
+  }
+
+  const mute = (playerId: string, durationMs?: number) => {
+    dispatch(closePlayerMenu())
+    game.network.moderatePlayer(playerId, durationMs ? 'mute' : 'unmute', { durationMs })
+  }
+
+  const setRole = (playerId: string, newRole: RoomRole) => {
+    dispatch(closePlayerMenu())
+    game.network.setPlayerRole(playerId, newRole)
+  }
+
+  // the game ignores the keyboard while the reason is typed
+  const confirm = (action: PendingAction['action']) => {
+    if (!target) return
+    dispatch(closePlayerMenu())
+    game.disableKeys()
+    setReason('')
+    setPending({ target, action })
+  }
+
+  const closeDialog = () => {
+    game.enableKeys()
+    setPending(null)
+  }
+
+  const submit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!pending) return
+    const trimmed = reason.trim() || undefined
+    if (pending.action === 'kick') {
+      game.network.moderatePlayer(pending.target.playerId, 'kick', { reason: trimmed })
+    } else {
+      game.network.moderatePlayer(pending.target.playerId, 'ban', {
+        reason: trimmed,
+        durationMs: banDuration || undefined,
+        banBy,
+      })
+    }
+    closeDialog()
+  }
+
+  const moderationItems =
+    !target || !mayModerate
+      ? []
+      : [
+          ...(moderation?.muted
+            ? [
+                <MenuItem key="unmute" onClick={() => mute(target.playerId)}>
+                  Unmute
+                </MenuItem>,
+              ]
+            : MUTE_DURATIONS.map(({ label, durationMs }) => (
+                <MenuItem key={label} onClick={() => mute(target.playerId, durationMs)}>
+                  {label}
+                </MenuItem>
+              ))),
+          <MenuItem key="kick" onClick={() => confirm('kick')}>
+            Kick…
+          </MenuItem>,
+          <MenuItem key="ban" onClick={() => confirm('ban')}>
+            Ban…
+          </MenuItem>,
+        ]
+
+  const roleItems =
+    !target || role !== 'owner' || !moderation
+      ? []
+      : [
+          moderation.role === 'moderator' ? (
+            <MenuItem key="role" onClick={() => setRole(target.playerId, 'member')}>
+              Remove moderator
+            </MenuItem>
+          ) : (
+            <MenuItem key="role" onClick={() => setRole(target.playerId, 'moderator')}>
+              Make moderator
+            </MenuItem>
+          ),
+        ]
+
+  return (
+    <>
+      <Menu
+        open={!!target}
+        onClose={() => dispatch(closePlayerMenu())}
+        anchorReference="anchorPosition"
+        anchorPosition={target ? { top: target.y, left: target.x } : undefined}
+      >
+        {target && (
+          <MenuItem onClick={() => openDirectMessage(target.playerId)}>
+            Message {target.name}
+          </MenuItem>
+        )}
+        {moderationItems.length > 0 && <Divider />}
+        {moderationItems}
+        {roleItems.length > 0 && <Divider />}
+        {roleItems}
+      </Menu>
+      <ModerationDialog open={!!pending} onClose={closeDialog}>
+        <form onSubmit={submit}>
+          <DialogTitle>
+            {pending?.action === 'ban' ? 'Ban' : 'Kick'} {pending?.target.name}
+          </DialogTitle>
+          <DialogContent className="dialog-content">
+            <TextField
+              autoFocus
+              fullWidth
+              label="Reason (optional)"
+              variant="outlined"
+              color="secondary"
+              value={reason}
+              inputProps={{ maxLength: MAX_MODERATION_REASON_LENGTH }}
+              onChange={(event) => setReason(event.target.value)}
+            />
+            {pending?.action === 'ban' && (
+              <>
+                <TextField
+                  select
+                  label="Duration"
+                  variant="outlined"
+                  color="secondary"
+                  value={banDuration}
+                  onChange={(event) => setBanDuration(Number(event.target.value))}
+                >
+                  {BAN_DURATIONS.map(({ label, durationMs }) => (
+                    <MenuItem key={label} value={durationMs}>
+                      {label}
+                    </MenuItem>
+                  ))}
+                </TextField>
+                <TextField
+                  select
+                  label="Ban"
+                  variant="outlined"
+                  color="secondary"
+                  value={banBy}
+                  onChange={(event) => setBanBy(event.target.value as BanTarget)}
+                  helperText="An IP ban also locks out everyone else on that network"
+                >
+                  <MenuItem value="identity">This player</MenuItem>
+                  <MenuItem value="ip">Their IP address</MenuItem>
+                </TextField>
+              </>
+            )}
+          </DialogContent>
+          <DialogActions>
+            <Button color="secondary" onClick={closeDialog}>
+              Cancel
+            </Button>
+            <Button color="secondary" type="submit">
+              {pending?.action === 'ban' ? 'Ban' : 'Kick'}
+            </Button>
+          </DialogActions>
+        </form>
+      </ModerationDialog>
+    </>
+  )
+}
@@ -0,0 +1,41 @@
+import React from 'react'
+import styled from 'styled-components'
+import Button from '@mui/material/Button'
+import Alert from '@mui/material/Alert'
+import AlertTitle from '@mui/material/AlertTitle'
+
+import { useAppSelector } from '../hooks'
+
+const Backdrop = styled.div`
+  position: absolute;
+  top: 50%;
+  left: 50%;
+  transform: translate(-50%, -50%);
+  background: #222639;
+  border-radius: 16px;
+  padding: 36px 60px;
+  box-shadow: 0px 0px 5px #0000006f;
+  display: flex;
+  flex-direction: column;
+  gap: 20px;
+  max-width: 480px;
+`
+
+// shown once a moderator kicked or banned me, after the server closed the connection
+export default function RemovalDialog() {
+  const removal = useAppSelector((state) => state.moderation.removal)
+  if (!removal) return null
+
+  return (
+    <Backdrop>
+      <Alert severity="error" variant="outlined">
+        <AlertTitle>{removal.action === 'ban' ? 'Banned' : 'Removed from the room'}</AlertTitle>
+        {removal.message}
+      </Alert>
+      {/* reloading is the simplest way back to the room list with a fresh connection */}
+      <Button variant="contained" color="secondary" onClick={() => window.location.reload()}>
+        Back to the rooms
+      </Button>
+    </Backdrop>
+  )
+}
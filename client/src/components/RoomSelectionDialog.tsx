@@ -13,6 +13,7 @@ import ArrowBackIcon from '@mui/icons-material/ArrowBack'
 import { CustomRoomTable } from './CustomRoomTable'
 import { CreateRoomForm } from './CreateRoomForm'
 import { useAppSelector } from '../hooks'
+import { MODERATION_CLOSE_CODE } from '../../../types/Moderation'
 
 import phaserGame from '../PhaserGame'
 import Bootstrap from '../scenes/Bootstrap'
@@ -105,6 +106,8 @@ export default function RoomSelectionDialog() {
   const [showCustomRoom, setShowCustomRoom] = useState(false)
   const [showCreateRoomForm, setShowCreateRoomForm] = useState(false)
   const [showSnackbar, setShowSnackbar] = useState(false)
+  // shown in the snackbar instead of the connection hint, e.g. when banned from the lobby
+  const [joinError, setJoinError] = useState('')
   const lobbyJoined = useAppSelector((state) => state.room.lobbyJoined)
 
   const handleConnect = () => {
@@ -113,8 +116,14 @@ export default function RoomSelectionDialog() {
       bootstrap.network
         .joinOrCreatePublic()
         .then(() => bootstrap.launchGame())
-        .catch((error) => console.error(error))
+        .catch((error) => {
+          console.error(error)
+          if (error?.code !== MODERATION_CLOSE_CODE) return
+          setJoinError(error.message)
+          setShowSnackbar(true)
+        })
     } else {
+      setJoinError('')
       setShowSnackbar(true)
     }
   }
@@ -135,7 +144,7 @@ export default function RoomSelectionDialog() {
           // overwrites the dark theme on render
           style={{ background: '#fdeded', color: '#7d4747' }}
         >
-          Trying to connect to server, please try again!
+          {joinError || 'Trying to connect to server, please try again!'}
         </Alert>
       </Snackbar>
       <Backdrop>
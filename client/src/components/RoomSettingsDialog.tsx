@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from 'react'
+import styled from 'styled-components'
+import Dialog from '@mui/material/Dialog'
+import DialogTitle from '@mui/material/DialogTitle'
+import DialogContent from '@mui/material/DialogContent'
+import DialogActions from '@mui/material/DialogActions'
+import TextField from '@mui/material/TextField'
+import Button from '@mui/material/Button'
+import Checkbox from '@mui/material/Checkbox'
+import FormControlLabel from '@mui/material/FormControlLabel'
+
+import phaserGame from '../PhaserGame'
+import Game from '../scenes/Game'
+
+import { useAppSelector } from '../hooks'
+import {
+  MAX_ROOM_DESCRIPTION_LENGTH,
+  MAX_ROOM_NAME_LENGTH,
+  MAX_ROOM_PASSWORD_LENGTH,
+} from '../../../types/RoomRoles'
+
+const SettingsDialog = styled(Dialog)`
+  .dialog-content {
+    display: flex;
+    flex-direction: column;
+    gap: 16px;
+    padding-top: 8px !important;
+    min-width: 360px;
+  }
+
+  .MuiDialog-paper {
+    background: #222639;
+  }
+`
+
+interface Props {
+  open: boolean
+  onClose: () => void
+}
+
+// lets the room owner rename the room and change its description or password
+export default function RoomSettingsDialog({ open, onClose }: Props) {
+  const roomName = useAppSelector((state) => state.room.roomName)
+  const roomDescription = useAppSelector((state) => state.room.roomDescription)
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [password, setPassword] = useState('')
+  const [removePassword, setRemovePassword] = useState(false)
+  const game = phaserGame.scene.keys.game as Game
+
+  // start from the current settings and keep the game from reacting to what is typed
+  useEffect(() => {
+    if (!open) return
+    setName(roomName)
+    setDescription(roomDescription)
+    setPassword('')
+    setRemovePassword(false)
+    game.disableKeys()
+    return () => game.enableKeys()
+  }, [open])
+
+  const submit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!name.trim() || !description.trim()) return
+    // a blank password field keeps the current password
+    game.network.updateRoomSettings({
+      name,
+      description,
+      ...(removePassword ? { removePassword } : { password: password || undefined }),
+    })
+    onClose()
+  }
+
+  return (
+    <SettingsDialog open={open} onClose={onClose}>
+      <form onSubmit={submit}>
+        <DialogTitle>Room settings</DialogTitle>
+        <DialogContent className="dialog-content">
+          <TextField
+            autoFocus
+            label="Name"
+            variant="outlined"
+            color="secondary"
+            value={name}
+            error={!name.trim()}
+            inputProps={{ maxLength: MAX_ROOM_NAME_LENGTH }}
+            onChange={(event) => setName(event.target.value)}
+          />
+          <TextField
+            label="Description"
+            variant="outlined"
+            color="secondary"
+            multiline
+            rows={4}
+            value={description}
+            error={!description.trim()}
+            inputProps={{ maxLength: MAX_ROOM_DESCRIPTION_LENGTH }}
+            onChange={(event) => setDescription(event.target.value)}
+          />
+          <TextField
+            type="password"
+            label="New password (optional)"
+            variant="outlined"
+            color="secondary"
+            value={password}
+            disabled={removePassword}
+            helperText="Players already in the room stay"
+            inputProps={{ maxLength: MAX_ROOM_PASSWORD_LENGTH }}
+            onChange={(event) => setPassword(event.target.value)}
+          />
+          <FormControlLabel
+            label="Remove the password"
+            control={
+              <Checkbox
+                color="secondary"
+                checked={removePassword}
+                onChange={(event) => setRemovePassword(event.target.checked)}
+              />
+            }
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button color="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button color="secondary" type="submit">
+            Save
+          </Button>
+        </DialogActions>
+      </form>
+    </SettingsDialog>
+  )
+}
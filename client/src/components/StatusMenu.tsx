@@ -0,0 +1,55 @@
+import React, { useState } from 'react'
+import styled from 'styled-components'
+import Fab from '@mui/material/Fab'
+import Menu from '@mui/material/Menu'
+import MenuItem from '@mui/material/MenuItem'
+import Tooltip from '@mui/material/Tooltip'
+import CircleIcon from '@mui/icons-material/Circle'
+
+import phaserGame from '../PhaserGame'
+import Game from '../scenes/Game'
+
+import { useAppSelector } from '../hooks'
+import { PLAYER_STATUSES, PlayerStatus, isPlayerStatus } from '../../../types/PlayerStatus'
+import { playerStatusStyles } from '../util'
+
+const StyledFab = styled(Fab)`
+  &:hover {
+    color: #1ea2df;
+  }
+`
+
+const StatusMenuItem = styled(MenuItem)`
+  gap: 8px;
+`
+
+// lets me pick the status shown as a badge next to my name
+export default function StatusMenu() {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null)
+  const status = useAppSelector((state) => state.user.status)
+  const current = playerStatusStyles[isPlayerStatus(status) ? status : 'available']
+
+  const choose = (choice: PlayerStatus) => {
+    setAnchorEl(null)
+    const game = phaserGame.scene.keys.game as Game
+    game.network.setPlayerStatus(choice)
+  }
+
+  return (
+    <>
+      <Tooltip title={`Status: ${current.label}`}>
+        <StyledFab size="small" onClick={(event) => setAnchorEl(event.currentTarget)}>
+          <CircleIcon fontSize="small" style={{ color: current.color }} />
+        </StyledFab>
+      </Tooltip>
+      <Menu anchorEl={anchorEl} open={!!anchorEl} onClose={() => setAnchorEl(null)}>
+        {PLAYER_STATUSES.map((choice) => (
+          <StatusMenuItem key={choice} selected={choice === status} onClick={() => choose(choice)}>
+            <CircleIcon fontSize="small" style={{ color: playerStatusStyles[choice].color }} />
+            {playerStatusStyles[choice].label}
+          </StatusMenuItem>
+        ))}
+      </Menu>
+    </>
+  )
+}
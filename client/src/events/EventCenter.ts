@@ -11,7 +11,11 @@ export enum Event {
   MY_PLAYER_NAME_CHANGE = 'my-player-name-change',
   MY_PLAYER_TEXTURE_CHANGE = 'my-player-texture-change',
   MY_PLAYER_VIDEO_CONNECTED = 'my-player-video-connected',
+  MY_PLAYER_POSITION_CORRECTED = 'my-player-position-corrected',
+  MY_PLAYER_WALK_REQUESTED = 'my-player-walk-requested',
+  MY_PLAYER_STATUS_CHANGED = 'my-player-status-changed',
   ITEM_USER_ADDED = 'item-user-added',
   ITEM_USER_REMOVED = 'item-user-removed',
   UPDATE_DIALOG_BUBBLE = 'update-dialog-bubble',
+  LAYOUT_CHANGED = 'layout-changed',
 }
@@ -0,0 +1,195 @@
+import Phaser from 'phaser'
+import Game from '../scenes/Game'
+import store from '../stores'
+import { setLayoutDirty, setLayoutObjectSelected } from '../stores/LayoutStore'
+import {
+  LAYOUT_GRID_SIZE,
+  LayoutPosition,
+  OfficeLayout,
+  isLayoutDecorLayer,
+} from '../../../types/OfficeLayout'
+
+const SELECTED_TINT = 0x66ccff
+
+interface Selection {
+  tiledId: number
+  layoutId: string | null
+}
+
+/**
+ * Edit mode of the Game scene: map objects are dragged around on the grid, decor is removed with
+ * Delete and added from the palette by clicking an empty spot. Changes are kept in a draft and
+ * only reach the server when saved.
+ */
+export default class LayoutEditor {
+  private draft: OfficeLayout | null = null
+  private selection: Selection | null = null
+  private dragStart?: { x: number; y: number }
+
+  constructor(private scene: Game) {}
+
+  get editing() {
+    return !!this.draft
+  }
+
+  start() {
+    if (this.draft) return
+    const layout = this.scene.getLayout()
+    this.draft = layout
+      ? JSON.parse(JSON.stringify(layout))
+      : { mapId: this.scene.getMapId(), moved: {}, removed: [], added: [] }
+
+    const { input } = this.scene
+    input.on('pointerdown', this.handlePointerDown, this)
+    input.on('dragstart', this.handleDragStart, this)
+    input.on('drag', this.handleDrag, this)
+    input.on('dragend', this.handleDragEnd, this)
+    input.keyboard.on('keydown-DELETE', this.removeSelected, this)
+    input.keyboard.on('keydown-BACKSPACE', this.removeSelected, this)
+    this.render()
+  }
+
+  // leaves edit mode, dropping the draft and going back to the room's layout
+  stop() {
+    if (!this.draft) return
+    this.draft = null
+    this.selection = null
+    this.dragStart = undefined
+
+    const { input } = this.scene
+    input.off('pointerdown', this.handlePointerDown, this)
+    input.off('dragstart', this.handleDragStart, this)
+    input.off('drag', this.handleDrag, this)
+    input.off('dragend', this.handleDragEnd, this)
+    input.keyboard.off('keydown-DELETE', this.removeSelected, this)
+    input.keyboard.off('keydown-BACKSPACE', this.removeSelected, this)
+    this.scene.getLayoutSprites().forEach((sprite) => sprite.removeInteractive().clearTint())
+    this.scene.renderLayout(this.scene.getLayout())
+  }
+
+  // an empty draft resets the namespace to the base map
+  async save() {
+    if (!this.draft) return
+    const { moved, removed, added } = this.draft
+    const layout =
+      Object.keys(moved).length || removed.length || added.length ? this.draft : null
+    await this.scene.network.saveLayout(layout)
+    this.scene.setLayout(layout)
+  }
+
+  async reset() {
+    await this.scene.network.saveLayout(null)
+    this.scene.setLayout(null)
+  }
+
+  removeSelected() {
+    if (!this.draft || !this.selection) return
+    const { tiledId, layoutId } = this.selection
+    if (layoutId) {
+      this.draft.added = this.draft.added.filter((added) => added.id !== layoutId)
+    } else {
+      if (!this.draft.removed.includes(tiledId)) this.draft.removed.push(tiledId)
+      delete this.draft.moved[String(tiledId)]
+    }
+    this.select(null)
+    store.dispatch(setLayoutDirty(true))
+    this.render()
+  }
+
+  private render() {
+    this.scene.renderLayout(this.draft)
+    this.scene.getLayoutSprites().forEach((sprite) => {
+      sprite.setInteractive({ draggable: true })
+      if (this.isSelected(sprite)) sprite.setTint(SELECTED_TINT)
+    })
+  }
+
+  private isSelected(sprite: Phaser.GameObjects.GameObject) {
+    if (!this.selection) return false
+    const layoutId = sprite.getData('layoutId')
+    return this.selection.layoutId
+      ? layoutId === this.selection.layoutId
+      : !layoutId && sprite.getData('tiledId') === this.selection.tiledId
+  }
+
+  // only decor can be removed, so items are never selected
+  private select(sprite: Phaser.Physics.Arcade.Sprite | null) {
+    this.scene.getLayoutSprites().forEach((candidate) => {
+      if (this.isSelected(candidate)) candidate.clearTint()
+    })
+    this.selection =
+      sprite && isLayoutDecorLayer(sprite.getData('layer'))
+        ? { tiledId: sprite.getData('tiledId'), layoutId: sprite.getData('layoutId') }
+        : null
+    if (this.selection) sprite!.setTint(SELECTED_TINT)
+    store.dispatch(setLayoutObjectSelected(!!this.selection))
+  }
+
+  // snaps a Tiled position to the grid and keeps the object on the map
+  private toTiledPosition(x: number, y: number): LayoutPosition {
+    const { width, height } = this.scene.getMapSize()
+    const snap = (value: number) => Math.round(value / LAYOUT_GRID_SIZE) * LAYOUT_GRID_SIZE
+    return {
+      x: Phaser.Math.Clamp(snap(x), 0, width - LAYOUT_GRID_SIZE),
+      y: Phaser.Math.Clamp(snap(y), LAYOUT_GRID_SIZE, height),
+    }
+  }
+
+  private handlePointerDown(
+    pointer: Phaser.Input.Pointer,
+    currentlyOver: Phaser.GameObjects.GameObject[]
+  ) {
+    if (!this.draft) return
+    const editable = this.scene.getLayoutSprites()
+    const sprite = editable.find((candidate) => currentlyOver.includes(candidate))
+    const palette = store.getState().layout.palette
+    if (sprite || !palette) {
+      this.select(sprite ?? null)
+      return
+    }
+
+    const position = this.toTiledPosition(
+      pointer.worldX - LAYOUT_GRID_SIZE * 0.5,
+      pointer.worldY + LAYOUT_GRID_SIZE * 0.5
+    )
+    const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+    this.draft.added.push({ id, layer: palette.layer, frame: palette.frame, ...position })
+    store.dispatch(setLayoutDirty(true))
+    this.render()
+  }
+
+  private handleDragStart(pointer: Phaser.Input.Pointer, sprite: Phaser.Physics.Arcade.Sprite) {
+    this.dragStart = { x: sprite.x, y: sprite.y }
+  }
+
+  private handleDrag(
+    pointer: Phaser.Input.Pointer,
+    sprite: Phaser.Physics.Arcade.Sprite,
+    dragX: number,
+    dragY: number
+  ) {
+    sprite.setPosition(dragX, dragY)
+  }
+
+  private handleDragEnd(pointer: Phaser.Input.Pointer, sprite: Phaser.Physics.Arcade.Sprite) {
+    if (!this.draft || !this.dragStart) return
+    const position = this.toTiledPosition(
+      sprite.x - sprite.width * 0.5,
+      sprite.y + sprite.height * 0.5
+    )
+    // put the sprite back first so moving it keeps its depth offset
+    sprite.setPosition(this.dragStart.x, this.dragStart.y)
+    this.dragStart = undefined
+    this.scene.moveLayoutSprite(sprite, position)
+
+    const layoutId = sprite.getData('layoutId')
+    const added = layoutId && this.draft.added.find((candidate) => candidate.id === layoutId)
+    if (added) {
+      added.x = position.x
+      added.y = position.y
+    } else {
+      this.draft.moved[String(sprite.getData('tiledId'))] = position
+    }
+    store.dispatch(setLayoutDirty(true))
+  }
+}
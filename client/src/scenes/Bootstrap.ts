@@ -1,6 +1,13 @@
 import Phaser from 'phaser'
 import Network from '../services/Network'
 import { BackgroundMode } from '../../../types/BackgroundMode'
+import {
+  DEFAULT_MAP_ID,
+  OfficeMap,
+  getMapTextureKey,
+  getMapTilemapKey,
+  getOfficeMap,
+} from '../../../types/OfficeMaps'
 import store from '../stores'
 import { setRoomJoined } from '../stores/RoomStore'
 
@@ -27,11 +34,6 @@ export default class Bootstrap extends Phaser.Scene {
     this.load.image('backdrop_night', 'assets/background/backdrop_night.png')
     this.load.image('sun_moon', 'assets/background/sun_moon.png')
 
-    this.load.tilemapTiledJSON('tilemap', 'assets/map/map.json')
-    this.load.spritesheet('tiles_wall', 'assets/map/FloorAndGround.png', {
-      frameWidth: 32,
-      frameHeight: 32,
-    })
     this.load.spritesheet('chairs', 'assets/items/chair.png', {
       frameWidth: 32,
       frameHeight: 64,
@@ -48,18 +50,6 @@ export default class Bootstrap extends Phaser.Scene {
       frameWidth: 48,
       frameHeight: 72,
     })
-    this.load.spritesheet('office', 'assets/tileset/Modern_Office_Black_Shadow.png', {
-      frameWidth: 32,
-      frameHeight: 32,
-    })
-    this.load.spritesheet('basement', 'assets/tileset/Basement.png', {
-      frameWidth: 32,
-      frameHeight: 32,
-    })
-    this.load.spritesheet('generic', 'assets/tileset/Generic.png', {
-      frameWidth: 32,
-      frameHeight: 32,
-    })
     this.load.spritesheet('adam', 'assets/character/adam.png', {
       frameWidth: 32,
       frameHeight: 48,
@@ -77,7 +67,7 @@ export default class Bootstrap extends Phaser.Scene {
       frameHeight: 48,
     })
 
-    this.load.on('complete', () => {
+    this.load.once('complete', () => {
       this.preloadComplete = true
       this.launchBackground(store.getState().user.backgroundMode)
     })
@@ -91,17 +81,41 @@ export default class Bootstrap extends Phaser.Scene {
     this.scene.launch('background', { backgroundMode })
   }
 
-  launchGame() {
+  async launchGame() {
     if (!this.preloadComplete) return
     this.network.webRTC?.checkPreviousPermission()
+    const mapId = await this.network.getMapId()
+    const officeMap = getOfficeMap(mapId) ?? getOfficeMap(DEFAULT_MAP_ID)!
+    await this.loadMap(officeMap)
     this.scene.launch('game', {
       network: this.network,
+      mapId: officeMap.id,
     })
 
     // update Redux state
     store.dispatch(setRoomJoined(true))
   }
 
+  // a map's tilemap and tiles are only fetched once a room using that map is joined
+  private loadMap(officeMap: OfficeMap) {
+    return new Promise<void>((resolve) => {
+      const tilemapKey = getMapTilemapKey(officeMap.id)
+      if (this.cache.tilemap.exists(tilemapKey)) {
+        resolve()
+        return
+      }
+      this.load.tilemapTiledJSON(tilemapKey, officeMap.tilemap)
+      officeMap.tilesets.forEach((tileset) => {
+        this.load.spritesheet(getMapTextureKey(officeMap.id, tileset.name), tileset.image, {
+          frameWidth: 32,
+          frameHeight: 32,
+        })
+      })
+      this.load.once('complete', () => resolve())
+      this.load.start()
+    })
+  }
+
   changeBackgroundMode(backgroundMode: BackgroundMode) {
     this.scene.stop('background')
     this.launchBackground(backgroundMode)
@@ -15,25 +15,53 @@ import OtherPlayer from '../characters/OtherPlayer'
 import PlayerSelector from '../characters/PlayerSelector'
 import Network from '../services/Network'
 import { IPlayer } from '../../../types/IOfficeState'
+import { PlayerPositionCorrection } from '../../../types/MessagePayloads'
 import { PlayerBehavior } from '../../../types/PlayerBehavior'
-import { ItemType } from '../../../types/Items'
+import { ItemType, getTiledItems } from '../../../types/Items'
+import { getMapTextureKey, getMapTilemapKey, getOfficeMap } from '../../../types/OfficeMaps'
+import { MapArea, isInMapArea, readMapAreas } from '../../../types/ChatChannels'
+import {
+  LAYOUT_DECOR_LAYERS,
+  LAYOUT_ITEM_LAYERS,
+  LayoutDecorLayer,
+  LayoutPosition,
+  OfficeLayout,
+  applyOfficeLayout,
+  getLayoutObjectId,
+} from '../../../types/OfficeLayout'
+import LayoutEditor from '../layout/LayoutEditor'
 
 import store from '../stores'
-import { setFocused, setShowChat } from '../stores/ChatStore'
+import { setCurrentArea, setFocused, setShowChat } from '../stores/ChatStore'
 import { NavKeys, Keyboard } from '../../../types/KeyboardState'
 
+// pointer travel (px) up to which a press and release still counts as a click
+const CLICK_TO_MOVE_MAX_DRAG = 8
+// decor layers the player collides with
+const COLLIDING_DECOR_LAYERS = ['ObjectsOnCollide', 'GenericObjectsOnCollide', 'Basement']
+
 export default class Game extends Phaser.Scene {
   network!: Network
   private cursors!: NavKeys
   private keyE!: Phaser.Input.Keyboard.Key
   private keyR!: Phaser.Input.Keyboard.Key
   private map!: Phaser.Tilemaps.Tilemap
+  private mapId!: string
   myPlayer!: MyPlayer
   private playerSelector!: Phaser.GameObjects.Zone
   private otherPlayers!: Phaser.Physics.Arcade.Group
   private otherPlayerMap = new Map<string, OtherPlayer>()
   computerMap = new Map<string, Computer>()
   private whiteboardMap = new Map<string, Whiteboard>()
+  private layout: OfficeLayout | null = null
+  private layoutDecor: Phaser.Physics.Arcade.StaticGroup[] = []
+  private layoutColliders: Phaser.Physics.Arcade.Collider[] = []
+  // item sprites by Tiled object id, moved in place when the layout changes
+  private layoutItems = new Map<number, Item>()
+  layoutEditor!: LayoutEditor
+  // named map areas with their own chat channel
+  private mapAreas: MapArea[] = []
+  private currentAreaId?: string
 
   constructor() {
     super('game')
@@ -58,6 +86,22 @@ export default class Game extends Phaser.Scene {
     })
   }
 
+  // click or tap a spot to walk there, once logged in and unless the layout is being edited
+  private registerClickToMove() {
+    // right clicks open the player menu rather than the browser's
+    this.input.mouse?.disableContextMenu()
+    this.input.on(
+      'pointerup',
+      (pointer: Phaser.Input.Pointer, currentlyOver: Phaser.GameObjects.GameObject[]) => {
+        if (!store.getState().user.loggedIn || this.layoutEditor.editing) return
+        // clicks on player names open a direct message or the player menu instead
+        if (currentlyOver.length || pointer.rightButtonReleased()) return
+        if (pointer.getDistance() > CLICK_TO_MOVE_MAX_DRAG) return
+        this.myPlayer.walkTo(pointer.worldX, pointer.worldY, this.network)
+      }
+    )
+  }
+
   disableKeys() {
     this.input.keyboard.enabled = false
   }
@@ -66,17 +110,23 @@ export default class Game extends Phaser.Scene {
     this.input.keyboard.enabled = true
   }
 
-  create(data: { network: Network }) {
+  create(data: { network: Network; mapId: string }) {
     if (!data.network) {
       throw new Error('server instance missing')
     } else {
       this.network = data.network
     }
+    this.mapId = data.mapId
+    this.layout = this.network.getLayout()
+    this.layoutEditor = new LayoutEditor(this)
 
     createCharacterAnims(this.anims)
 
-    this.map = this.make.tilemap({ key: 'tilemap' })
-    const FloorAndGround = this.map.addTilesetImage('FloorAndGround', 'tiles_wall')
+    this.map = this.make.tilemap({ key: getMapTilemapKey(this.mapId) })
+    const FloorAndGround = this.map.addTilesetImage(
+      'FloorAndGround',
+      getMapTextureKey(this.mapId, 'FloorAndGround')
+    )
 
     const groundLayer = this.map.createLayer('Ground', FloorAndGround)
     groundLayer.setCollisionByProperty({ collides: true })
@@ -86,10 +136,13 @@ export default class Game extends Phaser.Scene {
     this.myPlayer = this.add.myPlayer(705, 500, 'adam', this.network.mySessionId)
     this.playerSelector = new PlayerSelector(this, 0, 0, 16, 16)
 
+    // objects are placed from the map with the namespace's layout applied
+    const mapData = this.getLayoutMapData(this.layout)
+    this.mapAreas = readMapAreas(mapData)
+
     // import chair objects from Tiled map to Phaser
     const chairs = this.physics.add.staticGroup({ classType: Chair })
-    const chairLayer = this.map.getObjectLayer('Chair')
-    chairLayer.objects.forEach((chairObj) => {
+    this.getLayoutObjects(mapData, 'Chair').forEach((chairObj) => {
       const item = this.addObjectFromTiled(chairs, chairObj, 'chairs', 'chair') as Chair
       // custom properties[0] is the object direction specified in Tiled
       item.itemDirection = chairObj.properties[0].value
@@ -97,49 +150,41 @@ export default class Game extends Phaser.Scene {
 
     // import computers objects from Tiled map to Phaser
     const computers = this.physics.add.staticGroup({ classType: Computer })
-    const computerLayer = this.map.getObjectLayer('Computer')
-    computerLayer.objects.forEach((obj, i) => {
+    getTiledItems(this.getLayoutObjects(mapData, 'Computer')).forEach(({ id, object: obj }) => {
       const item = this.addObjectFromTiled(computers, obj, 'computers', 'computer') as Computer
       item.setDepth(item.y + item.height * 0.27)
-      const id = `${i}`
       item.id = id
       this.computerMap.set(id, item)
     })
 
     // import whiteboards objects from Tiled map to Phaser
     const whiteboards = this.physics.add.staticGroup({ classType: Whiteboard })
-    const whiteboardLayer = this.map.getObjectLayer('Whiteboard')
-    whiteboardLayer.objects.forEach((obj, i) => {
+    getTiledItems(this.getLayoutObjects(mapData, 'Whiteboard')).forEach(({ id, object: obj }) => {
       const item = this.addObjectFromTiled(
         whiteboards,
         obj,
         'whiteboards',
         'whiteboard'
       ) as Whiteboard
-      const id = `${i}`
       item.id = id
       this.whiteboardMap.set(id, item)
     })
 
     // import vending machine objects from Tiled map to Phaser
     const vendingMachines = this.physics.add.staticGroup({ classType: VendingMachine })
-    const vendingMachineLayer = this.map.getObjectLayer('VendingMachine')
-    vendingMachineLayer.objects.forEach((obj, i) => {
+    this.getLayoutObjects(mapData, 'VendingMachine').forEach((obj, i) => {
       this.addObjectFromTiled(vendingMachines, obj, 'vendingmachines', 'vendingmachine')
     })
 
     // import other objects from Tiled map to Phaser
-    this.addGroupFromTiled('Wall', 'tiles_wall', 'FloorAndGround', false)
-    this.addGroupFromTiled('Objects', 'office', 'Modern_Office_Black_Shadow', false)
-    this.addGroupFromTiled('ObjectsOnCollide', 'office', 'Modern_Office_Black_Shadow', true)
-    this.addGroupFromTiled('GenericObjects', 'generic', 'Generic', false)
-    this.addGroupFromTiled('GenericObjectsOnCollide', 'generic', 'Generic', true)
-    this.addGroupFromTiled('Basement', 'basement', 'Basement', true)
+    this.addGroupFromTiled('Wall', 'FloorAndGround', false)
+    this.renderLayoutDecor(mapData)
 
     this.otherPlayers = this.physics.add.group({ classType: OtherPlayer })
 
     this.cameras.main.zoom = 1.5
     this.cameras.main.startFollow(this.myPlayer, true)
+    this.registerClickToMove()
 
     this.physics.add.collider([this.myPlayer, this.myPlayer.playerContainer], groundLayer)
     this.physics.add.collider([this.myPlayer, this.myPlayer.playerContainer], vendingMachines)
@@ -165,10 +210,110 @@ export default class Game extends Phaser.Scene {
     this.network.onPlayerLeft(this.handlePlayerLeft, this)
     this.network.onMyPlayerReady(this.handleMyPlayerReady, this)
     this.network.onMyPlayerVideoConnected(this.handleMyVideoConnected, this)
+    this.network.onMyPlayerPositionCorrected(this.handleMyPlayerPositionCorrected, this)
     this.network.onPlayerUpdated(this.handlePlayerUpdated, this)
     this.network.onItemUserAdded(this.handleItemUserAdded, this)
     this.network.onItemUserRemoved(this.handleItemUserRemoved, this)
     this.network.onChatMessageAdded(this.handleChatMessageAdded, this)
+    this.network.onLayoutChanged(this.setLayout, this)
+    this.network.onMyPlayerStatusChanged((status: string) => this.myPlayer.setStatus(status), this)
+    this.network.onMyPlayerWalkRequested(
+      (x: number, y: number) => this.myPlayer.walkTo(x, y, this.network),
+      this
+    )
+  }
+
+  getMapId() {
+    return this.mapId
+  }
+
+  getMapSize() {
+    return { width: this.map.widthInPixels, height: this.map.heightInPixels }
+  }
+
+  getLayout() {
+    return this.layout
+  }
+
+  // a layout from the server or a save is shown right away, unless a draft is being edited
+  setLayout(layout: OfficeLayout | null) {
+    this.layout = layout
+    if (!this.layoutEditor.editing) this.renderLayout(layout)
+  }
+
+  // decor layers are built again, items keep their sprite and only move
+  renderLayout(layout: OfficeLayout | null) {
+    const mapData = this.getLayoutMapData(layout)
+    this.renderLayoutDecor(mapData)
+    LAYOUT_ITEM_LAYERS.forEach((layerName) => {
+      this.getLayoutObjects(mapData, layerName).forEach((object) => {
+        const item = this.layoutItems.get(object.id)
+        if (item) this.moveLayoutSprite(item, object as LayoutPosition)
+      })
+    })
+  }
+
+  // the tileset image and grid a decor layer's palette is drawn from
+  getLayoutTileset(layer: LayoutDecorLayer) {
+    const tilesetName = LAYOUT_DECOR_LAYERS[layer]
+    const tilesets: any[] = this.cache.tilemap.get(getMapTilemapKey(this.mapId)).data.tilesets
+    const tileset = tilesets.find((candidate) => candidate.name === tilesetName)
+    const image = getOfficeMap(this.mapId)?.tilesets.find(
+      (candidate) => candidate.name === tilesetName
+    )?.image
+    if (!tileset || !image) return null
+    return {
+      image,
+      columns: Number(tileset.columns),
+      tilecount: Number(tileset.tilecount),
+      tileSize: Number(tileset.tilewidth),
+    }
+  }
+
+  // decor and item sprites that the layout editor can pick up
+  getLayoutSprites() {
+    const sprites: Phaser.Physics.Arcade.Sprite[] = [...this.layoutItems.values()]
+    this.layoutDecor.forEach((group) => {
+      sprites.push(...(group.getChildren() as Phaser.Physics.Arcade.Sprite[]))
+    })
+    return sprites
+  }
+
+  // moves a sprite to a Tiled position, keeping its depth offset and static body in sync
+  moveLayoutSprite(sprite: Phaser.Physics.Arcade.Sprite, position: LayoutPosition) {
+    const x = position.x + sprite.width * 0.5
+    const y = position.y - sprite.height * 0.5
+    if (sprite.x === x && sprite.y === y) return
+    sprite.setDepth(sprite.depth + y - sprite.y).setPosition(x, y)
+    const body = sprite.body as Phaser.Physics.Arcade.StaticBody
+    body.updateFromGameObject()
+  }
+
+  private getLayoutMapData(layout: OfficeLayout | null) {
+    const tilemap = this.cache.tilemap.get(getMapTilemapKey(this.mapId))
+    return applyOfficeLayout(tilemap.data, layout)
+  }
+
+  private getLayoutObjects(mapData: any, layerName: string): Phaser.Types.Tilemaps.TiledObject[] {
+    const layers: any[] = mapData.layers ?? []
+    return layers.find((layer) => layer.name === layerName)?.objects ?? []
+  }
+
+  private renderLayoutDecor(mapData: any) {
+    this.layoutColliders.forEach((collider) => collider.destroy())
+    this.layoutDecor.forEach((group) => group.destroy(true))
+    this.layoutColliders = []
+    this.layoutDecor = []
+    Object.entries(LAYOUT_DECOR_LAYERS).forEach(([layerName, tilesetName]) => {
+      const { group, collider } = this.addGroupFromTiled(
+        layerName,
+        tilesetName,
+        COLLIDING_DECOR_LAYERS.includes(layerName),
+        this.getLayoutObjects(mapData, layerName)
+      )
+      this.layoutDecor.push(group)
+      if (collider) this.layoutColliders.push(collider)
+    })
   }
 
   private handleItemSelectorOverlap(playerSelector, selectionItem) {
@@ -199,31 +344,43 @@ export default class Game extends Phaser.Scene {
     const obj = group
       .get(actualX, actualY, key, object.gid! - this.map.getTileset(tilesetName).firstgid)
       .setDepth(actualY)
+      .setData('tiledId', object.id)
+    this.layoutItems.set(object.id, obj)
     return obj
   }
 
+  // map tiles are loaded per map, under texture keys derived from their Tiled tileset name
   private addGroupFromTiled(
     objectLayerName: string,
-    key: string,
     tilesetName: string,
-    collidable: boolean
+    collidable: boolean,
+    objects = this.map.getObjectLayer(objectLayerName).objects
   ) {
+    const key = getMapTextureKey(this.mapId, tilesetName)
     const group = this.physics.add.staticGroup()
-    const objectLayer = this.map.getObjectLayer(objectLayerName)
-    objectLayer.objects.forEach((object) => {
+    objects.forEach((object) => {
       const actualX = object.x! + object.width! * 0.5
       const actualY = object.y! - object.height! * 0.5
       group
         .get(actualX, actualY, key, object.gid! - this.map.getTileset(tilesetName).firstgid)
         .setDepth(actualY)
+        .setData({
+          layer: objectLayerName,
+          tiledId: object.id,
+          layoutId: getLayoutObjectId(object),
+        })
     })
-    if (this.myPlayer && collidable)
-      this.physics.add.collider([this.myPlayer, this.myPlayer.playerContainer], group)
+    const collider =
+      this.myPlayer && collidable
+        ? this.physics.add.collider([this.myPlayer, this.myPlayer.playerContainer], group)
+        : undefined
+    return { group, collider }
   }
 
   // function to add new player to the otherPlayer group
   private handlePlayerJoined(newPlayer: IPlayer, id: string) {
     const otherPlayer = this.add.otherPlayer(newPlayer.x, newPlayer.y, 'adam', id, newPlayer.name)
+    otherPlayer.setStatus(newPlayer.status)
     this.otherPlayers.add(otherPlayer)
     this.otherPlayerMap.set(id, otherPlayer)
   }
@@ -246,6 +403,10 @@ export default class Game extends Phaser.Scene {
     this.myPlayer.videoConnected = true
   }
 
+  private handleMyPlayerPositionCorrected(correction: PlayerPositionCorrection) {
+    this.myPlayer.reconcilePosition(correction.x, correction.y, this.playerSelector)
+  }
+
   // function to update target position upon receiving player updates
   private handlePlayerUpdated(field: string, value: number | string, id: string) {
     const otherPlayer = this.otherPlayerMap.get(id)
@@ -285,6 +446,20 @@ export default class Game extends Phaser.Scene {
     if (this.myPlayer && this.network) {
       this.playerSelector.update(this.myPlayer, this.cursors)
       this.myPlayer.update(this.playerSelector, this.cursors, this.keyE, this.keyR, this.network)
+      this.updateCurrentArea()
     }
   }
+
+  getMapAreas() {
+    return this.mapAreas
+  }
+
+  // lets the chat offer the channel of the area myPlayer stands in
+  private updateCurrentArea() {
+    const { x, y } = this.myPlayer
+    const area = this.mapAreas.find((candidate) => isInMapArea(candidate, x, y))
+    if (area?.id === this.currentAreaId) return
+    this.currentAreaId = area?.id
+    store.dispatch(setCurrentArea(area ?? null))
+  }
 }
@@ -0,0 +1,48 @@
+import { PlayerStatus } from '../../../types/PlayerStatus'
+
+// minutes without keyboard or mouse input before I show as away; 0 turns it off
+const AWAY_AFTER_MS = Number(import.meta.env.VITE_AWAY_AFTER_MINUTES ?? 5) * 60_000
+const CHECK_INTERVAL_MS = 10_000
+const ACTIVITY_EVENTS = ['keydown', 'mousemove', 'mousedown', 'wheel', 'touchstart']
+
+/**
+ * Switches my status to away once I have been idle for a while, and back to what it was on my
+ * next input. Only available and busy players go away; do-not-disturb is kept, and so is an away
+ * status I picked myself.
+ */
+export default class AwayDetector {
+  private lastActivity = Date.now()
+  private intervalId?: number
+  // set while I am away because I went idle
+  private statusBeforeAway: PlayerStatus | null = null
+
+  constructor(
+    private getStatus: () => string,
+    private setStatus: (status: PlayerStatus) => void
+  ) {}
+
+  start() {
+    if (!(AWAY_AFTER_MS > 0) || this.intervalId !== undefined) return
+    ACTIVITY_EVENTS.forEach((type) =>
+      window.addEventListener(type, this.handleActivity, { passive: true })
+    )
+    this.lastActivity = Date.now()
+    this.intervalId = window.setInterval(() => this.checkIdle(), CHECK_INTERVAL_MS)
+  }
+
+  private handleActivity = () => {
+    this.lastActivity = Date.now()
+    if (!this.statusBeforeAway) return
+    // unless my status changed some other way in the meantime
+    if (this.getStatus() === 'away') this.setStatus(this.statusBeforeAway)
+    this.statusBeforeAway = null
+  }
+
+  private checkIdle() {
+    if (this.statusBeforeAway || Date.now() - this.lastActivity < AWAY_AFTER_MS) return
+    const status = this.getStatus()
+    if (status !== 'available' && status !== 'busy') return
+    this.statusBeforeAway = status
+    this.setStatus('away')
+  }
+}
@@ -1,12 +1,51 @@
 import { Client, Room } from 'colyseus.js'
-import { IComputer, IOfficeState, IPlayer, IWhiteboard } from '../../../types/IOfficeState'
+import {
+  IChatMessage,
+  IComputer,
+  IOfficeState,
+  IPlayer,
+  IWhiteboard,
+} from '../../../types/IOfficeState'
 import { Message } from '../../../types/Messages'
+import {
+  ChannelChatMessage,
+  ChannelMessageFailure,
+  ChatCommandList,
+  ChatCommandResult,
+  ChatEmote,
+  ChatFloodNotice,
+  ChatMention,
+  ChatHistoryPage,
+  ClientMessage,
+  ClientMessagePayloads,
+  DirectMessage,
+  DirectMessageFailure,
+  ModerationNotice,
+  ModerationResult,
+  PlayerPositionCorrection,
+  RoomAdminResult,
+  validateClientMessage,
+} from '../../../types/MessagePayloads'
 import { IRoomData, RoomType } from '../../../types/Rooms'
 import { ItemType } from '../../../types/Items'
+import { DEFAULT_MAP_ID } from '../../../types/OfficeMaps'
+import { OfficeLayout } from '../../../types/OfficeLayout'
+import { GLOBAL_CHANNEL } from '../../../types/ChatChannels'
+import { BanTarget, ModerationAction, PLAYER_IDENTITY_PATTERN } from '../../../types/Moderation'
+import { DEFAULT_ROOM_ROLE, RoomRole } from '../../../types/RoomRoles'
+import { PlayerStatus } from '../../../types/PlayerStatus'
 import WebRTC from '../web/WebRTC'
+import AwayDetector from './AwayDetector'
 import { phaserEvents, Event } from '../events/EventCenter'
 import store from '../stores'
-import { setSessionId, setPlayerNameMap, removePlayerNameMap } from '../stores/UserStore'
+import {
+  setSessionId,
+  setPlayerNameMap,
+  removePlayerNameMap,
+  setRole,
+  setStatus,
+  setChatMutedUntil,
+} from '../stores/UserStore'
 import {
   setLobbyJoined,
   setJoinedRoomData,
@@ -16,15 +55,70 @@ import {
 } from '../stores/RoomStore'
 import {
   pushChatMessage,
+  updateChatMessage,
   pushPlayerJoinedMessage,
   pushPlayerLeftMessage,
+  pushServerNotice,
+  pushDirectMessage,
+  pushDirectNotice,
+  pushChannelMessage,
+  pushChannelNotice,
+  prependChatHistory,
+  pushChatEmote,
+  pushCommandResult,
+  setChatCommands,
+  setMention,
+  openConversation,
 } from '../stores/ChatStore'
 import { setWhiteboardUrls } from '../stores/WhiteboardStore'
+import { setLayoutEditable } from '../stores/LayoutStore'
+import { setRemoval } from '../stores/ModerationStore'
+
+const IDENTITY_STORAGE_KEY = 'skyoffice-identity'
+
+// a random id kept by this browser, so moderators can ban a person rather than a session
+function getPlayerIdentity() {
+  const create = () =>
+    Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) =>
+      byte.toString(16).padStart(2, '0')
+    ).join('')
+  try {
+    const stored = localStorage.getItem(IDENTITY_STORAGE_KEY)
+    if (stored && PLAYER_IDENTITY_PATTERN.test(stored)) return stored
+    const identity = create()
+    localStorage.setItem(IDENTITY_STORAGE_KEY, identity)
+    return identity
+  } catch {
+    // storage is blocked, so the identity only lasts as long as the page
+    return create()
+  }
+}
+
+// a plain copy of a synced chat message, so the store does not hold on to schema instances
+const toChatMessage = (message: IChatMessage) =>
+  ({
+    id: message.id,
+    author: message.author,
+    authorId: message.authorId,
+    createdAt: message.createdAt,
+    content: message.content,
+    editedAt: message.editedAt,
+    deleted: message.deleted,
+    reactions: message.reactions,
+  } as IChatMessage)
 
 export default class Network {
   private client: Client
   private room?: Room<IOfficeState>
   private lobby!: Room
+  private httpEndpoint: string
+  // manager token passed in the page URL as `?managerToken=`, needed to save office layouts
+  private managerToken = new URLSearchParams(window.location.search).get('managerToken')
+  private identity = getPlayerIdentity()
+  private awayDetector = new AwayDetector(
+    () => store.getState().user.status,
+    (status) => this.setPlayerStatus(status)
+  )
   webRTC?: WebRTC
 
   mySessionId!: string
@@ -36,6 +130,7 @@ export default class Network {
         ? import.meta.env.VITE_SERVER_URL
         : `${protocol}//${window.location.hostname}:2567`
     this.client = new Client(endpoint)
+    this.httpEndpoint = endpoint.replace(/^ws/, 'http')
     this.joinLobbyRoom().then(() => {
       store.dispatch(setLobbyJoined(true))
     })
@@ -67,28 +162,110 @@ export default class Network {
 
   // method to join the public lobby
   async joinOrCreatePublic() {
-    this.room = await this.client.joinOrCreate(RoomType.PUBLIC)
+    this.room = await this.client.joinOrCreate(RoomType.PUBLIC, this.getJoinOptions())
     this.initialize()
   }
 
   // method to join a custom room
   async joinCustomById(roomId: string, password: string | null) {
-    this.room = await this.client.joinById(roomId, { password })
+    this.room = await this.client.joinById(roomId, { password, ...this.getJoinOptions() })
     this.initialize()
   }
 
   // method to create a custom room
   async createCustom(roomData: IRoomData) {
-    const { name, description, password, autoDispose } = roomData
+    const { name, description, password, autoDispose, mapId } = roomData
     this.room = await this.client.create(RoomType.CUSTOM, {
       name,
       description,
       password,
       autoDispose,
+      mapId,
+      ...this.getJoinOptions(),
     })
     this.initialize()
   }
 
+  // moderators act on my identity; the manager token, if any, makes me a chat moderator
+  private getJoinOptions() {
+    return {
+      identity: this.identity,
+      ...(this.managerToken ? { managerToken: this.managerToken } : {}),
+    }
+  }
+
+  // the room's map arrives with the first state sync, which may land just after the join
+  getMapId(): Promise<string> {
+    return new Promise((resolve) => {
+      if (!this.room) {
+        resolve(DEFAULT_MAP_ID)
+      } else if (this.room.state.mapId) {
+        resolve(this.room.state.mapId)
+      } else {
+        this.room.onStateChange.once((state) => resolve(state.mapId || DEFAULT_MAP_ID))
+      }
+    })
+  }
+
+  canEditLayout() {
+    return !!this.managerToken && !!this.room?.state.namespaceSlug
+  }
+
+  // the namespace's layout over the base map, null while it uses the map unchanged
+  getLayout(): OfficeLayout | null {
+    const raw = this.room?.state.layout
+    if (!raw) return null
+    try {
+      return JSON.parse(raw)
+    } catch (err) {
+      console.warn('Ignoring unreadable office layout', err)
+      return null
+    }
+  }
+
+  // replaces the namespace's layout, or resets it to the base map with null
+  async saveLayout(layout: OfficeLayout | null) {
+    const namespaceSlug = this.room?.state.namespaceSlug
+    if (!namespaceSlug || !this.managerToken) {
+      throw new Error('Editing the layout needs a manager token')
+    }
+    const response = await fetch(
+      `${this.httpEndpoint}/api/namespaces/${encodeURIComponent(namespaceSlug)}/layout`,
+      {
+        method: layout ? 'PUT' : 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${this.managerToken}`,
+        },
+        body: layout ? JSON.stringify({ layout }) : undefined,
+      }
+    )
+    const body = await response.json().catch(() => null)
+    if (!response.ok || !body?.success) {
+      throw new Error(body?.message ?? `Saving the layout failed (${response.status})`)
+    }
+  }
+
+  // plans a click-to-move path on the server's walkable grid, following the room's layout
+  async findPath(
+    start: { x: number; y: number },
+    target: { x: number; y: number }
+  ): Promise<{ path: { x: number; y: number }[]; target: { x: number; y: number } } | null> {
+    const response = await fetch(`${this.httpEndpoint}/api/pathfind`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        start,
+        target,
+        diagonal: true,
+        smooth: true,
+        ...(this.room ? { roomId: this.room.id } : {}),
+      }),
+    })
+    const body = await response.json().catch(() => null)
+    return response.ok && body?.success ? { path: body.path, target: body.target } : null
+  }
+
   // set up all network listeners before the game starts
   initialize() {
     if (!this.room) return
@@ -97,10 +274,35 @@ export default class Network {
     this.mySessionId = this.room.sessionId
     store.dispatch(setSessionId(this.room.sessionId))
     this.webRTC = new WebRTC(this.mySessionId, this)
+    this.awayDetector.start()
+
+    // the namespace and its layout are synced with the state, so they may arrive after the join
+    this.room.state.onChange = (changes) => {
+      changes.forEach(({ field }) => {
+        if (field === 'namespaceSlug') store.dispatch(setLayoutEditable(this.canEditLayout()))
+        if (field === 'layout') phaserEvents.emit(Event.LAYOUT_CHANGED, this.getLayout())
+      })
+    }
+    store.dispatch(setLayoutEditable(this.canEditLayout()))
 
     // new instance added to the players MapSchema
     this.room.state.players.onAdd = (player: IPlayer, key: string) => {
-      if (key === this.mySessionId) return
+      if (key === this.mySessionId) {
+        store.dispatch(setRole(player.role))
+        store.dispatch(setStatus(player.status))
+        store.dispatch(setChatMutedUntil(player.chatMutedUntil))
+        player.onChange = (changes) => {
+          changes.forEach(({ field, value }) => {
+            if (field === 'role') store.dispatch(setRole(value))
+            if (field === 'status') {
+              store.dispatch(setStatus(value))
+              phaserEvents.emit(Event.MY_PLAYER_STATUS_CHANGED, value)
+            }
+            if (field === 'chatMutedUntil') store.dispatch(setChatMutedUntil(value))
+          })
+        }
+        return
+      }
 
       // track changes on every child object inside the players MapSchema
       player.onChange = (changes) => {
@@ -157,7 +359,9 @@ export default class Network {
 
     // new instance added to the chatMessages ArraySchema
     this.room.state.chatMessages.onAdd = (item, index) => {
-      store.dispatch(pushChatMessage(item))
+      store.dispatch(pushChatMessage(toChatMessage(item)))
+      // edits, deletions and reactions change the message in place
+      item.onChange = () => store.dispatch(updateChatMessage(toChatMessage(item)))
     }
 
     // when the server sends room data
@@ -180,6 +384,116 @@ export default class Network {
       const computerState = store.getState().computer
       computerState.shareScreenManager?.onUserLeft(clientId)
     })
+
+    // when the server rejects a movement update and snaps myPlayer back
+    this.room.onMessage(
+      Message.PLAYER_POSITION_CORRECTION,
+      (correction: PlayerPositionCorrection) => {
+        phaserEvents.emit(Event.MY_PLAYER_POSITION_CORRECTED, correction)
+      }
+    )
+
+    // when the server drops my chat messages for flooding
+    this.room.onMessage(Message.CHAT_FLOOD_NOTICE, (notice: ChatFloodNotice) => {
+      store.dispatch(pushServerNotice(notice.message))
+    })
+
+    // a page of older room channel messages I asked for
+    this.room.onMessage(Message.CHAT_HISTORY, (page: ChatHistoryPage) => {
+      store.dispatch(
+        prependChatHistory({
+          messages: page.messages.map((message) => message as IChatMessage),
+          hasMore: page.hasMore,
+        })
+      )
+    })
+
+    // a proximity or zone channel message; only members of the channel receive it
+    this.room.onMessage(Message.CHANNEL_MESSAGE, (message: ChannelChatMessage) => {
+      const incoming = message.senderId !== this.mySessionId
+      store.dispatch(
+        pushChannelMessage({
+          channel: message.channel,
+          chatMessage: {
+            author: message.senderName,
+            authorId: message.senderId,
+            createdAt: message.createdAt,
+            content: message.content,
+          } as IChatMessage,
+          incoming,
+        })
+      )
+      if (incoming) phaserEvents.emit(Event.UPDATE_DIALOG_BUBBLE, message.senderId, message.content)
+    })
+
+    // when I am no longer in the channel I wrote to
+    this.room.onMessage(Message.CHANNEL_MESSAGE_FAILED, (failure: ChannelMessageFailure) => {
+      store.dispatch(pushChannelNotice({ channel: failure.channel, content: failure.message }))
+    })
+
+    // a direct message I sent or received, echoed by the server once delivered
+    this.room.onMessage(Message.DIRECT_MESSAGE, (message: DirectMessage) => {
+      const incoming = message.senderId !== this.mySessionId
+      store.dispatch(
+        pushDirectMessage({
+          peerId: incoming ? message.senderId : message.recipientId,
+          chatMessage: {
+            author: message.senderName,
+            authorId: message.senderId,
+            createdAt: message.createdAt,
+            content: message.content,
+          } as IChatMessage,
+          incoming,
+        })
+      )
+    })
+
+    // when the recipient of my direct message is gone
+    this.room.onMessage(Message.DIRECT_MESSAGE_FAILED, (failure: DirectMessageFailure) => {
+      store.dispatch(pushDirectNotice({ peerId: failure.recipientId, content: failure.message }))
+    })
+
+    // the slash commands I may run, sent on join and when the room's custom commands change
+    this.room.onMessage(Message.CHAT_COMMANDS, (list: ChatCommandList) => {
+      store.dispatch(setChatCommands(list.commands))
+    })
+
+    // the reply to a slash command I ran
+    this.room.onMessage(Message.CHAT_COMMAND_RESULT, (result: ChatCommandResult) => {
+      if (result.conversationId) store.dispatch(openConversation(result.conversationId))
+      store.dispatch(pushCommandResult(result.message))
+      if (result.walkTo) {
+        phaserEvents.emit(Event.MY_PLAYER_WALK_REQUESTED, result.walkTo.x, result.walkTo.y)
+      }
+    })
+
+    this.room.onMessage(Message.CHAT_EMOTE, (emote: ChatEmote) => {
+      store.dispatch(pushChatEmote({ senderId: emote.senderId, content: emote.content }))
+    })
+
+    // someone mentioned me as `@name`; the message itself arrives on its own channel
+    this.room.onMessage(Message.CHAT_MENTION, (mention: ChatMention) => {
+      store.dispatch(setMention(mention))
+    })
+
+    // what came of a mute, kick or ban I asked for
+    this.room.onMessage(Message.MODERATION_RESULT, (result: ModerationResult) => {
+      store.dispatch(pushCommandResult(result.message))
+    })
+
+    // a moderator acted on me; kicks and bans are followed by the server closing the connection
+    this.room.onMessage(Message.MODERATION_NOTICE, (notice: ModerationNotice) => {
+      if (notice.action === 'kick' || notice.action === 'ban') {
+        store.dispatch(setRemoval(notice))
+      } else {
+        store.dispatch(pushServerNotice(notice.message))
+      }
+    })
+
+    // what came of a role change or a room settings update I asked for
+    this.room.onMessage(Message.ROOM_ADMIN_RESULT, (result: RoomAdminResult) => {
+      store.dispatch(pushCommandResult(result.message))
+    })
   }
 
   // method to register event listener and call back function when a item user added
@@ -223,6 +537,31 @@ export default class Network {
     phaserEvents.on(Event.MY_PLAYER_VIDEO_CONNECTED, callback, context)
   }
 
+  // method to register event listener and call back function when the server corrects myPlayer
+  onMyPlayerPositionCorrected(
+    callback: (correction: PlayerPositionCorrection) => void,
+    context?: any
+  ) {
+    phaserEvents.on(Event.MY_PLAYER_POSITION_CORRECTED, callback, context)
+  }
+
+  // method to register event listener and call back function when a chat command sends myPlayer
+  // somewhere
+  onMyPlayerWalkRequested(callback: (x: number, y: number) => void, context?: any) {
+    phaserEvents.on(Event.MY_PLAYER_WALK_REQUESTED, callback, context)
+  }
+
+  // method to register event listener and call back function when my status changed, e.g. by
+  // /status or after going idle
+  onMyPlayerStatusChanged(callback: (status: string) => void, context?: any) {
+    phaserEvents.on(Event.MY_PLAYER_STATUS_CHANGED, callback, context)
+  }
+
+  // method to register event listener and call back function when the office layout changed
+  onLayoutChanged(callback: (layout: OfficeLayout | null) => void, context?: any) {
+    phaserEvents.on(Event.LAYOUT_CHANGED, callback, context)
+  }
+
   // method to register event listener and call back function when a player updated
   onPlayerUpdated(
     callback: (field: string, value: number | string, key: string) => void,
@@ -231,55 +570,127 @@ export default class Network {
     phaserEvents.on(Event.PLAYER_UPDATED, callback, context)
   }
 
+  // validate a payload against the definitions shared with the server before sending it
+  private send<T extends ClientMessage>(type: T, payload?: ClientMessagePayloads[T]) {
+    if (!this.room) return
+    const result = validateClientMessage(type, payload)
+    if (result.ok === false) {
+      console.warn(`Not sending invalid ${Message[type]} message:`, result.error)
+      return
+    }
+    this.room.send(type, result.value)
+  }
+
   // method to send player updates to Colyseus server
   updatePlayer(currentX: number, currentY: number, currentAnim: string) {
-    this.room?.send(Message.UPDATE_PLAYER, { x: currentX, y: currentY, anim: currentAnim })
+    this.send(Message.UPDATE_PLAYER, { x: currentX, y: currentY, anim: currentAnim })
   }
 
   // method to send player name to Colyseus server
   updatePlayerName(currentName: string) {
-    this.room?.send(Message.UPDATE_PLAYER_NAME, { name: currentName })
+    this.send(Message.UPDATE_PLAYER_NAME, { name: currentName })
+  }
+
+  setPlayerStatus(status: PlayerStatus) {
+    this.send(Message.SET_PLAYER_STATUS, { status })
   }
 
   // method to send ready-to-connect signal to Colyseus server
   readyToConnect() {
-    this.room?.send(Message.READY_TO_CONNECT)
+    this.send(Message.READY_TO_CONNECT)
     phaserEvents.emit(Event.MY_PLAYER_READY)
   }
 
   // method to send ready-to-connect signal to Colyseus server
   videoConnected() {
-    this.room?.send(Message.VIDEO_CONNECTED)
+    this.send(Message.VIDEO_CONNECTED)
     phaserEvents.emit(Event.MY_PLAYER_VIDEO_CONNECTED)
   }
 
   // method to send stream-disconnection signal to Colyseus server
   playerStreamDisconnect(id: string) {
-    this.room?.send(Message.DISCONNECT_STREAM, { clientId: id })
+    this.send(Message.DISCONNECT_STREAM, { clientId: id })
     this.webRTC?.deleteVideoStream(id)
   }
 
   connectToComputer(id: string) {
-    this.room?.send(Message.CONNECT_TO_COMPUTER, { computerId: id })
+    this.send(Message.CONNECT_TO_COMPUTER, { computerId: id })
   }
 
   disconnectFromComputer(id: string) {
-    this.room?.send(Message.DISCONNECT_FROM_COMPUTER, { computerId: id })
+    this.send(Message.DISCONNECT_FROM_COMPUTER, { computerId: id })
   }
 
   connectToWhiteboard(id: string) {
-    this.room?.send(Message.CONNECT_TO_WHITEBOARD, { whiteboardId: id })
+    this.send(Message.CONNECT_TO_WHITEBOARD, { whiteboardId: id })
   }
 
   disconnectFromWhiteboard(id: string) {
-    this.room?.send(Message.DISCONNECT_FROM_WHITEBOARD, { whiteboardId: id })
+    this.send(Message.DISCONNECT_FROM_WHITEBOARD, { whiteboardId: id })
+  }
+
+  onStartScreenShare(id: string) {
+    this.send(Message.START_SCREEN_SHARE, { computerId: id })
   }
 
   onStopScreenShare(id: string) {
-    this.room?.send(Message.STOP_SCREEN_SHARE, { computerId: id })
+    this.send(Message.STOP_SCREEN_SHARE, { computerId: id })
+  }
+
+  addChatMessage(content: string, channel = GLOBAL_CHANNEL) {
+    this.send(Message.ADD_CHAT_MESSAGE, { content: content, channel })
+  }
+
+  // asks for the room channel messages stored before the one with id `before`
+  loadChatHistory(before: number) {
+    this.send(Message.CHAT_HISTORY, { before })
+  }
+
+  editChatMessage(messageId: number, content: string) {
+    this.send(Message.EDIT_CHAT_MESSAGE, { messageId, content })
+  }
+
+  deleteChatMessage(messageId: number) {
+    this.send(Message.DELETE_CHAT_MESSAGE, { messageId })
+  }
+
+  toggleChatReaction(messageId: number, emoji: string) {
+    this.send(Message.TOGGLE_CHAT_REACTION, { messageId, emoji })
+  }
+
+  sendChatCommand(name: string, args: string) {
+    this.send(Message.CHAT_COMMAND, { name, args })
+  }
+
+  // only moderators may; a ban without durationMs is permanent
+  moderatePlayer(
+    playerId: string,
+    action: ModerationAction,
+    options: { durationMs?: number; reason?: string; banBy?: BanTarget } = {}
+  ) {
+    this.send(Message.MODERATE_PLAYER, { playerId, action, ...options })
+  }
+
+  // another player's role, which decides who may moderate them, and whether they are muted
+  getModerationState(playerId: string) {
+    const player = this.room?.state.players.get(playerId)
+    return {
+      role: player?.role ?? DEFAULT_ROOM_ROLE,
+      muted: !!player && player.chatMutedUntil > Date.now(),
+    }
+  }
+
+  // only the room owner may
+  setPlayerRole(playerId: string, role: RoomRole) {
+    this.send(Message.SET_PLAYER_ROLE, { playerId, role })
+  }
+
+  // only the room owner may; fields left out are kept
+  updateRoomSettings(settings: ClientMessagePayloads[Message.UPDATE_ROOM_SETTINGS]) {
+    this.send(Message.UPDATE_ROOM_SETTINGS, settings)
   }
 
-  addChatMessage(content: string) {
-    this.room?.send(Message.ADD_CHAT_MESSAGE, { content: content })
+  sendDirectMessage(recipientId: string, content: string) {
+    this.send(Message.DIRECT_MESSAGE, { recipientId, content })
   }
 }
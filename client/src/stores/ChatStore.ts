@@ -1,5 +1,8 @@
-import { createSlice, PayloadAction } from '@reduxjs/toolkit'
+import { createSlice, Draft, PayloadAction } from '@reduxjs/toolkit'
 import { IChatMessage } from '../../../types/IOfficeState'
+import { GLOBAL_CHANNEL, MapArea } from '../../../types/ChatChannels'
+import { ChatCommandInfo } from '../../../types/ChatCommands'
+import { ChatMention } from '../../../types/MessagePayloads'
 import phaserGame from '../PhaserGame'
 import Game from '../scenes/Game'
 
@@ -7,21 +10,187 @@ export enum MessageType {
   PLAYER_JOINED,
   PLAYER_LEFT,
   REGULAR_MESSAGE,
+  SERVER_NOTICE,
+  EMOTE,
+}
+
+export interface ChatEntry {
+  messageType: MessageType
+  chatMessage: IChatMessage
+  // paged in from the stored history, so it no longer syncs and cannot be changed
+  archived?: boolean
+}
+
+export interface ChatLog {
+  messages: ChatEntry[]
+  unread: number
+}
+
+interface ChatState {
+  // the global channel, synced from the room state
+  chatMessages: ChatEntry[]
+  roomUnread: number
+  // older global messages are paged in from the server's stored history
+  hasMoreHistory: boolean
+  historyLoading: boolean
+  // proximity and zone channels, keyed by channel; only kept since this page was loaded
+  channelLogs: Map<string, ChatLog>
+  activeChannel: string
+  // the map area myPlayer stands in, whose channel can be joined
+  currentArea: MapArea | null
+  // direct message conversations keyed by the session id of the other player
+  directConversations: Map<string, ChatLog>
+  // session id of the open direct conversation, null while a channel is shown
+  activeConversation: string | null
+  // slash commands I may run, for autocomplete
+  chatCommands: ChatCommandInfo[]
+  // the latest message that mentioned me, until it is opened or dismissed
+  mention: ChatMention | null
+  focused: boolean
+  showChat: boolean
+}
+
+const initialState: ChatState = {
+  chatMessages: new Array<ChatEntry>(),
+  roomUnread: 0,
+  hasMoreHistory: true,
+  historyLoading: false,
+  channelLogs: new Map(),
+  activeChannel: GLOBAL_CHANNEL,
+  currentArea: null,
+  directConversations: new Map(),
+  activeConversation: null,
+  chatCommands: [],
+  mention: null,
+  focused: false,
+  showChat: true,
+}
+
+const createNotice = (content: string) =>
+  ({
+    createdAt: new Date().getTime(),
+    author: '',
+    content,
+  } as IChatMessage)
+
+function isShowingChannel(state: Draft<ChatState>, channel: string) {
+  return state.showChat && !state.activeConversation && state.activeChannel === channel
+}
+
+function markActiveAsRead(state: Draft<ChatState>) {
+  if (state.activeConversation) {
+    const conversation = state.directConversations.get(state.activeConversation)
+    if (conversation) conversation.unread = 0
+  } else if (state.activeChannel === GLOBAL_CHANNEL) {
+    state.roomUnread = 0
+  } else {
+    const log = state.channelLogs.get(state.activeChannel)
+    if (log) log.unread = 0
+  }
 }
 
 export const chatSlice = createSlice({
   name: 'chat',
-  initialState: {
-    chatMessages: new Array<{ messageType: MessageType; chatMessage: IChatMessage }>(),
-    focused: false,
-    showChat: true,
-  },
+  initialState,
   reducers: {
     pushChatMessage: (state, action: PayloadAction<IChatMessage>) => {
       state.chatMessages.push({
         messageType: MessageType.REGULAR_MESSAGE,
         chatMessage: action.payload,
       })
+      if (!isShowingChannel(state, GLOBAL_CHANNEL)) state.roomUnread += 1
+    },
+    setChatHistoryLoading: (state, action: PayloadAction<boolean>) => {
+      state.historyLoading = action.payload
+    },
+    // adds a page of stored messages above the ones already shown
+    prependChatHistory: (
+      state,
+      action: PayloadAction<{ messages: IChatMessage[]; hasMore: boolean }>
+    ) => {
+      const oldestId = state.chatMessages.find(({ chatMessage }) => chatMessage.id > 0)
+        ?.chatMessage.id
+      const older = action.payload.messages.filter(({ id }) => !oldestId || id < oldestId)
+      state.chatMessages.unshift(
+        ...older.map((chatMessage) => ({
+          messageType: MessageType.REGULAR_MESSAGE,
+          chatMessage,
+          archived: true,
+        }))
+      )
+      state.hasMoreHistory = action.payload.hasMore
+      state.historyLoading = false
+    },
+    // an edit, deletion or reaction synced from the room state
+    updateChatMessage: (state, action: PayloadAction<IChatMessage>) => {
+      const entry = state.chatMessages.find(
+        ({ chatMessage, archived }) => !archived && chatMessage.id === action.payload.id
+      )
+      if (entry) entry.chatMessage = action.payload
+    },
+    pushChannelMessage: (
+      state,
+      action: PayloadAction<{ channel: string; chatMessage: IChatMessage; incoming: boolean }>
+    ) => {
+      const { channel, chatMessage, incoming } = action.payload
+      const log = state.channelLogs.get(channel) ?? { messages: [], unread: 0 }
+      log.messages.push({ messageType: MessageType.REGULAR_MESSAGE, chatMessage })
+      if (incoming && !isShowingChannel(state, channel)) log.unread += 1
+      state.channelLogs.set(channel, log)
+    },
+    pushChannelNotice: (state, action: PayloadAction<{ channel: string; content: string }>) => {
+      const log = state.channelLogs.get(action.payload.channel)
+      log?.messages.push({
+        messageType: MessageType.SERVER_NOTICE,
+        chatMessage: createNotice(action.payload.content),
+      })
+    },
+    pushDirectMessage: (
+      state,
+      action: PayloadAction<{ peerId: string; chatMessage: IChatMessage; incoming: boolean }>
+    ) => {
+      const { peerId, chatMessage, incoming } = action.payload
+      const conversation = state.directConversations.get(peerId) ?? { messages: [], unread: 0 }
+      conversation.messages.push({ messageType: MessageType.REGULAR_MESSAGE, chatMessage })
+      if (incoming && (state.activeConversation !== peerId || !state.showChat)) {
+        conversation.unread += 1
+      }
+      state.directConversations.set(peerId, conversation)
+    },
+    pushDirectNotice: (state, action: PayloadAction<{ peerId: string; content: string }>) => {
+      const conversation = state.directConversations.get(action.payload.peerId)
+      conversation?.messages.push({
+        messageType: MessageType.SERVER_NOTICE,
+        chatMessage: createNotice(action.payload.content),
+      })
+    },
+    // also leaves the open direct conversation
+    openChannel: (state, action: PayloadAction<string>) => {
+      const channel = action.payload
+      state.activeConversation = null
+      state.activeChannel = channel
+      if (channel !== GLOBAL_CHANNEL && !state.channelLogs.has(channel)) {
+        state.channelLogs.set(channel, { messages: [], unread: 0 })
+      }
+      markActiveAsRead(state)
+    },
+    setCurrentArea: (state, action: PayloadAction<MapArea | null>) => {
+      state.currentArea = action.payload
+    },
+    openConversation: (state, action: PayloadAction<string>) => {
+      const peerId = action.payload
+      state.activeConversation = peerId
+      if (!state.directConversations.has(peerId)) {
+        state.directConversations.set(peerId, { messages: [], unread: 0 })
+      }
+      markActiveAsRead(state)
+    },
+    closeConversation: (state, action: PayloadAction<string>) => {
+      state.directConversations.delete(action.payload)
+      if (state.activeConversation === action.payload) {
+        state.activeConversation = null
+        markActiveAsRead(state)
+      }
     },
     pushPlayerJoinedMessage: (state, action: PayloadAction<string>) => {
       state.chatMessages.push({
@@ -43,6 +212,45 @@ export const chatSlice = createSlice({
         } as IChatMessage,
       })
     },
+    pushServerNotice: (state, action: PayloadAction<string>) => {
+      state.chatMessages.push({
+        messageType: MessageType.SERVER_NOTICE,
+        chatMessage: createNotice(action.payload),
+      })
+    },
+    // /me, /wave and broadcasting custom commands; shown in the room channel but never stored
+    pushChatEmote: (state, action: PayloadAction<{ senderId: string; content: string }>) => {
+      state.chatMessages.push({
+        messageType: MessageType.EMOTE,
+        chatMessage: {
+          ...createNotice(action.payload.content),
+          authorId: action.payload.senderId,
+        } as IChatMessage,
+      })
+      if (!isShowingChannel(state, GLOBAL_CHANNEL)) state.roomUnread += 1
+    },
+    // the reply to a slash command goes to whichever log is open
+    pushCommandResult: (state, action: PayloadAction<string>) => {
+      const entry: ChatEntry = {
+        messageType: MessageType.SERVER_NOTICE,
+        chatMessage: createNotice(action.payload),
+      }
+      if (state.activeConversation) {
+        state.directConversations.get(state.activeConversation)?.messages.push(entry)
+      } else if (state.activeChannel === GLOBAL_CHANNEL) {
+        state.chatMessages.push(entry)
+      } else {
+        state.channelLogs.get(state.activeChannel)?.messages.push(entry)
+      }
+    },
+    setMention: (state, action: PayloadAction<ChatMention | null>) => {
+      // a message already on screen needs no pointer
+      if (action.payload && isShowingChannel(state, action.payload.channel)) return
+      state.mention = action.payload
+    },
+    setChatCommands: (state, action: PayloadAction<ChatCommandInfo[]>) => {
+      state.chatCommands = action.payload
+    },
     setFocused: (state, action: PayloadAction<boolean>) => {
       const game = phaserGame.scene.keys.game as Game
       action.payload ? game.disableKeys() : game.enableKeys()
@@ -50,14 +258,31 @@ export const chatSlice = createSlice({
     },
     setShowChat: (state, action: PayloadAction<boolean>) => {
       state.showChat = action.payload
+      if (action.payload) markActiveAsRead(state)
     },
   },
 })
 
 export const {
   pushChatMessage,
+  setChatHistoryLoading,
+  prependChatHistory,
+  updateChatMessage,
+  pushChannelMessage,
+  pushChannelNotice,
   pushPlayerJoinedMessage,
   pushPlayerLeftMessage,
+  pushServerNotice,
+  pushChatEmote,
+  pushCommandResult,
+  setChatCommands,
+  setMention,
+  pushDirectMessage,
+  pushDirectNotice,
+  openChannel,
+  setCurrentArea,
+  openConversation,
+  closeConversation,
   setFocused,
   setShowChat,
 } = chatSlice.actions
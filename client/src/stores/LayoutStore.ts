@@ -0,0 +1,87 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit'
+
+import phaserGame from '../PhaserGame'
+import Game from '../scenes/Game'
+import { LayoutDecorLayer } from '../../../types/OfficeLayout'
+
+interface LayoutState {
+  // the page was opened with a manager token and the room belongs to a namespace
+  layoutEditable: boolean
+  layoutEditing: boolean
+  // decor tile placed on the next click on an empty spot
+  palette: null | { layer: LayoutDecorLayer; frame: number }
+  objectSelected: boolean
+  dirty: boolean
+  saving: boolean
+  error: null | string
+}
+
+const initialState: LayoutState = {
+  layoutEditable: false,
+  layoutEditing: false,
+  palette: null,
+  objectSelected: false,
+  dirty: false,
+  saving: false,
+  error: null,
+}
+
+export const layoutSlice = createSlice({
+  name: 'layout',
+  initialState,
+  reducers: {
+    setLayoutEditable: (state, action: PayloadAction<boolean>) => {
+      state.layoutEditable = action.payload
+    },
+    startLayoutEditing: (state) => {
+      const game = phaserGame.scene.keys.game as Game
+      game.layoutEditor.start()
+      state.layoutEditing = true
+      state.objectSelected = false
+      state.dirty = false
+      state.error = null
+    },
+    // leaves edit mode and drops unsaved changes
+    stopLayoutEditing: (state) => {
+      const game = phaserGame.scene.keys.game as Game
+      game.layoutEditor.stop()
+      state.layoutEditing = false
+      state.palette = null
+      state.objectSelected = false
+      state.dirty = false
+      state.saving = false
+    },
+    setLayoutPalette: (
+      state,
+      action: PayloadAction<null | { layer: LayoutDecorLayer; frame: number }>
+    ) => {
+      state.palette = action.payload
+    },
+    setLayoutObjectSelected: (state, action: PayloadAction<boolean>) => {
+      state.objectSelected = action.payload
+    },
+    setLayoutDirty: (state, action: PayloadAction<boolean>) => {
+      state.dirty = action.payload
+    },
+    setLayoutSaving: (state, action: PayloadAction<boolean>) => {
+      state.saving = action.payload
+      if (action.payload) state.error = null
+    },
+    setLayoutError: (state, action: PayloadAction<null | string>) => {
+      state.error = action.payload
+    },
+  },
+})
+
+export const {
+  setLayoutEditable,
+  startLayoutEditing,
+  stopLayoutEditing,
+  setLayoutPalette,
+  setLayoutObjectSelected,
+  setLayoutDirty,
+  setLayoutSaving,
+  setLayoutError,
+} = layoutSlice.actions
+
+export default layoutSlice.reducer
@@ -0,0 +1,43 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit'
+import { ModerationNotice } from '../../../types/MessagePayloads'
+
+export interface PlayerMenuTarget {
+  playerId: string
+  name: string
+  // where the menu opens, in page coordinates
+  x: number
+  y: number
+}
+
+interface ModerationState {
+  // the player whose name was right-clicked
+  playerMenu: PlayerMenuTarget | null
+  // set once a moderator kicked or banned me; the room is gone after that
+  removal: ModerationNotice | null
+}
+
+const initialState: ModerationState = {
+  playerMenu: null,
+  removal: null,
+}
+
+export const moderationSlice = createSlice({
+  name: 'moderation',
+  initialState,
+  reducers: {
+    openPlayerMenu: (state, action: PayloadAction<PlayerMenuTarget>) => {
+      state.playerMenu = action.payload
+    },
+    closePlayerMenu: (state) => {
+      state.playerMenu = null
+    },
+    setRemoval: (state, action: PayloadAction<ModerationNotice>) => {
+      state.removal = action.payload
+      state.playerMenu = null
+    },
+  },
+})
+
+export const { openPlayerMenu, closePlayerMenu, setRemoval } = moderationSlice.actions
+
+export default moderationSlice.reducer
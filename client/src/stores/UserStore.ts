@@ -1,6 +1,8 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit'
 import { sanitizeId } from '../util'
 import { BackgroundMode } from '../../../types/BackgroundMode'
+import { DEFAULT_ROOM_ROLE } from '../../../types/RoomRoles'
+import { DEFAULT_PLAYER_STATUS } from '../../../types/PlayerStatus'
 
 import phaserGame from '../PhaserGame'
 import Bootstrap from '../scenes/Bootstrap'
@@ -18,6 +20,12 @@ export const userSlice = createSlice({
     videoConnected: false,
     loggedIn: false,
     playerNameMap: new Map<string, string>(),
+    // my role in the room, one of ROOM_ROLES
+    role: DEFAULT_ROOM_ROLE as string,
+    // my availability, one of PLAYER_STATUSES
+    status: DEFAULT_PLAYER_STATUS as string,
+    // epoch milliseconds until which a moderator muted me, 0 when I am not muted
+    chatMutedUntil: 0,
     showJoystick: window.innerWidth < 650,
   },
   reducers: {
@@ -44,6 +52,15 @@ export const userSlice = createSlice({
     removePlayerNameMap: (state, action: PayloadAction<string>) => {
       state.playerNameMap.delete(sanitizeId(action.payload))
     },
+    setRole: (state, action: PayloadAction<string>) => {
+      state.role = action.payload
+    },
+    setStatus: (state, action: PayloadAction<string>) => {
+      state.status = action.payload
+    },
+    setChatMutedUntil: (state, action: PayloadAction<number>) => {
+      state.chatMutedUntil = action.payload
+    },
     setShowJoystick: (state, action: PayloadAction<boolean>) => {
       state.showJoystick = action.payload
     },
@@ -57,6 +74,9 @@ export const {
   setLoggedIn,
   setPlayerNameMap,
   removePlayerNameMap,
+  setRole,
+  setStatus,
+  setChatMutedUntil,
   setShowJoystick,
 } = userSlice.actions
 
@@ -1,3 +1,5 @@
+import { PlayerStatus } from '../../types/PlayerStatus'
+
 export function sanitizeId(id: string) {
   let sanitized = id
 
@@ -24,6 +26,14 @@ export function getColorByString(string: string) {
   return colorArr[Math.floor(string.charCodeAt(0) % colorArr.length)]
 }
 
+// badge color and menu label of each player status
+export const playerStatusStyles: Record<PlayerStatus, { color: string; label: string }> = {
+  available: { color: '#2ecc71', label: 'Available' },
+  busy: { color: '#f39c12', label: 'Busy' },
+  dnd: { color: '#e74c3c', label: 'Do not disturb' },
+  away: { color: '#95a5a6', label: 'Away' },
+}
+
 export function getAvatarString(name: string) {
   const part = name.split(' ')
   return part.length < 2 ? part[0][0] : part[0][0] + part[1][0]
@@ -66,7 +66,9 @@ export default class ShareScreenManager {
 
         // Call all existing users.
         const game = phaserGame.scene.keys.game as Game
-        const computerItem = game.computerMap.get(store.getState().computer.computerId!)
+        const computerId = store.getState().computer.computerId!
+        game.network.onStartScreenShare(computerId)
+        const computerItem = game.computerMap.get(computerId)
         if (computerItem) {
           for (const userId of computerItem.currentUsers) {
             this.onUserJoined(userId)
@@ -0,0 +1,141 @@
+import crypto from 'crypto'
+import { Request, Response } from 'express'
+import { OfficeEvent, onOfficeEvent } from './officeEvents'
+
+interface LoggedEvent {
+  id: string
+  sequence: number
+  event: OfficeEvent
+}
+
+type LogListener = (entry: LoggedEvent) => void
+
+// event ids are `<boot>:<sequence>`, so ids handed out before a restart are recognised as stale
+const BOOT_ID = crypto.randomBytes(4).toString('hex')
+const MAX_EVENTS_PER_NAMESPACE = Number(process.env.EVENT_STREAM_BUFFER_SIZE || 500)
+const KEEPALIVE_INTERVAL_MS = 25_000
+const RECONNECT_DELAY_MS = 3_000
+
+const namespaceKey = (slug: string) => slug.trim().toLowerCase()
+
+/**
+ * Recent office events per namespace, numbered with one global sequence so a stream can resume
+ * from the `Last-Event-ID` a client reconnects with.
+ */
+class OfficeEventLog {
+  private sequence = 0
+  private buffers = new Map<string, LoggedEvent[]>()
+  // highest sequence dropped from each namespace buffer; resuming from before it would miss events
+  private evictedUpTo = new Map<string, number>()
+  private listeners = new Map<string, Set<LogListener>>()
+
+  append(event: OfficeEvent) {
+    if (!event.namespaceSlug) return
+    const key = namespaceKey(event.namespaceSlug)
+    this.sequence += 1
+    const entry: LoggedEvent = { id: `${BOOT_ID}:${this.sequence}`, sequence: this.sequence, event }
+
+    const buffer = this.buffers.get(key) ?? []
+    buffer.push(entry)
+    if (buffer.length > MAX_EVENTS_PER_NAMESPACE) {
+      const dropped = buffer.splice(0, buffer.length - MAX_EVENTS_PER_NAMESPACE)
+      this.evictedUpTo.set(key, dropped[dropped.length - 1].sequence)
+    }
+    this.buffers.set(key, buffer)
+
+    this.listeners.get(key)?.forEach((listener) => listener(entry))
+  }
+
+  // id of the latest event, to resume from when nothing has been received yet
+  cursor() {
+    return `${BOOT_ID}:${this.sequence}`
+  }
+
+  // events after `lastEventId`, or null when they can no longer be replayed completely
+  since(namespaceSlug: string, lastEventId: string): LoggedEvent[] | null {
+    const [bootId, rawSequence] = lastEventId.split(':')
+    const lastSequence = Number(rawSequence)
+    if (bootId !== BOOT_ID || !Number.isInteger(lastSequence) || lastSequence > this.sequence) {
+      return null
+    }
+    const key = namespaceKey(namespaceSlug)
+    if (lastSequence < (this.evictedUpTo.get(key) ?? 0)) return null
+    return (this.buffers.get(key) ?? []).filter((entry) => entry.sequence > lastSequence)
+  }
+
+  subscribe(namespaceSlug: string, listener: LogListener): () => void {
+    const key = namespaceKey(namespaceSlug)
+    const listeners = this.listeners.get(key) ?? new Set<LogListener>()
+    listeners.add(listener)
+    this.listeners.set(key, listeners)
+    return () => {
+      listeners.delete(listener)
+      if (!listeners.size) this.listeners.delete(key)
+    }
+  }
+}
+
+const log = new OfficeEventLog()
+
+// starts buffering office events; call once at boot, before any stream is served
+export function startOfficeEventLog(): () => void {
+  return onOfficeEvent((event) => log.append(event))
+}
+
+function writeEvent(res: Response, type: string, data: unknown, id?: string) {
+  if (id) res.write(`id: ${id}\n`)
+  res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`)
+}
+
+const toStreamData = ({ type, roomId, namespaceSlug, agentId, data, createdAt }: OfficeEvent) => ({
+  type,
+  roomId,
+  namespaceSlug,
+  agentId: agentId ?? null,
+  data,
+  createdAt,
+})
+
+/**
+ * Serves the events of a namespace as Server-Sent Events. A fresh stream starts with a `snapshot`
+ * of the room; a reconnect carrying `Last-Event-ID` gets the missed events replayed instead, or a
+ * `reset` with a new snapshot once those have fallen out of the buffer.
+ */
+export function streamOfficeEvents(
+  req: Request,
+  res: Response,
+  namespaceSlug: string,
+  getSnapshot: () => unknown
+) {
+  res.status(200)
+  res.setHeader('Content-Type', 'text/event-stream')
+  res.setHeader('Cache-Control', 'no-cache, no-transform')
+  res.setHeader('Connection', 'keep-alive')
+  res.setHeader('X-Accel-Buffering', 'no')
+  res.flushHeaders()
+  res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`)
+
+  const header = req.headers['last-event-id']
+  const query = req.query.lastEventId
+  const lastEventId =
+    (typeof header === 'string' && header.trim()) || (typeof query === 'string' && query.trim())
+
+  const replay = lastEventId ? log.since(namespaceSlug, lastEventId) : null
+  if (replay) {
+    replay.forEach((entry) => {
+      writeEvent(res, entry.event.type, toStreamData(entry.event), entry.id)
+    })
+  } else {
+    writeEvent(res, lastEventId ? 'reset' : 'snapshot', { room: getSnapshot() }, log.cursor())
+  }
+
+  const unsubscribe = log.subscribe(namespaceSlug, (entry) => {
+    writeEvent(res, entry.event.type, toStreamData(entry.event), entry.id)
+  })
+  const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), KEEPALIVE_INTERVAL_MS)
+
+  req.on('close', () => {
+    clearInterval(keepAlive)
+    unsubscribe()
+  })
+}
@@ -0,0 +1,56 @@
+import { EventEmitter } from 'events'
+
+export const OFFICE_EVENT_TYPES = [
+  'npc.walk.started',
+  'npc.walk.arrived',
+  'npc.walk.cancelled',
+  'chat.mention',
+  'chat.message',
+  'chat.channel_message',
+  'player.joined',
+  'player.left',
+  'computer.joined',
+  'computer.left',
+  'screenshare.started',
+  'screenshare.stopped',
+  'npc.upserted',
+  'npc.removed',
+  'presence.updated',
+  'occupancy.changed',
+  'layout.updated',
+  'player.role.changed',
+  'room.updated',
+] as const
+
+export type OfficeEventType = typeof OFFICE_EVENT_TYPES[number]
+
+export interface OfficeEvent {
+  type: OfficeEventType
+  roomId: string
+  namespaceSlug: string | null
+  agentId?: string
+  data: Record<string, unknown>
+  createdAt: string
+}
+
+const OFFICE_EVENT = 'office-event'
+const emitter = new EventEmitter()
+// every API consumer (webhooks, streams, ...) subscribes once, so lift the default cap
+emitter.setMaxListeners(0)
+
+export function emitOfficeEvent(event: Omit<OfficeEvent, 'createdAt'>) {
+  const payload: OfficeEvent = { ...event, createdAt: new Date().toISOString() }
+  try {
+    emitter.emit(OFFICE_EVENT, payload)
+  } catch (err) {
+    console.warn('[office-events] listener failed', payload.type, err)
+  }
+}
+
+// returns a function that removes the listener again
+export function onOfficeEvent(listener: (event: OfficeEvent) => void): () => void {
+  emitter.on(OFFICE_EVENT, listener)
+  return () => {
+    emitter.off(OFFICE_EVENT, listener)
+  }
+}
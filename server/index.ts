@@ -1,18 +1,57 @@
 import http from 'http'
 import https from 'https'
 import { URL } from 'url'
+import crypto from 'crypto'
 import express from 'express'
 import cors from 'cors'
 import { Server, LobbyRoom, matchMaker } from 'colyseus'
 import { monitor } from '@colyseus/monitor'
 import { RoomType } from '../types/Rooms'
+import { Message } from '../types/Messages'
+import { validateClientMessage } from '../types/MessagePayloads'
+import { DEFAULT_MAP_ID, getOfficeMap } from '../types/OfficeMaps'
 import { initDb } from './persistence/db'
+import {
+  PersistedBan,
+  getModerationAudit,
+  listActiveBans,
+  removeBan,
+} from './persistence/ModerationStore'
 import { clearAllRooms } from './persistence/RoomStore'
-import { clearAllNpcs, saveNpc } from './persistence/NpcStore'
+import { allNpcs, clearAllNpcs, saveNpc, getNpcSchedule } from './persistence/NpcStore'
+import {
+  saveWebhook,
+  getWebhook,
+  listWebhooks,
+  removeWebhook,
+  listWebhookDeadLetters,
+  getWebhookDeadLetter,
+  removeWebhookDeadLetter,
+  PersistedWebhook,
+} from './persistence/WebhookStore'
+import { parseNpcSchedule } from './rooms/NpcSchedule'
+import { formatNpcCsv, parseNpcCsv, parseNpcRecords } from './rooms/NpcTransfer'
+import { parseOfficeLayout } from './pathfinding/OfficeMapSource'
+import { parseCustomChatCommand } from './rooms/ChatCommandRegistry'
+import {
+  ModerationActor,
+  banFromNamespace,
+  parseBanRequest,
+  recordModerationAction,
+} from './rooms/RoomModeration'
+import { OFFICE_EVENT_TYPES } from './events/officeEvents'
+import { startOfficeEventLog, streamOfficeEvents } from './events/eventStream'
+import {
+  startWebhookDispatcher,
+  generateWebhookSecret,
+  redeliverWebhookDeadLetter,
+} from './services/webhookDispatcher'
+import { checkWebhookUrl } from './services/webhookTargets'
+import { requireApiAuth, authorizeTarget, getApiAuth } from './lib/apiAuth'
 
 // import socialRoutes from "@colyseus/social/express"
 
-import { SkyOffice } from './rooms/SkyOffice'
+import { SERVER_ISSUED_ROOM, SkyOffice } from './rooms/SkyOffice'
 
 // Set seat reservation timeout to 15 seconds (default is 5)
 process.env.COLYSEUS_SEAT_RESERVATION_TIME = '15'
@@ -31,7 +70,8 @@ import {
   RegistryAgent,
   RegistryOffice
 } from './services/registryApi'
-import { findPath as findWalkablePath } from './pathfinding/WalkableMap'
+import { findRoute } from './pathfinding/WalkableMap'
+import { OccupancyLayer } from './pathfinding/OccupancyLayer'
 
 const DEFAULT_VOICE_AGENT_ID =
   process.env.DEFAULT_AGENT_VOICE_ID || 'agent_4901k6k9xg9qf4paratx1d9rkmwx'
@@ -90,7 +130,9 @@ async function ensureRegistryRooms() {
           password: null,
           autoDispose: false,
           namespaceSlug: slug,
+          mapId: office.metadata?.mapId,
           metadata,
+          serverIssued: SERVER_ISSUED_ROOM,
         })
         console.log(`[registry-sync] Room for namespace '${slug}' created for office '${office.officeId}'`)
       }
@@ -338,6 +380,33 @@ function buildNpcPayloadFromRegistry(
   }
 }
 
+const requireDeployAuth = requireApiAuth('npc:deploy', { agentId: (req) => req.body?.agentId })
+const requireNpcRemoveAuth = requireApiAuth('npc:remove', { agentId: (req) => req.params.agentId })
+const requireNpcPersistAuth = requireApiAuth('npc:persist', { agentId: (req) => req.params.agentId })
+const requireNpcMoveAuth = requireApiAuth('npc:move', { agentId: (req) => req.params.agentId })
+const requireNpcScheduleAuth = requireApiAuth('npc:schedule', {
+  agentId: (req) => req.params.agentId,
+})
+const requireNpcChatAuth = requireApiAuth('npc:chat', { agentId: (req) => req.params.agentId })
+const requireNamespaceDestroyAuth = requireApiAuth('namespace:destroy')
+const requireWebhookManageAuth = requireApiAuth('webhook:manage')
+const requireEventsReadAuth = requireApiAuth('events:read', { allowQueryToken: true })
+const requireMetricsReadAuth = requireApiAuth('metrics:read')
+const requireNpcExportAuth = requireApiAuth('npc:export')
+const requireNpcImportAuth = requireApiAuth('npc:import')
+const requireLayoutEditAuth = requireApiAuth('layout:edit')
+const requireChatCommandsAuth = requireApiAuth('chat:commands')
+const requireRoomModerateAuth = requireApiAuth('room:moderate')
+// paths around a room's players and free seats reveal where they are; other paths stay public
+const requireRoomPathTokenAuth = requireApiAuth('npc:move', { agentId: (req) => req.body?.agentId })
+const requireRoomPathAuth: express.RequestHandler = (req, res, next) =>
+  normaliseNamespaceParam(req.body?.namespaceSlug)
+    ? requireRoomPathTokenAuth(req, res, next)
+    : next()
+const requireSeatLookupAuth = requireApiAuth('npc:move', {
+  agentId: (req) => (typeof req.query.agentId === 'string' ? req.query.agentId : null),
+})
+
 app.get('/healthz', (_req, res) => {
   res.json({
     success: true,
@@ -348,7 +417,7 @@ app.get('/healthz', (_req, res) => {
   })
 })
 
-app.post('/api/deploy-character', async (req, res) => {
+app.post('/api/deploy-character', requireDeployAuth, async (req, res) => {
   const {
     agentId,
     name,
@@ -404,6 +473,15 @@ app.post('/api/deploy-character', async (req, res) => {
     })
   }
 
+  if (
+    !authorizeTarget(res, {
+      namespaceSlug: targetRoom.getNamespaceSlug(),
+      officeId: targetRoom.getRegistryOfficeId(),
+    })
+  ) {
+    return
+  }
+
   const safePosition = {
     x: Number(position?.x) || 705,
     y: Number(position?.y) || 500,
@@ -578,12 +656,17 @@ app.get('/api/offices/:officeId/agents', async (req, res) => {
   })
 })
 
-app.delete('/api/rooms/:namespaceSlug', async (req, res) => {
+app.delete('/api/rooms/:namespaceSlug', requireNamespaceDestroyAuth, async (req, res) => {
   const namespaceSlug = String(req.params.namespaceSlug || '').trim().toLowerCase()
   if (!namespaceSlug) {
     return res.status(400).json({ success: false, message: 'namespaceSlug is required' })
   }
 
+  const activeRoom = SkyOffice.getRoomByNamespaceSlug(namespaceSlug)
+  if (!authorizeTarget(res, { namespaceSlug, officeId: activeRoom?.getRegistryOfficeId() })) {
+    return
+  }
+
   try {
     const result = await SkyOffice.destroyNamespace(namespaceSlug)
     
@@ -641,17 +724,29 @@ app.delete('/api/rooms/:namespaceSlug', async (req, res) => {
   }
 })
 
-app.delete('/api/npcs/:agentId', (req, res) => {
+app.delete('/api/npcs/:agentId', requireNpcRemoveAuth, (req, res) => {
   const { agentId } = req.params
   const anyRoom = SkyOffice.getAnyActiveRoom()
   if (!anyRoom) {
     return res.status(503).json({ success: false, message: '暂无可用房间' })
   }
-  const removed = SkyOffice.removeNpcEverywhere(agentId)
+  const room = SkyOffice.findRoomWithAgent(agentId)
+  if (!room) {
+    return res.json({ success: true, removed: false })
+  }
+  if (
+    !authorizeTarget(res, {
+      namespaceSlug: room.getNamespaceSlug(),
+      officeId: room.getRegistryOfficeId(),
+    })
+  ) {
+    return
+  }
+  const removed = room.removeNpc(agentId)
   res.json({ success: true, removed })
 })
 
-app.post('/api/pathfind', (req, res) => {
+app.post('/api/pathfind', requireRoomPathAuth, (req, res) => {
   const start = req.body?.start
   const target = req.body?.target
   const isValidPoint = (point: any) =>
@@ -665,17 +760,99 @@ app.post('/api/pathfind', (req, res) => {
     return res.status(400).json({ success: false, message: 'Invalid start/target coordinates' })
   }
 
-  const path = findWalkablePath(
+  // `diagonal` and `smooth` default to off; `nearest` falls back to the closest reachable tile
+  const options = { diagonal: false, smooth: false, nearest: true }
+  for (const name of Object.keys(options) as (keyof typeof options)[]) {
+    const value = req.body?.[name]
+    if (value === undefined) continue
+    if (typeof value !== 'boolean') {
+      return res.status(400).json({ success: false, message: `${name} must be a boolean` })
+    }
+    options[name] = value
+  }
+
+  // paths follow the map and layout of the given room, or an explicit mapId, or the default map
+  let mapId = DEFAULT_MAP_ID
+  let occupancy: OccupancyLayer | null = null
+  const namespaceSlug = normaliseNamespaceParam(req.body?.namespaceSlug)
+  if (namespaceSlug) {
+    if (!authorizeNamespace(res, namespaceSlug)) return
+    const room = SkyOffice.getRoomByNamespaceSlug(namespaceSlug)
+    if (!room) {
+      return res.status(404).json({ success: false, message: 'No active room for this namespace' })
+    }
+    mapId = room.getMapKey()
+    // the room's players are a soft cost unless `occupancy: false`; `agentId` leaves out the NPC
+    // the path is planned for
+    if (req.body?.occupancy !== false) {
+      const agentId = typeof req.body?.agentId === 'string' ? req.body.agentId.trim() : ''
+      occupancy = room.getOccupancyLayer(agentId || undefined)
+    }
+  } else if (req.body?.roomId !== undefined) {
+    // the players' own click-to-move: the room's map and layout, without where anyone stands
+    const room = typeof req.body.roomId === 'string' ? SkyOffice.getRoomById(req.body.roomId) : null
+    if (!room) {
+      return res.status(404).json({ success: false, message: 'Room not found' })
+    }
+    mapId = room.getMapKey()
+  } else if (req.body?.mapId !== undefined) {
+    const officeMap = getOfficeMap(req.body.mapId)
+    if (!officeMap) {
+      return res.status(400).json({ success: false, message: 'Unknown mapId' })
+    }
+    mapId = officeMap.id
+  }
+
+  const route = findRoute(
     { x: Number(start.x), y: Number(start.y) },
-    { x: Number(target.x), y: Number(target.y) }
+    { x: Number(target.x), y: Number(target.y) },
+    mapId,
+    { ...options, occupancy }
   )
-  if (!path || !path.length) {
+  if (!route || !route.path.length) {
     return res.status(404).json({ success: false, message: 'Path not found' })
   }
-  res.json({ success: true, path })
+  res.json({
+    success: true,
+    path: route.path,
+    cost: route.cost,
+    target: route.target,
+    targetAdjusted: route.targetAdjusted,
+  })
+})
+
+// `type` is `workstation` (default) or `chair`; `agentId` lets an NPC keep its own seat
+app.get('/api/namespaces/:namespaceSlug/seats/nearest', requireSeatLookupAuth, (req, res) => {
+  const namespaceSlug = normaliseNamespaceParam(req.params.namespaceSlug)
+  if (!namespaceSlug) {
+    return res.status(400).json({ success: false, message: 'namespaceSlug is required' })
+  }
+  if (!authorizeNamespace(res, namespaceSlug)) return
+  const x = Number(req.query.x)
+  const y = Number(req.query.y)
+  if (req.query.x === undefined || req.query.y === undefined || !Number.isFinite(x) || !Number.isFinite(y)) {
+    return res.status(400).json({ success: false, message: 'x and y must be numbers' })
+  }
+  const type = req.query.type ?? 'workstation'
+  if (type !== 'workstation' && type !== 'chair') {
+    return res.status(400).json({ success: false, message: 'type must be workstation or chair' })
+  }
+  const room = SkyOffice.getRoomByNamespaceSlug(namespaceSlug)
+  if (!room) {
+    return res.status(404).json({ success: false, message: 'No active room for this namespace' })
+  }
+
+  const agentId = typeof req.query.agentId === 'string' ? req.query.agentId.trim() : ''
+  const seat = room.findNearestFreeSeat({ x, y }, type, agentId || undefined)
+  if (!seat) {
+    return res
+      .status(404)
+      .json({ success: false, code: 'NO_FREE_SEAT', message: `No free ${type} can be reached` })
+  }
+  res.json({ success: true, namespaceSlug, seat })
 })
 
-app.post('/api/npcs/:agentId/persist', (req, res) => {
+app.post('/api/npcs/:agentId/persist', requireNpcPersistAuth, (req, res) => {
   const agentIdRaw = String(req.params.agentId || '').trim()
   if (!agentIdRaw) {
     return res.status(400).json({ success: false, message: 'agentId is required' })
@@ -746,6 +923,14 @@ app.post('/api/npcs/:agentId/persist', (req, res) => {
   if (!room) {
     return res.status(503).json({ success: false, message: 'No active SkyOffice room' })
   }
+  if (
+    !authorizeTarget(res, {
+      namespaceSlug: room.getNamespaceSlug(),
+      officeId: room.getRegistryOfficeId(),
+    })
+  ) {
+    return
+  }
 
   const result = room.updateNpcState(agentIdRaw, updatePayload)
   if (!result) {
@@ -761,6 +946,655 @@ app.post('/api/npcs/:agentId/persist', (req, res) => {
   })
 })
 
+app.post('/api/npcs/:agentId/walk', requireNpcMoveAuth, (req, res) => {
+  const agentIdRaw = String(req.params.agentId || '').trim()
+  if (!agentIdRaw) {
+    return res.status(400).json({ success: false, message: 'agentId is required' })
+  }
+
+  const targetBody = req.body?.target
+  const hasTarget =
+    targetBody &&
+    typeof targetBody.x === 'number' &&
+    Number.isFinite(targetBody.x) &&
+    typeof targetBody.y === 'number' &&
+    Number.isFinite(targetBody.y)
+  const workstationId =
+    typeof req.body?.workstationId === 'string' && req.body.workstationId.trim()
+      ? req.body.workstationId.trim()
+      : undefined
+  const computerId =
+    typeof req.body?.computerId === 'string' && req.body.computerId.trim()
+      ? req.body.computerId.trim()
+      : undefined
+  const whiteboardId =
+    typeof req.body?.whiteboardId === 'string' && req.body.whiteboardId.trim()
+      ? req.body.whiteboardId.trim()
+      : undefined
+
+  if (!hasTarget && !workstationId && !computerId && !whiteboardId) {
+    return res.status(400).json({
+      success: false,
+      message: 'target {x, y}, workstationId, computerId or whiteboardId is required',
+    })
+  }
+
+  const room = SkyOffice.findRoomWithAgent(agentIdRaw)
+  if (!room) {
+    return res.status(404).json({ success: false, message: 'NPC not found in active rooms' })
+  }
+  if (
+    !authorizeTarget(res, {
+      namespaceSlug: room.getNamespaceSlug(),
+      officeId: room.getRegistryOfficeId(),
+    })
+  ) {
+    return
+  }
+
+  const result = room.walkNpc(agentIdRaw, {
+    position: hasTarget ? { x: Number(targetBody.x), y: Number(targetBody.y) } : undefined,
+    workstationId,
+    computerId,
+    whiteboardId,
+  })
+  if ('error' in result) {
+    const status = result.error === 'PATH_NOT_FOUND' ? 422 : 404
+    return res.status(status).json({ success: false, code: result.error, message: result.message })
+  }
+
+  res.status(202).json({ success: true, agentId: agentIdRaw, walk: result.walk })
+})
+
+app.get('/api/npcs/:agentId/walk', requireNpcMoveAuth, (req, res) => {
+  const agentIdRaw = String(req.params.agentId || '').trim()
+  const room = SkyOffice.findRoomWithAgent(agentIdRaw)
+  if (
+    room &&
+    !authorizeTarget(res, {
+      namespaceSlug: room.getNamespaceSlug(),
+      officeId: room.getRegistryOfficeId(),
+    })
+  ) {
+    return
+  }
+  const walk = room?.getNpcWalk(agentIdRaw)
+  if (!walk) {
+    return res.status(404).json({ success: false, message: 'No walk found for this NPC' })
+  }
+  res.json({ success: true, agentId: agentIdRaw, walk })
+})
+
+app.get('/api/npcs/:agentId/schedule', requireNpcScheduleAuth, (req, res) => {
+  const agentIdRaw = String(req.params.agentId || '').trim()
+  const room = SkyOffice.findRoomWithAgent(agentIdRaw)
+  if (room) {
+    if (
+      !authorizeTarget(res, {
+        namespaceSlug: room.getNamespaceSlug(),
+        officeId: room.getRegistryOfficeId(),
+      })
+    ) {
+      return
+    }
+    const active = room.getActiveNpcScheduleEntry(agentIdRaw)
+    return res.json({
+      success: true,
+      agentId: agentIdRaw,
+      timezone: room.getOfficeTimezone(),
+      schedule: room.getNpcSchedule(agentIdRaw),
+      active: active ? { index: active.index, label: active.entry.label ?? null } : null,
+    })
+  }
+
+  // the NPC is not deployed right now, but its schedule is kept for when it comes back; the saved
+  // NPC tells which namespace it belongs to
+  const savedNpc = allNpcs().find((npc) => npc.agentId === agentIdRaw)
+  if (
+    !authorizeTarget(res, {
+      namespaceSlug: savedNpc?.namespaceSlug,
+      officeId: savedNpc?.officeId,
+    })
+  ) {
+    return
+  }
+  const persisted = getNpcSchedule(agentIdRaw)
+  if (!persisted) {
+    return res.status(404).json({ success: false, message: 'No schedule found for this NPC' })
+  }
+  res.json({ success: true, agentId: agentIdRaw, schedule: persisted.schedule, active: null })
+})
+
+app.put('/api/npcs/:agentId/schedule', requireNpcScheduleAuth, (req, res) => {
+  const agentIdRaw = String(req.params.agentId || '').trim()
+  if (!agentIdRaw) {
+    return res.status(400).json({ success: false, message: 'agentId is required' })
+  }
+
+  const schedule = parseNpcSchedule(req.body)
+  if (typeof schedule === 'string') {
+    return res.status(400).json({ success: false, message: schedule })
+  }
+
+  const room = SkyOffice.findRoomWithAgent(agentIdRaw)
+  if (!room) {
+    return res.status(404).json({ success: false, message: 'NPC not found in active rooms' })
+  }
+  if (
+    !authorizeTarget(res, {
+      namespaceSlug: room.getNamespaceSlug(),
+      officeId: room.getRegistryOfficeId(),
+    })
+  ) {
+    return
+  }
+
+  room.setNpcSchedule(agentIdRaw, schedule)
+  const active = room.getActiveNpcScheduleEntry(agentIdRaw)
+  res.json({
+    success: true,
+    agentId: agentIdRaw,
+    timezone: room.getOfficeTimezone(),
+    schedule,
+    active: active ? { index: active.index, label: active.entry.label ?? null } : null,
+  })
+})
+
+app.delete('/api/npcs/:agentId/schedule', requireNpcScheduleAuth, (req, res) => {
+  const agentIdRaw = String(req.params.agentId || '').trim()
+  const room = SkyOffice.findRoomWithAgent(agentIdRaw)
+  if (!room) {
+    return res.status(404).json({ success: false, message: 'NPC not found in active rooms' })
+  }
+  if (
+    !authorizeTarget(res, {
+      namespaceSlug: room.getNamespaceSlug(),
+      officeId: room.getRegistryOfficeId(),
+    })
+  ) {
+    return
+  }
+
+  room.clearNpcSchedule(agentIdRaw)
+  res.json({ success: true, agentId: agentIdRaw, removed: true })
+})
+
+app.post('/api/npcs/:agentId/say', requireNpcChatAuth, (req, res) => {
+  const agentIdRaw = String(req.params.agentId || '').trim()
+  const room = SkyOffice.findRoomWithAgent(agentIdRaw)
+  if (!room) {
+    return res.status(404).json({ success: false, message: 'NPC not found in active rooms' })
+  }
+  if (
+    !authorizeTarget(res, {
+      namespaceSlug: room.getNamespaceSlug(),
+      officeId: room.getRegistryOfficeId(),
+    })
+  ) {
+    return
+  }
+
+  const result = room.npcSay(agentIdRaw, req.body?.content)
+  if ('error' in result) {
+    const status = result.error === 'INVALID_CONTENT' ? 400 : 404
+    return res.status(status).json({ success: false, code: result.error, message: result.message })
+  }
+  res.json({ success: true, agentId: agentIdRaw, content: result.content })
+})
+
+app.get('/api/npcs/:agentId/mentions', requireNpcChatAuth, (req, res) => {
+  const agentIdRaw = String(req.params.agentId || '').trim()
+  const room = SkyOffice.findRoomWithAgent(agentIdRaw)
+  if (!room) {
+    return res.status(404).json({ success: false, message: 'NPC not found in active rooms' })
+  }
+  if (
+    !authorizeTarget(res, {
+      namespaceSlug: room.getNamespaceSlug(),
+      officeId: room.getRegistryOfficeId(),
+    })
+  ) {
+    return
+  }
+
+  const after = Math.max(0, Math.floor(Number(req.query.after)) || 0)
+  const limit = Math.min(100, Math.max(1, Math.floor(Number(req.query.limit)) || 50))
+  const mentions = room.getNpcMentions(agentIdRaw, after, limit)
+  res.json({
+    success: true,
+    agentId: agentIdRaw,
+    mentions,
+    lastId: mentions.length ? mentions[mentions.length - 1].id : after,
+  })
+})
+
+const normaliseNamespaceParam = (value: unknown) =>
+  String(value || '')
+    .trim()
+    .toLowerCase()
+
+// namespace routes work without an active room; the office is only checked when one is running
+function authorizeNamespace(res: express.Response, namespaceSlug: string) {
+  const activeRoom = SkyOffice.getRoomByNamespaceSlug(namespaceSlug)
+  return authorizeTarget(res, { namespaceSlug, officeId: activeRoom?.getRegistryOfficeId() })
+}
+
+// the signing secret is only ever returned when the webhook is created
+const describeWebhook = ({ secret, ...webhook }: PersistedWebhook) => webhook
+
+function parseWebhookInput(body: any): { url: string; events: string[] } | string {
+  let url: URL
+  try {
+    url = new URL(String(body?.url || ''))
+  } catch {
+    return 'url must be an absolute URL'
+  }
+  const urlError = checkWebhookUrl(url)
+  if (urlError) return urlError
+
+  const events = body?.events ?? []
+  if (!Array.isArray(events)) return 'events must be an array of event types'
+  const unknownEvent = events.find(
+    (type: unknown) => !OFFICE_EVENT_TYPES.includes(type as typeof OFFICE_EVENT_TYPES[number])
+  )
+  if (unknownEvent !== undefined) {
+    return `unknown event type '${unknownEvent}', expected one of ${OFFICE_EVENT_TYPES.join(', ')}`
+  }
+  return { url: url.toString(), events: Array.from(new Set<string>(events)) }
+}
+
+app.post('/api/namespaces/:namespaceSlug/webhooks', requireWebhookManageAuth, (req, res) => {
+  const namespaceSlug = normaliseNamespaceParam(req.params.namespaceSlug)
+  if (!namespaceSlug) {
+    return res.status(400).json({ success: false, message: 'namespaceSlug is required' })
+  }
+  if (!authorizeNamespace(res, namespaceSlug)) return
+
+  const input = parseWebhookInput(req.body)
+  if (typeof input === 'string') {
+    return res.status(400).json({ success: false, message: input })
+  }
+
+  const webhook: PersistedWebhook = {
+    id: `whk_${crypto.randomBytes(8).toString('hex')}`,
+    namespaceSlug,
+    url: input.url,
+    secret: generateWebhookSecret(),
+    events: input.events,
+    active: true,
+    createdAt: new Date().toISOString(),
+  }
+  try {
+    saveWebhook(webhook)
+  } catch (err) {
+    console.error('[webhooks] Failed to save webhook', namespaceSlug, err)
+    return res.status(500).json({ success: false, message: 'Failed to save webhook' })
+  }
+  res.status(201).json({ success: true, webhook })
+})
+
+app.get('/api/namespaces/:namespaceSlug/webhooks', requireWebhookManageAuth, (req, res) => {
+  const namespaceSlug = normaliseNamespaceParam(req.params.namespaceSlug)
+  if (!authorizeNamespace(res, namespaceSlug)) return
+  res.json({ success: true, webhooks: listWebhooks(namespaceSlug).map(describeWebhook) })
+})
+
+app.delete(
+  '/api/namespaces/:namespaceSlug/webhooks/:webhookId',
+  requireWebhookManageAuth,
+  (req, res) => {
+    const namespaceSlug = normaliseNamespaceParam(req.params.namespaceSlug)
+    if (!authorizeNamespace(res, namespaceSlug)) return
+
+    const webhook = getWebhook(req.params.webhookId)
+    if (!webhook || webhook.namespaceSlug !== namespaceSlug) {
+      return res.status(404).json({ success: false, message: 'Webhook not found' })
+    }
+    removeWebhook(webhook.id)
+    res.json({ success: true, removed: true })
+  }
+)
+
+app.get(
+  '/api/namespaces/:namespaceSlug/webhooks/dead-letters',
+  requireWebhookManageAuth,
+  (req, res) => {
+    const namespaceSlug = normaliseNamespaceParam(req.params.namespaceSlug)
+    if (!authorizeNamespace(res, namespaceSlug)) return
+
+    const webhookId = typeof req.query.webhookId === 'string' ? req.query.webhookId : undefined
+    const limit = Math.min(500, Math.max(1, Math.floor(Number(req.query.limit)) || 100))
+    res.json({
+      success: true,
+      deadLetters: listWebhookDeadLetters(namespaceSlug, { webhookId, limit }),
+    })
+  }
+)
+
+app.post(
+  '/api/namespaces/:namespaceSlug/webhooks/dead-letters/:letterId/redeliver',
+  requireWebhookManageAuth,
+  (req, res) => {
+    const namespaceSlug = normaliseNamespaceParam(req.params.namespaceSlug)
+    if (!authorizeNamespace(res, namespaceSlug)) return
+
+    const letter = getWebhookDeadLetter(Number(req.params.letterId))
+    if (!letter || letter.namespaceSlug !== namespaceSlug) {
+      return res.status(404).json({ success: false, message: 'Dead letter not found' })
+    }
+    const webhook = getWebhook(letter.webhookId)
+    if (!webhook) {
+      return res.status(404).json({ success: false, message: 'Webhook not found' })
+    }
+
+    // a failed redelivery is dead-lettered again under a new id
+    removeWebhookDeadLetter(letter.id)
+    redeliverWebhookDeadLetter(webhook, letter)
+    res.status(202).json({ success: true, eventId: letter.eventId })
+  }
+)
+
+app.get('/api/namespaces/:namespaceSlug/events', requireEventsReadAuth, (req, res) => {
+  const namespaceSlug = normaliseNamespaceParam(req.params.namespaceSlug)
+  if (!namespaceSlug) {
+    return res.status(400).json({ success: false, message: 'namespaceSlug is required' })
+  }
+  if (!authorizeNamespace(res, namespaceSlug)) return
+
+  streamOfficeEvents(req, res, namespaceSlug, () => {
+    const room = SkyOffice.getRoomByNamespaceSlug(namespaceSlug)
+    return room ? room.getLiveSnapshot() : null
+  })
+})
+
+app.get('/api/namespaces/:namespaceSlug/message-stats', requireMetricsReadAuth, (req, res) => {
+  const namespaceSlug = normaliseNamespaceParam(req.params.namespaceSlug)
+  if (!authorizeNamespace(res, namespaceSlug)) return
+  const room = SkyOffice.getRoomByNamespaceSlug(namespaceSlug)
+  if (!room) {
+    return res.status(404).json({ success: false, message: 'No active room for this namespace' })
+  }
+  res.json({ success: true, roomId: room.roomId, stats: room.getMessageStats() })
+})
+
+app.get('/api/namespaces/:namespaceSlug/npcs/export', requireNpcExportAuth, (req, res) => {
+  const namespaceSlug = normaliseNamespaceParam(req.params.namespaceSlug)
+  if (!authorizeNamespace(res, namespaceSlug)) return
+  const room = SkyOffice.getRoomByNamespaceSlug(namespaceSlug)
+  if (!room) {
+    return res.status(404).json({ success: false, message: 'No active room for this namespace' })
+  }
+
+  const npcs = room.exportNpcs()
+  if (req.query.format === 'csv') {
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8')
+    res.setHeader('Content-Disposition', `attachment; filename="${namespaceSlug}-npcs.csv"`)
+    return res.send(formatNpcCsv(npcs))
+  }
+  res.json({ success: true, namespaceSlug, npcs })
+})
+
+// JSON bodies are `{ npcs: [...] }` or a bare array; `text/csv` bodies use the export columns
+app.post(
+  '/api/namespaces/:namespaceSlug/npcs/import',
+  express.text({ type: 'text/csv', limit: '1mb' }),
+  requireNpcImportAuth,
+  (req, res) => {
+    const namespaceSlug = normaliseNamespaceParam(req.params.namespaceSlug)
+    if (!authorizeNamespace(res, namespaceSlug)) return
+    const room = SkyOffice.getRoomByNamespaceSlug(namespaceSlug)
+    if (!room) {
+      return res.status(404).json({ success: false, message: 'No active room for this namespace' })
+    }
+
+    const parsed =
+      typeof req.body === 'string'
+        ? parseNpcCsv(req.body)
+        : parseNpcRecords(Array.isArray(req.body) ? req.body : req.body?.npcs)
+    if ('errors' in parsed) {
+      return res
+        .status(400)
+        .json({ success: false, message: 'Invalid NPC records', errors: parsed.errors })
+    }
+
+    const flag = (value: unknown) => value === 'true' || value === '1'
+    const dryRun = flag(req.query.dryRun)
+    const result = room.importNpcs(parsed.records, { dryRun, prune: flag(req.query.prune) })
+    if ('error' in result) {
+      const status = result.error === 'AGENT_CONFLICT' ? 409 : 500
+      return res.status(status).json({
+        success: false,
+        code: result.error,
+        message: result.message,
+        agentIds: result.agentIds,
+      })
+    }
+    res.json({ success: true, dryRun, applied: result.applied, diff: result.diff })
+  }
+)
+
+app.get('/api/namespaces/:namespaceSlug/layout', requireLayoutEditAuth, (req, res) => {
+  const namespaceSlug = normaliseNamespaceParam(req.params.namespaceSlug)
+  if (!authorizeNamespace(res, namespaceSlug)) return
+  const room = SkyOffice.getRoomByNamespaceSlug(namespaceSlug)
+  if (!room) {
+    return res.status(404).json({ success: false, message: 'No active room for this namespace' })
+  }
+  res.json({ success: true, namespaceSlug, mapId: room.getMapId(), layout: room.getLayout() })
+})
+
+// replaces the whole layout; the body is `{ layout: { moved, removed, added } }` or the bare layout
+app.put('/api/namespaces/:namespaceSlug/layout', requireLayoutEditAuth, (req, res) => {
+  const namespaceSlug = normaliseNamespaceParam(req.params.namespaceSlug)
+  if (!authorizeNamespace(res, namespaceSlug)) return
+  const room = SkyOffice.getRoomByNamespaceSlug(namespaceSlug)
+  if (!room) {
+    return res.status(404).json({ success: false, message: 'No active room for this namespace' })
+  }
+
+  const parsed = parseOfficeLayout(req.body?.layout ?? req.body, room.getMapId())
+  if (typeof parsed === 'string') {
+    return res.status(400).json({ success: false, message: parsed })
+  }
+  const result = room.updateLayout(parsed.layout)
+  if ('error' in result) {
+    return res.status(500).json({ success: false, code: result.error, message: result.message })
+  }
+  res.json({ success: true, namespaceSlug, mapId: room.getMapId(), layout: result.layout })
+})
+
+app.delete('/api/namespaces/:namespaceSlug/layout', requireLayoutEditAuth, (req, res) => {
+  const namespaceSlug = normaliseNamespaceParam(req.params.namespaceSlug)
+  if (!authorizeNamespace(res, namespaceSlug)) return
+  const room = SkyOffice.getRoomByNamespaceSlug(namespaceSlug)
+  if (!room) {
+    return res.status(404).json({ success: false, message: 'No active room for this namespace' })
+  }
+  const result = room.updateLayout(null)
+  if ('error' in result) {
+    return res.status(500).json({ success: false, code: result.error, message: result.message })
+  }
+  res.json({ success: true, namespaceSlug, mapId: room.getMapId(), layout: null })
+})
+
+app.get('/api/namespaces/:namespaceSlug/chat-commands', requireChatCommandsAuth, (req, res) => {
+  const namespaceSlug = normaliseNamespaceParam(req.params.namespaceSlug)
+  if (!authorizeNamespace(res, namespaceSlug)) return
+  const room = SkyOffice.getRoomByNamespaceSlug(namespaceSlug)
+  if (!room) {
+    return res.status(404).json({ success: false, message: 'No active room for this namespace' })
+  }
+  res.json({ success: true, namespaceSlug, commands: room.getChatCommands() })
+})
+
+// adds or replaces a custom command; the body is
+// `{ usage, description, response, broadcast, permission }`
+app.put(
+  '/api/namespaces/:namespaceSlug/chat-commands/:name',
+  requireChatCommandsAuth,
+  (req, res) => {
+    const namespaceSlug = normaliseNamespaceParam(req.params.namespaceSlug)
+    if (!authorizeNamespace(res, namespaceSlug)) return
+    const room = SkyOffice.getRoomByNamespaceSlug(namespaceSlug)
+    if (!room) {
+      return res.status(404).json({ success: false, message: 'No active room for this namespace' })
+    }
+
+    const parsed = parseCustomChatCommand(req.params.name, req.body)
+    if (typeof parsed === 'string') {
+      return res.status(400).json({ success: false, message: parsed })
+    }
+    const result = room.setChatCommand(parsed)
+    if ('error' in result) {
+      const status = result.error === 'TOO_MANY_COMMANDS' ? 409 : 500
+      return res
+        .status(status)
+        .json({ success: false, code: result.error, message: result.message })
+    }
+    res.json({ success: true, namespaceSlug, command: result.command })
+  }
+)
+
+app.delete(
+  '/api/namespaces/:namespaceSlug/chat-commands/:name',
+  requireChatCommandsAuth,
+  (req, res) => {
+    const namespaceSlug = normaliseNamespaceParam(req.params.namespaceSlug)
+    if (!authorizeNamespace(res, namespaceSlug)) return
+    const room = SkyOffice.getRoomByNamespaceSlug(namespaceSlug)
+    if (!room) {
+      return res.status(404).json({ success: false, message: 'No active room for this namespace' })
+    }
+    if (!room.removeChatCommand(String(req.params.name).toLowerCase())) {
+      return res.status(404).json({ success: false, message: 'Command not found' })
+    }
+    res.json({ success: true, removed: true })
+  }
+)
+
+// moderation through the API is audited under the agent the token was issued to
+function getModerationActor(res: express.Response): ModerationActor {
+  const agentId = getApiAuth(res)?.claims.agentId
+  return { id: `api:${agentId || 'manager'}`, name: agentId || 'management API' }
+}
+
+// mutes, unmutes, kicks or bans a player in the room; the body is
+// `{ playerId, action, durationMs, reason, banBy }` as sent by moderators in the room
+app.post(
+  '/api/namespaces/:namespaceSlug/moderation/actions',
+  requireRoomModerateAuth,
+  (req, res) => {
+    const namespaceSlug = normaliseNamespaceParam(req.params.namespaceSlug)
+    if (!authorizeNamespace(res, namespaceSlug)) return
+    const room = SkyOffice.getRoomByNamespaceSlug(namespaceSlug)
+    if (!room) {
+      return res.status(404).json({ success: false, message: 'No active room for this namespace' })
+    }
+
+    const parsed = validateClientMessage(Message.MODERATE_PLAYER, req.body)
+    if (parsed.ok === false) {
+      return res.status(400).json({ success: false, message: parsed.error })
+    }
+    const result = room.moderatePlayer(getModerationActor(res), parsed.value)
+    if ('error' in result) {
+      const statuses = {
+        PLAYER_NOT_FOUND: 404,
+        NOT_ALLOWED: 403,
+        NOT_MUTED: 409,
+        PERSISTENCE_FAILED: 500,
+      }
+      const status = statuses[result.error]
+      return res
+        .status(status)
+        .json({ success: false, code: result.error, message: result.message })
+    }
+    res.json({ success: true, message: result.message })
+  }
+)
+
+// bans are kept per namespace, so they can be listed, added and lifted while no room runs
+app.get('/api/namespaces/:namespaceSlug/moderation/bans', requireRoomModerateAuth, (req, res) => {
+  const namespaceSlug = normaliseNamespaceParam(req.params.namespaceSlug)
+  if (!authorizeNamespace(res, namespaceSlug)) return
+  res.json({ success: true, namespaceSlug, bans: listActiveBans(namespaceSlug) })
+})
+
+// bans an identity or IP address, e.g. of a player who already left;
+// the body is `{ identity, ip, durationMs, reason }`
+app.post('/api/namespaces/:namespaceSlug/moderation/bans', requireRoomModerateAuth, (req, res) => {
+  const namespaceSlug = normaliseNamespaceParam(req.params.namespaceSlug)
+  if (!authorizeNamespace(res, namespaceSlug)) return
+
+  const input = parseBanRequest(req.body)
+  if (typeof input === 'string') {
+    return res.status(400).json({ success: false, message: input })
+  }
+  let ban: PersistedBan
+  try {
+    ban = banFromNamespace(
+      namespaceSlug,
+      getModerationActor(res),
+      { name: '', identity: input.identity, ip: input.ip },
+      input.durationMs,
+      input.reason
+    )
+  } catch (err) {
+    console.error('[moderation] Failed to persist ban', namespaceSlug, err)
+    return res.status(500).json({ success: false, message: 'Failed to save the ban' })
+  }
+  SkyOffice.getRoomByNamespaceSlug(namespaceSlug)?.disconnectBanned(ban)
+  res.status(201).json({ success: true, ban })
+})
+
+app.delete(
+  '/api/namespaces/:namespaceSlug/moderation/bans/:banId',
+  requireRoomModerateAuth,
+  (req, res) => {
+    const namespaceSlug = normaliseNamespaceParam(req.params.namespaceSlug)
+    if (!authorizeNamespace(res, namespaceSlug)) return
+
+    const ban = removeBan(namespaceSlug, Number(req.params.banId))
+    if (!ban) {
+      return res.status(404).json({ success: false, message: 'Ban not found' })
+    }
+    recordModerationAction(namespaceSlug, 'unban', getModerationActor(res), ban, { banId: ban.id })
+    res.json({ success: true, removed: true })
+  }
+)
+
+// newest first; page back with `?before=<id of the oldest entry>`
+app.get('/api/namespaces/:namespaceSlug/moderation/audit', requireRoomModerateAuth, (req, res) => {
+  const namespaceSlug = normaliseNamespaceParam(req.params.namespaceSlug)
+  if (!authorizeNamespace(res, namespaceSlug)) return
+
+  const limit = Math.min(200, Math.max(1, Math.floor(Number(req.query.limit)) || 50))
+  const before = Math.floor(Number(req.query.before)) || undefined
+  const { entries, hasMore } = getModerationAudit(namespaceSlug, limit, before)
+  res.json({ success: true, namespaceSlug, entries, hasMore })
+})
+
+// gives a player in the room a role, e.g. a moderator for a room set up by the server, which has
+// no owner; the body is `{ playerId, role }` and granting 'owner' keeps any other owner
+app.put('/api/namespaces/:namespaceSlug/roles', requireRoomModerateAuth, (req, res) => {
+  const namespaceSlug = normaliseNamespaceParam(req.params.namespaceSlug)
+  if (!authorizeNamespace(res, namespaceSlug)) return
+  const room = SkyOffice.getRoomByNamespaceSlug(namespaceSlug)
+  if (!room) {
+    return res.status(404).json({ success: false, message: 'No active room for this namespace' })
+  }
+
+  const parsed = validateClientMessage(Message.SET_PLAYER_ROLE, req.body)
+  if (parsed.ok === false) {
+    return res.status(400).json({ success: false, message: parsed.error })
+  }
+  const result = room.setPlayerRole(parsed.value.playerId, parsed.value.role)
+  if ('error' in result) {
+    const status = result.error === 'PLAYER_NOT_FOUND' ? 404 : 403
+    return res.status(status).json({ success: false, code: result.error, message: result.message })
+  }
+  res.json({ success: true, message: result.message })
+})
+
 const server = http.createServer(app)
 const gameServer = new Server({
   server,
@@ -773,6 +1607,7 @@ gameServer.define(RoomType.PUBLIC, SkyOffice, {
   description: 'For making friends and familiarizing yourself with the controls',
   password: null,
   autoDispose: false,
+  serverIssued: SERVER_ISSUED_ROOM,
 })
 gameServer.define(RoomType.CUSTOM, SkyOffice).enableRealtimeListing()
 
@@ -783,6 +1618,8 @@ console.log(`Listening on ws://localhost:${port}`)
 
 // 初始化数据库并基于 Registry 同步房间
 initDb()
+startOfficeEventLog()
+startWebhookDispatcher()
 
 const REGISTRY_SYNC_INTERVAL_MS = Number(process.env.REGISTRY_SYNC_INTERVAL_MS || 60_000)
 let registrySyncInFlight = false
@@ -0,0 +1,264 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express'
+import { decodeManagerTokenClaims, verifyManagerToken, ManagerTokenPayload } from './managerToken'
+import { resolvePresenceSecret } from '../services/presenceSecret'
+
+export type ApiOperation =
+  | 'npc:deploy'
+  | 'npc:remove'
+  | 'npc:persist'
+  | 'npc:move'
+  | 'npc:schedule'
+  | 'npc:chat'
+  | 'npc:export'
+  | 'npc:import'
+  | 'namespace:destroy'
+  | 'webhook:manage'
+  | 'events:read'
+  | 'metrics:read'
+  | 'layout:edit'
+  | 'chat:moderate'
+  | 'chat:commands'
+  | 'room:moderate'
+
+export type ApiAuthErrorCode =
+  | 'AUTH_TOKEN_MISSING'
+  | 'AUTH_TOKEN_INVALID'
+  | 'AUTH_SECRET_UNAVAILABLE'
+  | 'AUTH_SCOPE_DENIED'
+  | 'AUTH_NAMESPACE_MISMATCH'
+  | 'AUTH_OFFICE_MISMATCH'
+  | 'AUTH_AGENT_MISMATCH'
+
+export interface ApiAuthContext {
+  claims: ManagerTokenPayload
+  operation: ApiOperation
+  secretSource: string
+}
+
+export interface ApiAuthTarget {
+  namespaceSlug?: string | null
+  officeId?: string | null
+  agentId?: string | null
+}
+
+interface RequireApiAuthOptions {
+  // pulls an agentId out of the request so tokens issued to one agent cannot act on another
+  agentId?: (req: Request) => string | null | undefined
+  // also accept `?token=`, for clients such as EventSource that cannot set headers
+  allowQueryToken?: boolean
+}
+
+const WILDCARD = '*'
+const DEFAULT_API_AGENT_ID = process.env.SKYOFFICE_API_AGENT_ID || 'skyoffice-api'
+
+const normalise = (value: unknown) =>
+  typeof value === 'string' && value.trim() ? value.trim().toLowerCase() : null
+
+function sendAuthError(res: Response, status: number, code: ApiAuthErrorCode, message: string) {
+  res.status(status).json({ success: false, code, message })
+}
+
+function extractBearerToken(req: Request, allowQueryToken = false): string | null {
+  const header = req.headers.authorization
+  if (typeof header !== 'string') {
+    const query = req.query.token
+    return allowQueryToken && typeof query === 'string' ? query.trim() || null : null
+  }
+  const match = header.match(/^Bearer\s+(.+)$/i)
+  return match ? match[1].trim() || null : null
+}
+
+function getScopes(claims: ManagerTokenPayload): Set<string> {
+  const raw = claims.scope
+  const entries = Array.isArray(raw) ? raw : typeof raw === 'string' ? raw.split(/\s+/) : []
+  return new Set(
+    entries.filter((entry): entry is string => typeof entry === 'string' && !!entry.trim())
+  )
+}
+
+function getClaimedNamespaces(claims: ManagerTokenPayload): string[] {
+  const values = [
+    claims.namespace,
+    claims.namespaceSlug,
+    ...(Array.isArray(claims.namespaces) ? claims.namespaces : []),
+  ]
+  return values.map(normalise).filter((value): value is string => !!value)
+}
+
+function namespaceMatches(claimed: string, target: string) {
+  if (claimed === WILDCARD || claimed === target) return true
+  const [claimedHead] = claimed.split('.')
+  const [targetHead] = target.split('.')
+  return !!claimedHead && claimedHead === targetHead
+}
+
+export function getApiAuth(res: Response): ApiAuthContext | undefined {
+  return res.locals.apiAuth as ApiAuthContext | undefined
+}
+
+export interface ApiAuthFailure {
+  status: number
+  code: ApiAuthErrorCode
+  message: string
+}
+
+const failure = (status: number, code: ApiAuthErrorCode, message: string): ApiAuthFailure => ({
+  status,
+  code,
+  message,
+})
+
+export function isApiAuthFailure(
+  result: ApiAuthContext | ApiAuthFailure | null
+): result is ApiAuthFailure {
+  return !!result && 'status' in result
+}
+
+/**
+ * Verifies a manager token and checks that its scope grants the given operation. `requestAgentId`
+ * is the agent the caller acts on, if any, so tokens issued to one agent cannot act on another.
+ */
+export async function authenticateApiToken(
+  token: string,
+  operation: ApiOperation,
+  requestAgentId?: string | null
+): Promise<ApiAuthContext | ApiAuthFailure> {
+  let unverifiedClaims: ManagerTokenPayload
+  try {
+    unverifiedClaims = decodeManagerTokenClaims(token)
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'invalid token'
+    return failure(401, 'AUTH_TOKEN_INVALID', `Invalid token (${message})`)
+  }
+
+  const agentId = normalise(requestAgentId)
+  const secretAgentId = normalise(unverifiedClaims.agentId) || agentId || DEFAULT_API_AGENT_ID
+  const officeId =
+    typeof unverifiedClaims.officeId === 'string' && unverifiedClaims.officeId.trim()
+      ? unverifiedClaims.officeId.trim()
+      : null
+
+  const secretResult = await resolvePresenceSecret(secretAgentId, officeId).catch((err) => {
+    console.error('[api-auth] Failed to resolve token secret', err)
+    return null
+  })
+  if (!secretResult?.secret) {
+    return failure(503, 'AUTH_SECRET_UNAVAILABLE', 'Token secret unavailable')
+  }
+
+  let claims: ManagerTokenPayload
+  try {
+    claims = verifyManagerToken(token, secretResult.secret)
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'invalid token'
+    return failure(401, 'AUTH_TOKEN_INVALID', `Invalid token (${message})`)
+  }
+
+  const scopes = getScopes(claims)
+  if (!scopes.has(operation) && !scopes.has(WILDCARD)) {
+    return failure(403, 'AUTH_SCOPE_DENIED', `Token scope does not allow '${operation}'`)
+  }
+
+  const claimedAgentId = normalise(claims.agentId)
+  if (agentId && claimedAgentId && claimedAgentId !== agentId) {
+    return failure(403, 'AUTH_AGENT_MISMATCH', 'Token was issued for another agent')
+  }
+
+  return { claims, operation, secretSource: secretResult.source }
+}
+
+/**
+ * Express middleware that verifies the bearer token of a management request and checks that
+ * its scope grants the given operation. Namespace and office claims are checked per route with
+ * `authorizeTarget`, once the route knows which room it is going to touch.
+ */
+export function requireApiAuth(
+  operation: ApiOperation,
+  options: RequireApiAuthOptions = {}
+): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const token = extractBearerToken(req, options.allowQueryToken)
+    if (!token) {
+      return sendAuthError(res, 401, 'AUTH_TOKEN_MISSING', 'Bearer token is required')
+    }
+
+    authenticateApiToken(token, operation, options.agentId?.(req))
+      .then((result) => {
+        if (isApiAuthFailure(result)) {
+          return sendAuthError(res, result.status, result.code, result.message)
+        }
+        res.locals.apiAuth = result
+        next()
+      })
+      .catch((err) => {
+        console.error('[api-auth] Failed to resolve token secret', err)
+        sendAuthError(res, 503, 'AUTH_SECRET_UNAVAILABLE', 'Token secret unavailable')
+      })
+  }
+}
+
+/**
+ * Checks the namespace and office claims of an authenticated token against the room it is about
+ * to act on. Returns null when the target is within the token's scope.
+ */
+export function checkApiTarget(
+  context: ApiAuthContext,
+  target: ApiAuthTarget
+): ApiAuthFailure | null {
+  const { claims } = context
+
+  const targetOfficeId = normalise(target.officeId)
+  const claimedOfficeId = normalise(claims.officeId)
+  if (targetOfficeId) {
+    const officeAllowed = claimedOfficeId
+      ? claimedOfficeId === targetOfficeId
+      : context.secretSource === 'static'
+    if (!officeAllowed) {
+      return failure(403, 'AUTH_OFFICE_MISMATCH', 'Token is not valid for this office')
+    }
+  } else if (context.secretSource !== 'static') {
+    // an office-issued secret only vouches for rooms that belong to that office
+    return failure(403, 'AUTH_OFFICE_MISMATCH', 'Target room is not bound to an office')
+  }
+
+  const targetNamespace = normalise(target.namespaceSlug)
+  const claimedNamespaces = getClaimedNamespaces(claims)
+  const namespaceAllowed = targetNamespace
+    ? claimedNamespaces.some((claimed) => namespaceMatches(claimed, targetNamespace))
+    : claimedNamespaces.includes(WILDCARD)
+  if (!namespaceAllowed) {
+    return failure(
+      403,
+      'AUTH_NAMESPACE_MISMATCH',
+      targetNamespace
+        ? `Token is not valid for namespace '${targetNamespace}'`
+        : 'Token is not valid for an unscoped target'
+    )
+  }
+
+  const targetAgentId = normalise(target.agentId)
+  const claimedAgentId = normalise(claims.agentId)
+  if (targetAgentId && claimedAgentId && claimedAgentId !== targetAgentId) {
+    return failure(403, 'AUTH_AGENT_MISMATCH', 'Token was issued for another agent')
+  }
+
+  return null
+}
+
+/**
+ * Checks the namespace and office claims of an authenticated request against the room it is
+ * about to act on. Sends a 403 and returns false when the target is outside the token's scope.
+ */
+export function authorizeTarget(res: Response, target: ApiAuthTarget): boolean {
+  const context = getApiAuth(res)
+  if (!context) {
+    sendAuthError(res, 401, 'AUTH_TOKEN_MISSING', 'Bearer token is required')
+    return false
+  }
+  const result = checkApiTarget(context, target)
+  if (result) {
+    sendAuthError(res, result.status, result.code, result.message)
+    return false
+  }
+  return true
+}
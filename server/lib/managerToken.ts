@@ -4,7 +4,9 @@ export interface ManagerTokenPayload {
   agentId?: string
   namespace?: string
   namespaceSlug?: string
+  namespaces?: string[]
   officeId?: string
+  scope?: string | string[]
   exp?: number
   iat?: number
   jti?: string
@@ -23,6 +25,25 @@ function decodeBase64UrlSegment(segment: string): string {
   return Buffer.from(padded, 'base64').toString('utf8')
 }
 
+/**
+ * Reads the claims of a token without checking its signature. Only use this to locate the
+ * secret that the token must then be verified against.
+ */
+export function decodeManagerTokenClaims(token: string): ManagerTokenPayload {
+  if (!token || typeof token !== 'string') {
+    throw new Error('Token is required')
+  }
+  const parts = token.split('.')
+  if (parts.length !== 3) {
+    throw new Error('Invalid token format')
+  }
+  const payload = JSON.parse(decodeBase64UrlSegment(parts[1]))
+  if (!payload || typeof payload !== 'object') {
+    throw new Error('Invalid token payload')
+  }
+  return payload as ManagerTokenPayload
+}
+
 export function verifyManagerToken(token: string, secret: string): ManagerTokenPayload {
   if (!token || typeof token !== 'string') {
     throw new Error('Token is required')
@@ -0,0 +1,133 @@
+import { getTiledItems } from '../../types/Items'
+import { MapArea, readMapAreas } from '../../types/ChatChannels'
+import { MapSource, getMapSource } from './OfficeMapSource'
+
+export type Direction = 'up' | 'down' | 'left' | 'right'
+
+export interface Point {
+  x: number
+  y: number
+}
+
+export interface MapObject extends Point {
+  // `itemId` property of computers and whiteboards, the index within its layer for chairs
+  id: string
+  width: number
+  height: number
+}
+
+export interface ChairObject extends MapObject {
+  direction: Direction
+}
+
+// mirrors sittingShiftData in client/src/characters/Player.ts
+const SITTING_SHIFT: Record<Direction, Point> = {
+  up: { x: 0, y: 3 },
+  down: { x: 0, y: 3 },
+  left: { x: 0, y: -8 },
+  right: { x: 0, y: -8 },
+}
+
+interface MapObjectCatalog {
+  chairs: ChairObject[]
+  computers: MapObject[]
+  whiteboards: MapObject[]
+  areas: MapArea[]
+}
+
+// keyed by source, so a layout change rebuilds the catalog of the namespace
+const catalogs = new WeakMap<MapSource, MapObjectCatalog>()
+
+function toDirection(value: unknown): Direction {
+  return value === 'up' || value === 'left' || value === 'right' ? value : 'down'
+}
+
+// Tiled places tile objects by their bottom-left corner; the client centers them
+function toMapObject(obj: any, id: string): MapObject {
+  const width = Number(obj?.width) || 0
+  const height = Number(obj?.height) || 0
+  return {
+    id,
+    x: (Number(obj?.x) || 0) + width / 2,
+    y: (Number(obj?.y) || 0) - height / 2,
+    width,
+    height,
+  }
+}
+
+function loadCatalog({ map, data }: MapSource): MapObjectCatalog {
+  const layers: any[] = Array.isArray(data?.layers) ? data.layers : []
+  const objectsOf = (name: string): any[] => {
+    const layer = layers.find((candidate) => candidate?.name === name)
+    return Array.isArray(layer?.objects) ? layer.objects : []
+  }
+
+  const itemsOf = (name: string): MapObject[] =>
+    getTiledItems(objectsOf(name), (id) =>
+      console.warn(`[map-objects] Duplicate ${name} itemId '${id}' in map '${map.id}', skipping`)
+    ).map(({ id, object }) => toMapObject(object, id))
+
+  return {
+    chairs: objectsOf('Chair').map((obj, index) => ({
+      ...toMapObject(obj, String(index)),
+      // custom properties[0] is the chair direction specified in Tiled
+      direction: toDirection(obj?.properties?.[0]?.value),
+    })),
+    computers: itemsOf('Computer'),
+    whiteboards: itemsOf('Whiteboard'),
+    areas: readMapAreas(data),
+  }
+}
+
+function getCatalog(mapKey?: string): MapObjectCatalog {
+  const source = getMapSource(mapKey)
+  let catalog = catalogs.get(source)
+  if (!catalog) {
+    catalog = loadCatalog(source)
+    catalogs.set(source, catalog)
+  }
+  return catalog
+}
+
+export function getChairs(mapKey?: string): ChairObject[] {
+  return getCatalog(mapKey).chairs
+}
+
+export function getComputers(mapKey?: string): MapObject[] {
+  return getCatalog(mapKey).computers
+}
+
+export function getWhiteboards(mapKey?: string): MapObject[] {
+  return getCatalog(mapKey).whiteboards
+}
+
+export function getAreas(mapKey?: string): MapArea[] {
+  return getCatalog(mapKey).areas
+}
+
+export function getComputer(computerId: string, mapKey?: string): MapObject | undefined {
+  return getCatalog(mapKey).computers.find((computer) => computer.id === computerId)
+}
+
+export function getWhiteboard(whiteboardId: string, mapKey?: string): MapObject | undefined {
+  return getCatalog(mapKey).whiteboards.find((whiteboard) => whiteboard.id === whiteboardId)
+}
+
+export function findNearestChair(point: Point, mapKey?: string): ChairObject | undefined {
+  let nearest: ChairObject | undefined
+  let nearestDistance = Infinity
+  getCatalog(mapKey).chairs.forEach((chair) => {
+    const distance = Math.hypot(chair.x - point.x, chair.y - point.y)
+    if (distance < nearestDistance) {
+      nearest = chair
+      nearestDistance = distance
+    }
+  })
+  return nearest
+}
+
+// where a player stands once seated on the chair, matching MyPlayer's sit behaviour
+export function getSittingPosition(chair: ChairObject): Point {
+  const shift = SITTING_SHIFT[chair.direction]
+  return { x: chair.x + shift.x, y: chair.y + shift.y }
+}
@@ -0,0 +1,93 @@
+import { isMovementPointWalkable } from './WalkableMap'
+
+// matches the client's player speed (px/s) in MyPlayer.update
+export const PLAYER_SPEED = 200
+// headroom for frame timing and network jitter on top of the nominal speed
+const SPEED_SLACK = 1.5
+// the most distance a client can bank while idle or lagging, enough to flush a one second burst
+const MAX_DISTANCE_BUDGET = PLAYER_SPEED * SPEED_SLACK
+// the arcade body sits at the bottom of the 32x48 sprite, so collisions happen around the feet
+const FEET_OFFSET_Y = 19
+// objects are rasterised to whole tiles, so allow the feet to reach slightly into a blocked tile
+const FEET_TOLERANCE = 6
+// distance between collision samples along a movement segment
+const SAMPLE_STEP = 8
+
+interface Point {
+  x: number
+  y: number
+}
+
+interface MovementTrack {
+  budget: number
+  updatedAt: number
+}
+
+export type MovementVerdict = { ok: true } | { ok: false; reason: string }
+
+/**
+ * Tracks how far each player may still move and checks position updates against the client
+ * collision layers of the walkable grid, so a client cannot teleport or walk through walls.
+ */
+export class MovementValidator {
+  private tracks = new Map<string, MovementTrack>()
+
+  // map key (see OfficeMapSource) whose collision layers apply; the default map when omitted
+  constructor(private readonly mapKey?: string) {}
+
+  validate(sessionId: string, from: Point, to: Point, now = Date.now()): MovementVerdict {
+    const track = this.getTrack(sessionId, now)
+    const elapsed = Math.max(0, now - track.updatedAt) / 1000
+    const budget = Math.min(
+      MAX_DISTANCE_BUDGET,
+      track.budget + PLAYER_SPEED * SPEED_SLACK * elapsed
+    )
+    track.budget = budget
+    track.updatedAt = now
+
+    const distance = Math.hypot(to.x - from.x, to.y - from.y)
+    if (distance > budget) {
+      const reason = `moved ${Math.round(distance)}px, allowed ${Math.round(budget)}px`
+      return { ok: false, reason }
+    }
+    if (!this.isSegmentWalkable(from, to, distance)) {
+      return { ok: false, reason: `path to (${Math.round(to.x)}, ${Math.round(to.y)}) is blocked` }
+    }
+
+    track.budget = budget - distance
+    return { ok: true }
+  }
+
+  // forget the history of a player, e.g. when it leaves or the server moves it
+  reset(sessionId: string) {
+    this.tracks.delete(sessionId)
+  }
+
+  private getTrack(sessionId: string, now: number) {
+    let track = this.tracks.get(sessionId)
+    if (!track) {
+      track = { budget: MAX_DISTANCE_BUDGET, updatedAt: now }
+      this.tracks.set(sessionId, track)
+    }
+    return track
+  }
+
+  private isSegmentWalkable(from: Point, to: Point, distance: number) {
+    const steps = Math.max(1, Math.ceil(distance / SAMPLE_STEP))
+    for (let i = 1; i <= steps; i += 1) {
+      const t = i / steps
+      const point = { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t }
+      if (!this.isFeetWalkable(point)) return false
+    }
+    return true
+  }
+
+  private isFeetWalkable(position: Point) {
+    const feetX = position.x
+    const feetY = position.y + FEET_OFFSET_Y
+    const offsets = [-FEET_TOLERANCE, 0, FEET_TOLERANCE]
+    return offsets.some((dx) =>
+      offsets.some((dy) => isMovementPointWalkable({ x: feetX + dx, y: feetY + dy }, this.mapKey))
+    )
+  }
+}
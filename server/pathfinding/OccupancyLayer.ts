@@ -0,0 +1,27 @@
+import { Point } from './MapObjects'
+
+// extra cost, in tiles, of entering a tile someone stands on: paths take a detour of up to this
+// many tiles around a player, but still walk past one in a narrow corridor
+export const PLAYER_TILE_COST = 4
+
+/**
+ * Where players stand and which seats are taken at one moment in a room. Pathfinding treats
+ * occupied tiles as a soft cost rather than a wall, since players move on before anyone arrives.
+ */
+export class OccupancyLayer {
+  private tileCosts = new Map<string, number>()
+  readonly occupiedChairs = new Set<string>()
+  readonly occupiedComputers = new Set<string>()
+
+  constructor(private readonly tileWidth: number, private readonly tileHeight: number) {}
+
+  addPlayer(point: Point) {
+    const key = `${Math.floor(point.x / this.tileWidth)},${Math.floor(point.y / this.tileHeight)}`
+    this.tileCosts.set(key, (this.tileCosts.get(key) ?? 0) + PLAYER_TILE_COST)
+  }
+
+  // takes grid tiles, as used by WalkableMap
+  getCost(tile: Point): number {
+    return this.tileCosts.get(`${tile.x},${tile.y}`) ?? 0
+  }
+}
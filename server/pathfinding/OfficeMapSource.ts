@@ -0,0 +1,154 @@
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import { DEFAULT_MAP_ID, OfficeMap, getOfficeMap } from '../../types/OfficeMaps'
+import {
+  LAYOUT_DECOR_LAYERS,
+  OfficeLayout,
+  applyOfficeLayout,
+  isLayoutDecorLayer,
+  isLayoutEditableLayer,
+} from '../../types/OfficeLayout'
+
+/**
+ * The Tiled data a room's grids and map objects are built from. A new source object is created
+ * whenever a layout changes, so caches keyed by the source rebuild on their own.
+ */
+export interface MapSource {
+  map: OfficeMap
+  data: any
+  // sha256 of the map file, only set for unmodified maps
+  hash?: string
+  layout: OfficeLayout | null
+}
+
+const PUBLIC_ASSETS_DIR = path.join(__dirname, '..', '..', 'client', 'public')
+const MAX_LAYOUT_CHANGES = 1000
+
+const baseSources = new Map<string, MapSource>()
+// sources of namespaces with a layout, keyed `<mapId>@<namespace>`
+const layoutSources = new Map<string, MapSource>()
+
+function getBaseSource(mapId: string): MapSource {
+  const map = getOfficeMap(mapId)
+  if (!map) throw new Error(`unknown map '${mapId}'`)
+  let source = baseSources.get(map.id)
+  if (!source) {
+    const raw = fs.readFileSync(path.join(PUBLIC_ASSETS_DIR, map.tilemap), 'utf-8')
+    source = {
+      map,
+      data: JSON.parse(raw),
+      hash: crypto.createHash('sha256').update(raw).digest('hex'),
+      layout: null,
+    }
+    baseSources.set(map.id, source)
+  }
+  return source
+}
+
+/** Resolves a map key, either a map id or a key returned by `setNamespaceLayout`. */
+export function getMapSource(mapKey = DEFAULT_MAP_ID): MapSource {
+  return layoutSources.get(mapKey) ?? getBaseSource(mapKey.split('@')[0])
+}
+
+/**
+ * Applies a namespace layout on top of its base map and returns the map key to look the result
+ * up with. The key stays the same when the layout changes or is cleared later on.
+ */
+export function setNamespaceLayout(
+  namespaceSlug: string,
+  mapId: string,
+  layout: OfficeLayout | null
+): string {
+  const base = getBaseSource(mapId)
+  const mapKey = `${base.map.id}@${namespaceSlug}`
+  if (layout) {
+    layoutSources.set(mapKey, { map: base.map, data: applyOfficeLayout(base.data, layout), layout })
+  } else {
+    layoutSources.delete(mapKey)
+  }
+  return mapKey
+}
+
+export function clearNamespaceLayout(mapKey: string) {
+  layoutSources.delete(mapKey)
+}
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value)
+
+/**
+ * Validates a layout against the base map it is meant for: moved and removed objects must exist
+ * on an editable layer, added frames must exist in the layer's tileset and every position must
+ * lie on the map.
+ */
+export function parseOfficeLayout(input: any, mapId: string): { layout: OfficeLayout } | string {
+  if (!input || typeof input !== 'object') return 'layout must be an object'
+  const { map, data } = getBaseSource(mapId)
+  if (input.mapId !== undefined && getOfficeMap(input.mapId)?.id !== map.id) {
+    return `layout is for map '${input.mapId}', the room uses '${map.id}'`
+  }
+
+  const mapWidth = Number(data.width) * Number(data.tilewidth)
+  const mapHeight = Number(data.height) * Number(data.tileheight)
+  const isOnMap = (position: any) =>
+    isFiniteNumber(position?.x) &&
+    isFiniteNumber(position?.y) &&
+    position.x >= 0 &&
+    position.x < mapWidth &&
+    position.y > 0 &&
+    position.y <= mapHeight
+
+  // editable base map objects by Tiled id, with the name of their layer
+  const objectLayers = new Map<number, string>()
+  const layers: any[] = data.layers
+  layers.forEach((layer) => {
+    if (layer?.type !== 'objectgroup' || !isLayoutEditableLayer(layer.name)) return
+    const objects: any[] = layer.objects
+    objects.forEach((object) => objectLayers.set(Number(object?.id), layer.name))
+  })
+
+  const moved = input.moved ?? {}
+  const removed = input.removed ?? []
+  const added = input.added ?? []
+  if (typeof moved !== 'object' || Array.isArray(moved)) return 'moved must be an object'
+  if (!Array.isArray(removed)) return 'removed must be an array of object ids'
+  if (!Array.isArray(added)) return 'added must be an array'
+  if (Object.keys(moved).length + removed.length + added.length > MAX_LAYOUT_CHANGES) {
+    return `a layout can hold at most ${MAX_LAYOUT_CHANGES} changes`
+  }
+
+  const layout: OfficeLayout = { mapId: map.id, moved: {}, removed: [], added: [] }
+  for (const [objectId, position] of Object.entries<any>(moved)) {
+    if (!objectLayers.has(Number(objectId))) return `moved object ${objectId} is not editable`
+    if (!isOnMap(position)) return `moved object ${objectId} must be placed on the map`
+    layout.moved[String(Number(objectId))] = { x: position.x, y: position.y }
+  }
+  for (const objectId of removed) {
+    if (!isLayoutDecorLayer(objectLayers.get(objectId))) {
+      return `removed object ${objectId} is not a decor object`
+    }
+    if (!layout.removed.includes(objectId)) layout.removed.push(objectId)
+  }
+
+  const addedIds = new Set<string>()
+  for (const object of added) {
+    const id = typeof object?.id === 'string' ? object.id.trim() : ''
+    if (!id || id.length > 64) return 'added objects need an id of at most 64 characters'
+    if (addedIds.has(id)) return `duplicate added object id '${id}'`
+    const layer = object.layer
+    if (!isLayoutDecorLayer(layer)) {
+      return `added object '${id}' must be on one of ${Object.keys(LAYOUT_DECOR_LAYERS).join(', ')}`
+    }
+    const tilesets: any[] = data.tilesets
+    const tileset = tilesets.find((candidate) => candidate?.name === LAYOUT_DECOR_LAYERS[layer])
+    const frame = object.frame
+    if (!Number.isInteger(frame) || frame < 0 || !tileset || frame >= Number(tileset.tilecount)) {
+      return `added object '${id}' has no frame ${frame} in its tileset`
+    }
+    if (!isOnMap(object)) return `added object '${id}' must be placed on the map`
+    addedIds.add(id)
+    layout.added.push({ id, layer, frame, x: object.x, y: object.y })
+  }
+  return { layout }
+}
@@ -4,10 +4,14 @@ var __importDefault = (this && this.__importDefault) || function (mod) {
 };
 Object.defineProperty(exports, "__esModule", { value: true });
 exports.findPath = findPath;
+exports.findRoute = findRoute;
+exports.getTileCosts = getTileCosts;
 exports.getMapMetadata = getMapMetadata;
+exports.isMovementPointWalkable = isMovementPointWalkable;
 const crypto_1 = __importDefault(require("crypto"));
 const fs_1 = __importDefault(require("fs"));
 const path_1 = __importDefault(require("path"));
+const OfficeMapSource_1 = require("./OfficeMapSource");
 const BLOCKING_LAYERS = new Set([
     'Wall',
     'Objects',
@@ -19,6 +23,27 @@ const BLOCKING_LAYERS = new Set([
     'VendingMachine',
     'Chair',
 ]);
+// players only collide with these object layers (plus colliding Ground tiles) on the client, so
+// movement validation must not treat chairs, computers or whiteboards as obstacles
+const MOVEMENT_BLOCKING_LAYERS = new Set([
+    'ObjectsOnCollide',
+    'GenericObjectsOnCollide',
+    'Basement',
+    'VendingMachine',
+]);
+const ORTHOGONAL_DIRECTIONS = [
+    { x: 1, y: 0 },
+    { x: -1, y: 0 },
+    { x: 0, y: 1 },
+    { x: 0, y: -1 },
+];
+const DIAGONAL_DIRECTIONS = [
+    ...ORTHOGONAL_DIRECTIONS,
+    { x: 1, y: 1 },
+    { x: 1, y: -1 },
+    { x: -1, y: 1 },
+    { x: -1, y: -1 },
+];
 class WalkableMap {
     constructor(grid, width, height, tileWidth, tileHeight) {
         this.grid = grid;
@@ -30,10 +55,12 @@ class WalkableMap {
     getTileMetadata() {
         return { tileWidth: this.tileWidth, tileHeight: this.tileHeight };
     }
-    static fromTiledJson(jsonPath) {
+    static fromTiledJson(jsonPath, blockingLayers = BLOCKING_LAYERS) {
         const absolute = path_1.default.resolve(jsonPath);
         const file = fs_1.default.readFileSync(absolute, 'utf-8');
-        const data = JSON.parse(file);
+        return WalkableMap.fromTiledData(JSON.parse(file), blockingLayers);
+    }
+    static fromTiledData(data, blockingLayers = BLOCKING_LAYERS) {
         const { width, height, tilewidth, tileheight } = data;
         const grid = Array.from({ length: height }, () => Array(width).fill(0));
         const blockingGids = WalkableMap.extractBlockingGids(data.tilesets);
@@ -198,7 +225,7 @@ class WalkableMap {
         data.layers.forEach((layer) => {
             if (!layer || typeof layer !== 'object')
                 return;
-            if (!BLOCKING_LAYERS.has(layer.name))
+            if (!blockingLayers.has(layer.name))
                 return;
             if (!Array.isArray(layer.objects))
                 return;
@@ -289,18 +316,83 @@ class WalkableMap {
             return false;
         return this.grid[tile.y][tile.x] === 0;
     }
-    findPath(start, target) {
-        const startTile = this.toTile(start);
-        const targetTile = this.toTile(target);
-        if (startTile.x === targetTile.x && startTile.y === targetTile.y) {
-            return [this.toPixel(targetTile)];
+    isPointWalkable(point) {
+        if (!Number.isFinite(point.x) || !Number.isFinite(point.y))
+            return false;
+        return this.isWalkable({
+            x: Math.floor(point.x / this.tileWidth),
+            y: Math.floor(point.y / this.tileHeight),
+        });
+    }
+    // walks every tile the segment between two tile centres touches; diagonal steps through a
+    // corner need both tiles beside the corner to be walkable, like diagonal path steps do.
+    // Occupied tiles block the line too, so smoothing never cuts through other players
+    hasLineOfSight(from, to, occupancy) {
+        const isClear = (tile) => this.isWalkable(tile) && !(occupancy && occupancy.getCost(tile) > 0);
+        const nx = Math.abs(to.x - from.x);
+        const ny = Math.abs(to.y - from.y);
+        const stepX = Math.sign(to.x - from.x);
+        const stepY = Math.sign(to.y - from.y);
+        let x = from.x;
+        let y = from.y;
+        let ix = 0;
+        let iy = 0;
+        while (ix < nx || iy < ny) {
+            const decision = (1 + 2 * ix) * ny - (1 + 2 * iy) * nx;
+            if (decision === 0) {
+                if (!isClear({ x: x + stepX, y }) || !isClear({ x, y: y + stepY }))
+                    return false;
+                x += stepX;
+                y += stepY;
+                ix += 1;
+                iy += 1;
+            }
+            else if (decision < 0) {
+                x += stepX;
+                ix += 1;
+            }
+            else {
+                y += stepY;
+                iy += 1;
+            }
+            if (!isClear({ x, y }))
+                return false;
         }
+        return true;
+    }
+    // string pulling: drops every waypoint the previous kept waypoint can see past
+    smoothTiles(tiles, occupancy) {
+        if (tiles.length <= 2)
+            return tiles;
+        const smoothed = [tiles[0]];
+        let anchor = tiles[0];
+        for (let i = 2; i < tiles.length; i += 1) {
+            if (!this.hasLineOfSight(anchor, tiles[i], occupancy)) {
+                anchor = tiles[i - 1];
+                smoothed.push(anchor);
+            }
+        }
+        smoothed.push(tiles[tiles.length - 1]);
+        return smoothed;
+    }
+    /**
+     * A* from a start tile, or Dijkstra over every reachable tile without a target. Diagonal
+     * steps never cut a blocked corner; an occupancy layer adds its cost for entering a tile.
+     */
+    search(startTile, targetTile, diagonal, occupancy) {
         const openSet = new Map();
         const gScore = new Map();
         const cameFrom = new Map();
         const tileByKey = new Map();
         const closedSet = new Set();
-        const heuristic = (tile) => Math.abs(tile.x - targetTile.x) + Math.abs(tile.y - targetTile.y);
+        const heuristic = (tile) => {
+            if (!targetTile)
+                return 0;
+            const dx = Math.abs(tile.x - targetTile.x);
+            const dy = Math.abs(tile.y - targetTile.y);
+            // octile distance when diagonal steps are allowed, Manhattan distance otherwise
+            return diagonal ? dx + dy + (Math.SQRT2 - 2) * Math.min(dx, dy) : dx + dy;
+        };
         const initialKey = this.tileKey(startTile);
         openSet.set(initialKey, {
             tile: startTile,
@@ -309,35 +401,24 @@ class WalkableMap {
         gScore.set(initialKey, 0);
         cameFrom.set(initialKey, undefined);
         tileByKey.set(initialKey, startTile);
-        const directions = [
-            { x: 1, y: 0 },
-            { x: -1, y: 0 },
-            { x: 0, y: 1 },
-            { x: 0, y: -1 },
-        ];
+        const directions = diagonal ? DIAGONAL_DIRECTIONS : ORTHOGONAL_DIRECTIONS;
+        let endKey = null;
         while (openSet.size > 0) {
             let currentKey = null;
             let currentNode = null;
             openSet.forEach((node, key) => {
-                var _a;
-                if (!currentNode || node.f < ((_a = currentNode === null || currentNode === void 0 ? void 0 : currentNode.f) !== null && _a !== void 0 ? _a : Infinity)) {
+                if (!currentNode || node.f < currentNode.f) {
                     currentNode = node;
                     currentKey = key;
                 }
             });
             if (!currentNode || currentKey === null)
                 break;
-            if (currentNode.tile.x === targetTile.x && currentNode.tile.y === targetTile.y) {
-                const pathTiles = [];
-                let key = currentKey;
-                while (key) {
-                    const tile = tileByKey.get(key);
-                    if (tile)
-                        pathTiles.push(tile);
-                    key = cameFrom.get(key);
-                }
-                pathTiles.reverse();
-                return pathTiles.map((tile) => this.toPixel(tile));
+            if (targetTile &&
+                currentNode.tile.x === targetTile.x &&
+                currentNode.tile.y === targetTile.y) {
+                endKey = currentKey;
+                break;
             }
             openSet.delete(currentKey);
             closedSet.add(currentKey);
@@ -349,7 +430,14 @@ class WalkableMap {
                     return;
                 if (!this.isWalkable(neighbor))
                     return;
-                const tentativeG = ((_a = gScore.get(currentKey)) !== null && _a !== void 0 ? _a : Infinity) + 1;
+                const isDiagonal = dir.x !== 0 && dir.y !== 0;
+                if (isDiagonal &&
+                    (!this.isWalkable({ x: currentNode.tile.x + dir.x, y: currentNode.tile.y }) ||
+                        !this.isWalkable({ x: currentNode.tile.x, y: currentNode.tile.y + dir.y }))) {
+                    return;
+                }
+                const stepCost = (isDiagonal ? Math.SQRT2 : 1) + (occupancy ? occupancy.getCost(neighbor) : 0);
+                const tentativeG = ((_a = gScore.get(currentKey)) !== null && _a !== void 0 ? _a : Infinity) + stepCost;
                 const existingG = gScore.get(neighborKey);
                 if (existingG !== undefined && tentativeG >= existingG)
                     return;
@@ -363,11 +451,80 @@ class WalkableMap {
                 });
             });
         }
-        return null;
+        return { gScore, cameFrom, tileByKey, endKey };
+    }
+    findPath(start, target, options) {
+        const route = this.findRoute(start, target, options);
+        return route ? route.path : null;
+    }
+    /**
+     * Plans a path over the tile grid. `diagonal` allows 8-directional steps, `smooth` removes
+     * waypoints with a clear line of sight between their neighbours, `nearest` ends at the
+     * reachable tile closest to a blocked or unreachable target and `occupancy` makes occupied
+     * tiles more expensive without blocking them. The cost is the length of the path in tiles
+     * plus the occupancy cost of the tiles it enters.
+     */
+    findRoute(start, target, { diagonal = false, smooth = false, nearest = false, occupancy = null } = {}) {
+        const startTile = this.toTile(start);
+        const targetTile = this.toTile(target);
+        if (startTile.x === targetTile.x && startTile.y === targetTile.y) {
+            const point = this.toPixel(targetTile);
+            return { path: [point], cost: 0, target: point, targetAdjusted: false };
+        }
+        const { gScore, cameFrom, tileByKey, endKey: reachedKey } = this.search(startTile, targetTile, diagonal, occupancy);
+        let endKey = reachedKey;
+        if (endKey === null) {
+            if (!nearest)
+                return null;
+            // every tile with a score was reached; take the one closest to the target
+            let bestDistance = Infinity;
+            gScore.forEach((g, key) => {
+                const tile = tileByKey.get(key);
+                const distance = Math.pow(tile.x - targetTile.x, 2) + Math.pow(tile.y - targetTile.y, 2);
+                if (distance < bestDistance ||
+                    (distance === bestDistance && g < gScore.get(endKey))) {
+                    bestDistance = distance;
+                    endKey = key;
+                }
+            });
+            if (endKey === null)
+                return null;
+        }
+        let pathTiles = [];
+        let key = endKey;
+        while (key) {
+            const tile = tileByKey.get(key);
+            if (tile)
+                pathTiles.push(tile);
+            key = cameFrom.get(key);
+        }
+        pathTiles.reverse();
+        let cost = 0;
+        if (occupancy) {
+            pathTiles.slice(1).forEach((tile) => {
+                cost += occupancy.getCost(tile);
+            });
+        }
+        if (smooth) {
+            pathTiles = this.smoothTiles(pathTiles, occupancy);
+        }
+        for (let i = 1; i < pathTiles.length; i += 1) {
+            cost += Math.hypot(pathTiles[i].x - pathTiles[i - 1].x, pathTiles[i].y - pathTiles[i - 1].y);
+        }
+        const endTile = pathTiles[pathTiles.length - 1];
+        return {
+            path: pathTiles.map((tile) => this.toPixel(tile)),
+            cost,
+            target: this.toPixel(endTile),
+            targetAdjusted: endTile.x !== targetTile.x || endTile.y !== targetTile.y,
+        };
+    }
+    // cost of the cheapest path from a point to every reachable tile, keyed like tileKey
+    getTileCosts(start, { diagonal = false, occupancy = null } = {}) {
+        return this.search(this.toTile(start), null, diagonal, occupancy).gScore;
     }
 }
-const DEFAULT_MAP_PATH = path_1.default.join(__dirname, '..', '..', 'client', 'public', 'assets', 'map', 'map.json');
-const DEFAULT_GRID_PATH = path_1.default.join(__dirname, '..', '..', 'client', 'public', 'assets', 'map', 'walkable-grid.json');
+const PUBLIC_ASSETS_DIR = path_1.default.join(__dirname, '..', '..', 'client', 'public');
 function computeGridHash(grid) {
     return crypto_1.default.createHash('sha256').update(JSON.stringify(grid)).digest('hex');
 }
@@ -413,47 +570,59 @@ function loadPrecomputedGrid(filePath, expected) {
     console.log(`[walkable-map] loaded precomputed grid ${width}x${height} (tile ${tileWidth}x${tileHeight}) version=${data.version || 'n/a'} generatedAt=${data.generatedAt || 'n/a'} mapHash=${data.mapHash || 'n/a'} gridHash=${data.gridHash || computedGridHash}`);
     return new WalkableMap(grid, width, height, tileWidth, tileHeight);
 }
-function buildDefaultMap() {
-    let mapRaw = null;
-    let mapData = null;
-    let mapHash;
-    try {
-        mapRaw = fs_1.default.readFileSync(DEFAULT_MAP_PATH, 'utf-8');
-        mapHash = crypto_1.default.createHash('sha256').update(mapRaw).digest('hex');
-        mapData = JSON.parse(mapRaw);
-    }
-    catch (err) {
-        console.warn('[walkable-map] failed to parse map.json for metadata validation', err);
-        mapRaw = null;
-        mapData = null;
-        mapHash = undefined;
-    }
-    if (mapData) {
-        const precomputed = loadPrecomputedGrid(DEFAULT_GRID_PATH, {
-            width: mapData.width,
-            height: mapData.height,
-            tileWidth: mapData.tilewidth,
-            tileHeight: mapData.tileheight,
-            mapHash,
+function buildMap(source) {
+    const { map, data, hash } = source;
+    // a precomputed grid only matches the unmodified map it was exported from
+    if (map.walkableGrid && !source.layout) {
+        const gridPath = path_1.default.join(PUBLIC_ASSETS_DIR, map.walkableGrid);
+        const precomputed = loadPrecomputedGrid(gridPath, {
+            width: data.width,
+            height: data.height,
+            tileWidth: data.tilewidth,
+            tileHeight: data.tileheight,
+            mapHash: hash,
         });
         if (precomputed) {
             return precomputed;
         }
+        console.warn(`[walkable-map] precomputed grid missing for '${map.id}'; rebuilding from Tiled json`);
     }
-    else {
-        const precomputed = loadPrecomputedGrid(DEFAULT_GRID_PATH);
-        if (precomputed) {
-            console.warn('[walkable-map] precomputed grid loaded without map metadata validation');
-            return precomputed;
-        }
+    return WalkableMap.fromTiledData(data);
+}
+// grids are built the first time a room needs them and shared by all rooms on the same source;
+// a layout change creates a new source, which leaves the old grids to the garbage collector
+const walkableMaps = new WeakMap();
+const movementMaps = new WeakMap();
+function getWalkableMap(mapKey) {
+    const source = (0, OfficeMapSource_1.getMapSource)(mapKey);
+    let walkableMap = walkableMaps.get(source);
+    if (!walkableMap) {
+        walkableMap = buildMap(source);
+        walkableMaps.set(source, walkableMap);
+    }
+    return walkableMap;
+}
+function getMovementMap(mapKey) {
+    const source = (0, OfficeMapSource_1.getMapSource)(mapKey);
+    let movementMap = movementMaps.get(source);
+    if (!movementMap) {
+        movementMap = WalkableMap.fromTiledData(source.data, MOVEMENT_BLOCKING_LAYERS);
+        movementMaps.set(source, movementMap);
     }
-    console.warn('[walkable-map] precomputed grid missing; rebuilding from Tiled json');
-    return WalkableMap.fromTiledJson(DEFAULT_MAP_PATH);
+    return movementMap;
+}
+function findPath(start, target, mapKey, options) {
+    return getWalkableMap(mapKey).findPath(start, target, options);
+}
+function findRoute(start, target, mapKey, options) {
+    return getWalkableMap(mapKey).findRoute(start, target, options);
+}
+function getTileCosts(start, mapKey, options) {
+    return getWalkableMap(mapKey).getTileCosts(start, options);
 }
-const walkableMap = buildDefaultMap();
-function findPath(start, target) {
-    return walkableMap.findPath(start, target);
+function getMapMetadata(mapKey) {
+    return getWalkableMap(mapKey).getTileMetadata();
 }
-function getMapMetadata() {
-    return walkableMap.getTileMetadata();
+function isMovementPointWalkable(point, mapKey) {
+    return getMovementMap(mapKey).isPointWalkable(point);
 }
@@ -0,0 +1,73 @@
+import { getDb } from './db'
+import { CustomChatCommand } from '../../types/ChatCommands'
+
+export interface PersistedChatCommand extends CustomChatCommand {
+  namespaceSlug: string
+  updatedAt: string
+}
+
+type ChatCommandRow = Omit<PersistedChatCommand, 'broadcast'> & { broadcast: number }
+
+function ensureChatCommandTable() {
+  const db = getDb()
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS chat_commands (
+      namespaceSlug TEXT NOT NULL,
+      name TEXT NOT NULL,
+      usage TEXT NOT NULL,
+      description TEXT NOT NULL,
+      response TEXT NOT NULL,
+      broadcast INTEGER NOT NULL DEFAULT 0,
+      permission TEXT NOT NULL,
+      updatedAt TEXT NOT NULL,
+      PRIMARY KEY (namespaceSlug, name)
+    );
+  `)
+  return db
+}
+
+function toChatCommand(row: ChatCommandRow): PersistedChatCommand {
+  return { ...row, broadcast: !!row.broadcast }
+}
+
+export function saveChatCommand(namespaceSlug: string, command: CustomChatCommand) {
+  const db = ensureChatCommandTable()
+  db.prepare(
+    `INSERT OR REPLACE INTO chat_commands
+       (namespaceSlug, name, usage, description, response, broadcast, permission, updatedAt)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    namespaceSlug,
+    command.name,
+    command.usage,
+    command.description,
+    command.response,
+    command.broadcast ? 1 : 0,
+    command.permission,
+    new Date().toISOString()
+  )
+}
+
+export function listChatCommands(namespaceSlug: string): PersistedChatCommand[] {
+  if (!namespaceSlug) return []
+  const db = ensureChatCommandTable()
+  const rows = db
+    .prepare('SELECT * FROM chat_commands WHERE namespaceSlug = ? ORDER BY name')
+    .all(namespaceSlug) as ChatCommandRow[]
+  return rows.map(toChatCommand)
+}
+
+export function removeChatCommand(namespaceSlug: string, name: string): boolean {
+  const db = ensureChatCommandTable()
+  const result = db
+    .prepare('DELETE FROM chat_commands WHERE namespaceSlug = ? AND name = ?')
+    .run(namespaceSlug, name)
+  return result.changes > 0
+}
+
+export function deleteChatCommands(namespaceSlug: string): number {
+  if (!namespaceSlug) return 0
+  const db = ensureChatCommandTable()
+  const result = db.prepare('DELETE FROM chat_commands WHERE namespaceSlug = ?').run(namespaceSlug)
+  return result.changes
+}
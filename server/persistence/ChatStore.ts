@@ -0,0 +1,141 @@
+import { getDb } from './db'
+
+export interface PersistedChatMessage {
+  id: number
+  namespaceSlug: string
+  // key of the author in the players map when the message was sent
+  authorId: string
+  author: string
+  content: string
+  // epoch milliseconds
+  createdAt: number
+  // 0 if never edited
+  editedAt: number
+  deleted: boolean
+  // JSON encoded ChatReactions, empty when there are none
+  reactions: string
+}
+
+type ChatMessageRow = Omit<PersistedChatMessage, 'editedAt' | 'deleted' | 'reactions'> & {
+  editedAt: number | null
+  deleted: number | null
+  reactions: string | null
+}
+
+// added after the table was introduced
+const OPTIONAL_COLUMNS = ['editedAt INTEGER', 'deleted INTEGER NOT NULL DEFAULT 0', 'reactions TEXT']
+
+export interface ChatMessagePage {
+  // oldest first
+  messages: PersistedChatMessage[]
+  hasMore: boolean
+}
+
+function ensureChatTable() {
+  const db = getDb()
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS chat_messages (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      namespaceSlug TEXT NOT NULL,
+      authorId TEXT NOT NULL,
+      author TEXT NOT NULL,
+      content TEXT NOT NULL,
+      createdAt INTEGER NOT NULL,
+      editedAt INTEGER,
+      deleted INTEGER NOT NULL DEFAULT 0,
+      reactions TEXT
+    );
+    CREATE INDEX IF NOT EXISTS chat_messages_namespace ON chat_messages (namespaceSlug, id);
+  `)
+
+  for (const column of OPTIONAL_COLUMNS) {
+    try {
+      db.exec(`ALTER TABLE chat_messages ADD COLUMN ${column}`)
+    } catch {
+      /* column already exists */
+    }
+  }
+
+  return db
+}
+
+function toChatMessage(row: ChatMessageRow): PersistedChatMessage {
+  return {
+    ...row,
+    editedAt: row.editedAt ?? 0,
+    deleted: !!row.deleted,
+    reactions: row.reactions ?? '',
+  }
+}
+
+// stores a new room channel message and returns its id
+export function saveChatMessage(
+  message: Omit<PersistedChatMessage, 'id' | 'editedAt' | 'deleted' | 'reactions'>
+): number {
+  const db = ensureChatTable()
+  const result = db
+    .prepare(
+      `INSERT INTO chat_messages (namespaceSlug, authorId, author, content, createdAt)
+       VALUES (?, ?, ?, ?, ?)`
+    )
+    .run(
+      message.namespaceSlug,
+      message.authorId,
+      message.author,
+      message.content,
+      message.createdAt
+    )
+  return Number(result.lastInsertRowid)
+}
+
+/**
+ * Returns the newest `limit` messages of the namespace sent before the message with id `before`,
+ * or the newest messages overall without it.
+ */
+export function getChatMessages(
+  namespaceSlug: string,
+  limit: number,
+  before?: number
+): ChatMessagePage {
+  if (!namespaceSlug) return { messages: [], hasMore: false }
+  const db = ensureChatTable()
+  const rows = db
+    .prepare(
+      `SELECT * FROM chat_messages WHERE namespaceSlug = ? AND id < ?
+       ORDER BY id DESC LIMIT ?`
+    )
+    .all(namespaceSlug, before ?? Number.MAX_SAFE_INTEGER, limit + 1) as ChatMessageRow[]
+  return {
+    messages: rows.slice(0, limit).reverse().map(toChatMessage),
+    hasMore: rows.length > limit,
+  }
+}
+
+export function editChatMessage(id: number, content: string, editedAt: number) {
+  const db = ensureChatTable()
+  db.prepare('UPDATE chat_messages SET content = ?, editedAt = ? WHERE id = ?').run(
+    content,
+    editedAt,
+    id
+  )
+}
+
+// keeps the row as a placeholder so the history still shows where the message was
+export function markChatMessageDeleted(id: number) {
+  const db = ensureChatTable()
+  db.prepare(
+    `UPDATE chat_messages SET content = '', reactions = NULL, deleted = 1 WHERE id = ?`
+  ).run(id)
+}
+
+export function saveChatReactions(id: number, reactions: string) {
+  const db = ensureChatTable()
+  db.prepare('UPDATE chat_messages SET reactions = ? WHERE id = ?').run(reactions || null, id)
+}
+
+export function deleteChatMessages(namespaceSlug: string): number {
+  if (!namespaceSlug) return 0
+  const db = ensureChatTable()
+  const result = db.prepare('DELETE FROM chat_messages WHERE namespaceSlug = ?').run(namespaceSlug)
+  return result.changes
+}
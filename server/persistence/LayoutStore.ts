@@ -0,0 +1,76 @@
+import { getDb } from './db'
+import { OfficeLayout } from '../../types/OfficeLayout'
+
+export interface PersistedLayout {
+  namespaceSlug: string
+  layout: OfficeLayout
+  updatedAt: string
+}
+
+type LayoutRow = {
+  namespaceSlug: string
+  mapId: string
+  layout: string
+  updatedAt: string
+}
+
+function ensureLayoutTable() {
+  const db = getDb()
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS office_layouts (
+      namespaceSlug TEXT PRIMARY KEY,
+      mapId TEXT NOT NULL,
+      layout TEXT NOT NULL,
+      updatedAt TEXT NOT NULL
+    );
+  `)
+  return db
+}
+
+function toLayout(row: LayoutRow): PersistedLayout | null {
+  try {
+    const layout = JSON.parse(row.layout)
+    return {
+      namespaceSlug: row.namespaceSlug,
+      layout: {
+        mapId: row.mapId,
+        moved: layout?.moved ?? {},
+        removed: Array.isArray(layout?.removed) ? layout.removed : [],
+        added: Array.isArray(layout?.added) ? layout.added : [],
+      },
+      updatedAt: row.updatedAt,
+    }
+  } catch (err) {
+    console.warn('[layout-store] Ignoring unreadable layout', row.namespaceSlug, err)
+    return null
+  }
+}
+
+export function saveOfficeLayout(namespaceSlug: string, layout: OfficeLayout) {
+  const db = ensureLayoutTable()
+  db.prepare(
+    `INSERT OR REPLACE INTO office_layouts (namespaceSlug, mapId, layout, updatedAt)
+     VALUES (?, ?, ?, ?)`
+  ).run(
+    namespaceSlug,
+    layout.mapId,
+    JSON.stringify({ moved: layout.moved, removed: layout.removed, added: layout.added }),
+    new Date().toISOString()
+  )
+}
+
+export function getOfficeLayout(namespaceSlug: string): PersistedLayout | null {
+  if (!namespaceSlug) return null
+  const db = ensureLayoutTable()
+  const row = db
+    .prepare('SELECT * FROM office_layouts WHERE namespaceSlug = ?')
+    .get(namespaceSlug) as LayoutRow | undefined
+  return row ? toLayout(row) : null
+}
+
+export function removeOfficeLayout(namespaceSlug: string): boolean {
+  if (!namespaceSlug) return false
+  const db = ensureLayoutTable()
+  const result = db.prepare('DELETE FROM office_layouts WHERE namespaceSlug = ?').run(namespaceSlug)
+  return result.changes > 0
+}
@@ -0,0 +1,197 @@
+import { getDb } from './db'
+import { ModerationAuditAction } from '../../types/Moderation'
+
+export interface PersistedBan {
+  id: number
+  namespaceSlug: string
+  // a ban matches either the browser identity or the IP address, whichever is set
+  identity: string | null
+  ip: string | null
+  // name of the banned player, if they were in the room
+  name: string
+  reason: string
+  // who banned, see ModerationActor
+  createdBy: string
+  // epoch milliseconds
+  createdAt: number
+  // null for permanent bans
+  expiresAt: number | null
+}
+
+export interface ModerationAuditEntry {
+  id: number
+  namespaceSlug: string
+  action: ModerationAuditAction
+  actorId: string
+  actorName: string
+  targetName: string
+  targetIdentity: string | null
+  targetIp: string | null
+  reason: string
+  // length of a mute or ban, null when it has none
+  durationMs: number | null
+  // id of the ban created or lifted
+  banId: number | null
+  createdAt: number
+}
+
+export interface ModerationAuditPage {
+  // newest first
+  entries: ModerationAuditEntry[]
+  hasMore: boolean
+}
+
+function ensureModerationTables() {
+  const db = getDb()
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS room_bans (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      namespaceSlug TEXT NOT NULL,
+      identity TEXT,
+      ip TEXT,
+      name TEXT NOT NULL,
+      reason TEXT NOT NULL,
+      createdBy TEXT NOT NULL,
+      createdAt INTEGER NOT NULL,
+      expiresAt INTEGER
+    );
+    CREATE INDEX IF NOT EXISTS room_bans_namespace ON room_bans (namespaceSlug);
+    CREATE TABLE IF NOT EXISTS moderation_audit (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      namespaceSlug TEXT NOT NULL,
+      action TEXT NOT NULL,
+      actorId TEXT NOT NULL,
+      actorName TEXT NOT NULL,
+      targetName TEXT NOT NULL,
+      targetIdentity TEXT,
+      targetIp TEXT,
+      reason TEXT NOT NULL,
+      durationMs INTEGER,
+      banId INTEGER,
+      createdAt INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS moderation_audit_namespace ON moderation_audit (namespaceSlug, id);
+  `)
+  return db
+}
+
+// stores a ban and returns its id
+export function saveBan(ban: Omit<PersistedBan, 'id'>): number {
+  const db = ensureModerationTables()
+  const result = db
+    .prepare(
+      `INSERT INTO room_bans
+         (namespaceSlug, identity, ip, name, reason, createdBy, createdAt, expiresAt)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      ban.namespaceSlug,
+      ban.identity,
+      ban.ip,
+      ban.name,
+      ban.reason,
+      ban.createdBy,
+      ban.createdAt,
+      ban.expiresAt
+    )
+  return Number(result.lastInsertRowid)
+}
+
+// the ban that lasts longest among those matching the identity or the IP address
+export function findActiveBan(
+  namespaceSlug: string,
+  identity: string | null,
+  ip: string | null,
+  now = Date.now()
+): PersistedBan | null {
+  if (!namespaceSlug || (!identity && !ip)) return null
+  const db = ensureModerationTables()
+  const row = db
+    .prepare(
+      `SELECT * FROM room_bans
+       WHERE namespaceSlug = ? AND (identity = ? OR ip = ?)
+         AND (expiresAt IS NULL OR expiresAt > ?)
+       ORDER BY expiresAt IS NULL DESC, expiresAt DESC LIMIT 1`
+    )
+    .get(namespaceSlug, identity, ip, now) as PersistedBan | undefined
+  return row ?? null
+}
+
+export function listActiveBans(namespaceSlug: string, now = Date.now()): PersistedBan[] {
+  if (!namespaceSlug) return []
+  const db = ensureModerationTables()
+  return db
+    .prepare(
+      `SELECT * FROM room_bans
+       WHERE namespaceSlug = ? AND (expiresAt IS NULL OR expiresAt > ?)
+       ORDER BY id DESC`
+    )
+    .all(namespaceSlug, now) as PersistedBan[]
+}
+
+// lifts a ban and returns it, or null if the namespace has no ban with that id
+export function removeBan(namespaceSlug: string, id: number): PersistedBan | null {
+  const db = ensureModerationTables()
+  const ban = db
+    .prepare('SELECT * FROM room_bans WHERE namespaceSlug = ? AND id = ?')
+    .get(namespaceSlug, id) as PersistedBan | undefined
+  if (!ban) return null
+  db.prepare('DELETE FROM room_bans WHERE id = ?').run(id)
+  return ban
+}
+
+export function saveModerationAuditEntry(entry: Omit<ModerationAuditEntry, 'id'>): number {
+  const db = ensureModerationTables()
+  const result = db
+    .prepare(
+      `INSERT INTO moderation_audit
+         (namespaceSlug, action, actorId, actorName, targetName, targetIdentity, targetIp,
+          reason, durationMs, banId, createdAt)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      entry.namespaceSlug,
+      entry.action,
+      entry.actorId,
+      entry.actorName,
+      entry.targetName,
+      entry.targetIdentity,
+      entry.targetIp,
+      entry.reason,
+      entry.durationMs,
+      entry.banId,
+      entry.createdAt
+    )
+  return Number(result.lastInsertRowid)
+}
+
+/**
+ * Returns the newest `limit` audit entries of the namespace written before the entry with id
+ * `before`, or the newest entries overall without it.
+ */
+export function getModerationAudit(
+  namespaceSlug: string,
+  limit: number,
+  before?: number
+): ModerationAuditPage {
+  if (!namespaceSlug) return { entries: [], hasMore: false }
+  const db = ensureModerationTables()
+  const rows = db
+    .prepare(
+      `SELECT * FROM moderation_audit WHERE namespaceSlug = ? AND id < ?
+       ORDER BY id DESC LIMIT ?`
+    )
+    .all(namespaceSlug, before ?? Number.MAX_SAFE_INTEGER, limit + 1) as ModerationAuditEntry[]
+  return { entries: rows.slice(0, limit), hasMore: rows.length > limit }
+}
+
+// removes the bans and the audit trail of a namespace
+export function deleteModerationData(namespaceSlug: string): number {
+  if (!namespaceSlug) return 0
+  const db = ensureModerationTables()
+  const bans = db.prepare('DELETE FROM room_bans WHERE namespaceSlug = ?').run(namespaceSlug)
+  const audit = db
+    .prepare('DELETE FROM moderation_audit WHERE namespaceSlug = ?')
+    .run(namespaceSlug)
+  return bans.changes + audit.changes
+}
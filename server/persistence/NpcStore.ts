@@ -145,7 +145,88 @@ export function removeNpc(agentId: string) {
   db.prepare('DELETE FROM npcs WHERE agentId = ?').run(agentId)
 }
 
+// saves and removes NPCs in one transaction, so a failing row leaves the table untouched
+export function applyNpcChanges(saved: PersistedNpc[], removedAgentIds: string[] = []) {
+  const db = ensureNpcTable()
+  db.transaction(() => {
+    saved.forEach((npc) => saveNpc(npc))
+    removedAgentIds.forEach((agentId) => removeNpc(agentId))
+  })()
+}
+
+// NPCs belong to a room by its name, so they follow it when it is renamed
+export function moveNpcsToRoom(previousName: string, name: string) {
+  const db = ensureNpcTable()
+  db.prepare('UPDATE npcs SET roomName = ? WHERE roomName = ?').run(name, previousName)
+}
+
 export function clearAllNpcs() {
   const db = ensureNpcTable()
   db.prepare('DELETE FROM npcs').run()
 }
+
+export interface PersistedNpcSchedule {
+  agentId: string
+  schedule: Record<string, unknown>
+  updatedAt: string
+}
+
+type NpcScheduleRow = {
+  agentId: string
+  schedule: string
+  updatedAt: string
+}
+
+// schedules live in their own table so the NPC cache reset on boot (clearAllNpcs) keeps them
+function ensureNpcScheduleTable() {
+  const db = getDb()
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS npc_schedules (
+      agentId TEXT PRIMARY KEY,
+      schedule TEXT NOT NULL,
+      updatedAt TEXT NOT NULL
+    );
+  `)
+  return db
+}
+
+function toPersistedSchedule(row: NpcScheduleRow): PersistedNpcSchedule | null {
+  try {
+    const schedule = JSON.parse(row.schedule)
+    if (!schedule || typeof schedule !== 'object') return null
+    return { agentId: row.agentId, schedule, updatedAt: row.updatedAt }
+  } catch {
+    return null
+  }
+}
+
+export function saveNpcSchedule(agentId: string, schedule: Record<string, unknown>) {
+  if (!agentId) return
+  const db = ensureNpcScheduleTable()
+  db.prepare(
+    'INSERT OR REPLACE INTO npc_schedules (agentId, schedule, updatedAt) VALUES (?, ?, ?)'
+  ).run(agentId, JSON.stringify(schedule), new Date().toISOString())
+}
+
+export function getNpcSchedule(agentId: string): PersistedNpcSchedule | null {
+  if (!agentId) return null
+  const db = ensureNpcScheduleTable()
+  const row = db.prepare('SELECT * FROM npc_schedules WHERE agentId = ?').get(agentId) as
+    | NpcScheduleRow
+    | undefined
+  return row ? toPersistedSchedule(row) : null
+}
+
+export function allNpcSchedules(): PersistedNpcSchedule[] {
+  const db = ensureNpcScheduleTable()
+  const rows = db.prepare('SELECT * FROM npc_schedules').all() as NpcScheduleRow[]
+  return rows
+    .map(toPersistedSchedule)
+    .filter((schedule): schedule is PersistedNpcSchedule => !!schedule)
+}
+
+export function removeNpcSchedule(agentId: string) {
+  if (!agentId) return
+  const db = ensureNpcScheduleTable()
+  db.prepare('DELETE FROM npc_schedules WHERE agentId = ?').run(agentId)
+}
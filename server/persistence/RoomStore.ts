@@ -1,4 +1,5 @@
 import { getDb } from './db'
+import { moveNpcsToRoom } from './NpcStore'
 
 export interface PersistedRoom {
   name: string
@@ -53,6 +54,22 @@ export function deleteRoomByName(name: string) {
   db.prepare(`DELETE FROM rooms WHERE name = ?`).run(name)
 }
 
+export function hasRoom(name: string) {
+  const db = ensureTable()
+  return !!db.prepare(`SELECT 1 FROM rooms WHERE name = ?`).get(name)
+}
+
+// moves a room and its NPCs to a new name in one transaction, never over another room's row
+export function renameRoom(previousName: string, room: PersistedRoom) {
+  const db = ensureTable()
+  db.transaction(() => {
+    if (hasRoom(room.name)) throw new Error(`room '${room.name}' already exists`)
+    deleteRoomByName(previousName)
+    saveRoom(room)
+    moveNpcsToRoom(previousName, room.name)
+  })()
+}
+
 export function clearAllRooms() {
   const db = ensureTable()
   db.prepare(`DELETE FROM rooms`).run()
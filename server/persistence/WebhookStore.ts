@@ -0,0 +1,214 @@
+import { getDb } from './db'
+
+export interface PersistedWebhook {
+  id: string
+  namespaceSlug: string
+  url: string
+  secret: string
+  // event types the subscriber wants; empty means every event
+  events: string[]
+  active: boolean
+  createdAt: string
+}
+
+export interface WebhookDeadLetter {
+  id: number
+  webhookId: string
+  namespaceSlug: string
+  eventId: string
+  eventType: string
+  payload: Record<string, unknown>
+  attempts: number
+  lastStatus: number | null
+  lastError: string | null
+  failedAt: string
+}
+
+type WebhookRow = {
+  id: string
+  namespaceSlug: string
+  url: string
+  secret: string
+  events: string
+  active: number
+  createdAt: string
+}
+
+type DeadLetterRow = {
+  id: number
+  webhookId: string
+  namespaceSlug: string
+  eventId: string
+  eventType: string
+  payload: string
+  attempts: number
+  lastStatus?: number | null
+  lastError?: string | null
+  failedAt: string
+}
+
+function ensureWebhookTables() {
+  const db = getDb()
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS webhooks (
+      id TEXT PRIMARY KEY,
+      namespaceSlug TEXT NOT NULL,
+      url TEXT NOT NULL,
+      secret TEXT NOT NULL,
+      events TEXT NOT NULL,
+      active INTEGER NOT NULL,
+      createdAt TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS webhooks_namespace ON webhooks (namespaceSlug);
+    CREATE TABLE IF NOT EXISTS webhook_dead_letters (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      webhookId TEXT NOT NULL,
+      namespaceSlug TEXT NOT NULL,
+      eventId TEXT NOT NULL,
+      eventType TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      attempts INTEGER NOT NULL,
+      lastStatus INTEGER,
+      lastError TEXT,
+      failedAt TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS webhook_dead_letters_namespace
+      ON webhook_dead_letters (namespaceSlug);
+  `)
+  return db
+}
+
+function parseJson<T>(value: string, fallback: T): T {
+  try {
+    return JSON.parse(value) ?? fallback
+  } catch {
+    return fallback
+  }
+}
+
+function toWebhook(row: WebhookRow): PersistedWebhook {
+  const events = parseJson<unknown>(row.events, [])
+  return {
+    id: row.id,
+    namespaceSlug: row.namespaceSlug,
+    url: row.url,
+    secret: row.secret,
+    events: Array.isArray(events) ? events.filter((type) => typeof type === 'string') : [],
+    active: !!row.active,
+    createdAt: row.createdAt,
+  }
+}
+
+function toDeadLetter(row: DeadLetterRow): WebhookDeadLetter {
+  return {
+    id: row.id,
+    webhookId: row.webhookId,
+    namespaceSlug: row.namespaceSlug,
+    eventId: row.eventId,
+    eventType: row.eventType,
+    payload: parseJson<Record<string, unknown>>(row.payload, {}),
+    attempts: Number(row.attempts) || 0,
+    lastStatus: row.lastStatus ?? null,
+    lastError: row.lastError ?? null,
+    failedAt: row.failedAt,
+  }
+}
+
+export function saveWebhook(webhook: PersistedWebhook) {
+  const db = ensureWebhookTables()
+  db.prepare(
+    `INSERT OR REPLACE INTO webhooks (id, namespaceSlug, url, secret, events, active, createdAt)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    webhook.id,
+    webhook.namespaceSlug,
+    webhook.url,
+    webhook.secret,
+    JSON.stringify(webhook.events),
+    webhook.active ? 1 : 0,
+    webhook.createdAt
+  )
+}
+
+export function getWebhook(id: string): PersistedWebhook | null {
+  if (!id) return null
+  const db = ensureWebhookTables()
+  const row = db.prepare('SELECT * FROM webhooks WHERE id = ?').get(id) as WebhookRow | undefined
+  return row ? toWebhook(row) : null
+}
+
+export function listWebhooks(namespaceSlug?: string): PersistedWebhook[] {
+  const db = ensureWebhookTables()
+  const rows = (
+    namespaceSlug
+      ? db
+          .prepare('SELECT * FROM webhooks WHERE namespaceSlug = ? ORDER BY createdAt')
+          .all(namespaceSlug)
+      : db.prepare('SELECT * FROM webhooks ORDER BY createdAt').all()
+  ) as WebhookRow[]
+  return rows.map(toWebhook)
+}
+
+export function removeWebhook(id: string): boolean {
+  if (!id) return false
+  const db = ensureWebhookTables()
+  const result = db.prepare('DELETE FROM webhooks WHERE id = ?').run(id)
+  db.prepare('DELETE FROM webhook_dead_letters WHERE webhookId = ?').run(id)
+  return result.changes > 0
+}
+
+export function addWebhookDeadLetter(letter: Omit<WebhookDeadLetter, 'id'>) {
+  const db = ensureWebhookTables()
+  db.prepare(
+    `INSERT INTO webhook_dead_letters
+     (webhookId, namespaceSlug, eventId, eventType, payload, attempts, lastStatus, lastError,
+      failedAt)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    letter.webhookId,
+    letter.namespaceSlug,
+    letter.eventId,
+    letter.eventType,
+    JSON.stringify(letter.payload),
+    letter.attempts,
+    letter.lastStatus,
+    letter.lastError,
+    letter.failedAt
+  )
+}
+
+export function listWebhookDeadLetters(
+  namespaceSlug: string,
+  options: { webhookId?: string; limit?: number } = {}
+): WebhookDeadLetter[] {
+  const db = ensureWebhookTables()
+  const limit = options.limit ?? 100
+  const rows = (
+    options.webhookId
+      ? db
+          .prepare(
+            `SELECT * FROM webhook_dead_letters WHERE namespaceSlug = ? AND webhookId = ?
+             ORDER BY id DESC LIMIT ?`
+          )
+          .all(namespaceSlug, options.webhookId, limit)
+      : db
+          .prepare(
+            'SELECT * FROM webhook_dead_letters WHERE namespaceSlug = ? ORDER BY id DESC LIMIT ?'
+          )
+          .all(namespaceSlug, limit)
+  ) as DeadLetterRow[]
+  return rows.map(toDeadLetter)
+}
+
+export function getWebhookDeadLetter(id: number): WebhookDeadLetter | null {
+  const db = ensureWebhookTables()
+  const row = db.prepare('SELECT * FROM webhook_dead_letters WHERE id = ?').get(id) as
+    | DeadLetterRow
+    | undefined
+  return row ? toDeadLetter(row) : null
+}
+
+export function removeWebhookDeadLetter(id: number) {
+  const db = ensureWebhookTables()
+  db.prepare('DELETE FROM webhook_dead_letters WHERE id = ?').run(id)
+}
@@ -0,0 +1,195 @@
+import { Command, Dispatcher } from '@colyseus/command'
+import { Client } from 'colyseus'
+import { IOfficeState } from '../../types/IOfficeState'
+import { Message } from '../../types/Messages'
+import {
+  CHAT_COMMAND_NAME_PATTERN,
+  ChatCommandInfo,
+  ChatCommandPermission,
+  CustomChatCommand,
+} from '../../types/ChatCommands'
+import { ChatCommandResult, MAX_CHAT_MESSAGE_LENGTH } from '../../types/MessagePayloads'
+import {
+  ChatCommandPayload,
+  CustomCommand,
+  DmCommand,
+  GotoCommand,
+  HelpCommand,
+  MeCommand,
+  StatusCommand,
+  WaveCommand,
+  WhoCommand,
+} from './commands/ChatCommands'
+
+const MAX_USAGE_LENGTH = 60
+const MAX_DESCRIPTION_LENGTH = 120
+// custom commands per room
+export const MAX_CUSTOM_COMMANDS = 50
+
+interface BuiltInChatCommand {
+  info: Omit<ChatCommandInfo, 'name' | 'custom'>
+  create: () => Command<IOfficeState, ChatCommandPayload>
+}
+
+const BUILT_IN_COMMANDS: Record<string, BuiltInChatCommand> = {
+  help: {
+    info: { usage: '[command]', description: 'List the chat commands', permission: 'everyone' },
+    create: () => new HelpCommand(),
+  },
+  me: {
+    info: { usage: '<action>', description: 'Describe what you are doing', permission: 'everyone' },
+    create: () => new MeCommand(),
+  },
+  wave: {
+    info: { usage: '[name]', description: 'Wave to the room or a player', permission: 'everyone' },
+    create: () => new WaveCommand(),
+  },
+  goto: {
+    info: { usage: '<name>', description: 'Walk over to a player', permission: 'everyone' },
+    create: () => new GotoCommand(),
+  },
+  status: {
+    info: { usage: '[status]', description: 'Show or set your status', permission: 'everyone' },
+    create: () => new StatusCommand(),
+  },
+  who: {
+    info: { usage: '', description: 'List the players in the room', permission: 'everyone' },
+    create: () => new WhoCommand(),
+  },
+  dm: {
+    info: {
+      usage: '<name> [message]',
+      description: 'Send a player a direct message',
+      permission: 'everyone',
+    },
+    create: () => new DmCommand(),
+  },
+}
+
+export function isBuiltInChatCommand(name: string) {
+  return Object.prototype.hasOwnProperty.call(BUILT_IN_COMMANDS, name)
+}
+
+/**
+ * Validates a custom command definition from the management API. Returns an error message when
+ * it is invalid.
+ */
+export function parseCustomChatCommand(name: string, body: any): CustomChatCommand | string {
+  const commandName = typeof name === 'string' ? name.trim().toLowerCase() : ''
+  if (!CHAT_COMMAND_NAME_PATTERN.test(commandName)) {
+    return 'name must start with a letter and use up to 24 lowercase letters, digits, _ or -'
+  }
+  if (isBuiltInChatCommand(commandName)) return `/${commandName} is a built-in command`
+
+  const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '')
+  const usage = text(body?.usage)
+  const description = text(body?.description)
+  const response = text(body?.response)
+  if (usage.length > MAX_USAGE_LENGTH) return `usage exceeds ${MAX_USAGE_LENGTH} characters`
+  if (!description) return 'description is required'
+  if (description.length > MAX_DESCRIPTION_LENGTH) {
+    return `description exceeds ${MAX_DESCRIPTION_LENGTH} characters`
+  }
+  if (!response) return 'response is required'
+  if (response.length > MAX_CHAT_MESSAGE_LENGTH) {
+    return `response exceeds ${MAX_CHAT_MESSAGE_LENGTH} characters`
+  }
+  if (body?.broadcast !== undefined && typeof body.broadcast !== 'boolean') {
+    return 'broadcast must be a boolean'
+  }
+  const permission = body?.permission ?? 'everyone'
+  if (permission !== 'everyone' && permission !== 'moderator') {
+    return "permission must be 'everyone' or 'moderator'"
+  }
+
+  return {
+    name: commandName,
+    usage,
+    description,
+    response,
+    broadcast: !!body?.broadcast,
+    permission: permission as ChatCommandPermission,
+  }
+}
+
+/**
+ * Chat commands of one room: the built-in ones plus those its owners registered. Runs each
+ * command through the room's dispatcher once the player is allowed to use it.
+ */
+export class ChatCommandRegistry {
+  private customCommands = new Map<string, CustomChatCommand>()
+
+  constructor(
+    private dispatcher: Dispatcher,
+    private isModerator: (sessionId: string) => boolean
+  ) {}
+
+  // replacing a command is always possible, adding one only below MAX_CUSTOM_COMMANDS
+  hasRoomFor(name: string) {
+    return this.customCommands.has(name) || this.customCommands.size < MAX_CUSTOM_COMMANDS
+  }
+
+  setCustomCommand(command: CustomChatCommand) {
+    this.customCommands.set(command.name, command)
+  }
+
+  removeCustomCommand(name: string) {
+    return this.customCommands.delete(name)
+  }
+
+  getCustomCommands(): CustomChatCommand[] {
+    return Array.from(this.customCommands.values())
+  }
+
+  // the commands a player may run, built-in ones first
+  list(sessionId: string): ChatCommandInfo[] {
+    const builtIn = Object.entries(BUILT_IN_COMMANDS).map(([name, { info }]) => ({
+      name,
+      ...info,
+      custom: false,
+    }))
+    const custom = this.getCustomCommands()
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(({ name, usage, description, permission }) => ({
+        name,
+        usage,
+        description,
+        permission,
+        custom: true,
+      }))
+    return [...builtIn, ...custom].filter((info) => this.isAllowed(info.permission, sessionId))
+  }
+
+  run(client: Client, name: string, args: string) {
+    const builtIn = isBuiltInChatCommand(name) ? BUILT_IN_COMMANDS[name] : undefined
+    const custom = builtIn ? undefined : this.customCommands.get(name)
+    const permission = builtIn?.info.permission ?? custom?.permission
+    if (!permission || !this.isAllowed(permission, client.sessionId)) {
+      const result: ChatCommandResult = {
+        command: name,
+        message: permission
+          ? `You are not allowed to use /${name}.`
+          : `Unknown command /${name}. Type /help for the list.`,
+        error: true,
+      }
+      client.send(Message.CHAT_COMMAND_RESULT, result)
+      return
+    }
+
+    const payload: ChatCommandPayload = {
+      client,
+      name,
+      args,
+      commands: this.list(client.sessionId),
+    }
+    if (builtIn) {
+      this.dispatcher.dispatch(builtIn.create(), payload)
+    } else if (custom) {
+      this.dispatcher.dispatch(new CustomCommand(), { ...payload, definition: custom })
+    }
+  }
+
+  private isAllowed(permission: ChatCommandPermission, sessionId: string) {
+    return permission === 'everyone' || this.isModerator(sessionId)
+  }
+}
@@ -0,0 +1,159 @@
+import { Message } from '../../types/Messages'
+import { ClientMessage } from '../../types/MessagePayloads'
+
+export interface RateLimit {
+  // tokens added back per second
+  ratePerSecond: number
+  // bucket size, i.e. how many messages may arrive back to back
+  burst: number
+}
+
+export type RateLimits = Partial<Record<ClientMessage, RateLimit>>
+
+export type ChatFloodAction = 'warn' | 'mute' | 'disconnect'
+
+export interface ChatFloodVerdict {
+  // null while a violation needs no new response, e.g. more messages from a muted client
+  action: ChatFloodAction | null
+  mutedUntil: number | null
+}
+
+interface Bucket {
+  tokens: number
+  updatedAt: number
+}
+
+interface FloodRecord {
+  violations: number
+  lastViolationAt: number
+  mutedUntil: number
+}
+
+// UPDATE_PLAYER is sent every frame while moving, so its budget covers high refresh rate displays
+export const DEFAULT_RATE_LIMITS: RateLimits = {
+  [Message.UPDATE_PLAYER]: { ratePerSecond: 150, burst: 300 },
+  [Message.UPDATE_PLAYER_NAME]: { ratePerSecond: 1, burst: 3 },
+  [Message.READY_TO_CONNECT]: { ratePerSecond: 1, burst: 5 },
+  [Message.VIDEO_CONNECTED]: { ratePerSecond: 1, burst: 5 },
+  [Message.DISCONNECT_STREAM]: { ratePerSecond: 10, burst: 20 },
+  [Message.CONNECT_TO_COMPUTER]: { ratePerSecond: 5, burst: 10 },
+  [Message.DISCONNECT_FROM_COMPUTER]: { ratePerSecond: 5, burst: 10 },
+  [Message.START_SCREEN_SHARE]: { ratePerSecond: 5, burst: 10 },
+  [Message.STOP_SCREEN_SHARE]: { ratePerSecond: 5, burst: 10 },
+  [Message.CONNECT_TO_WHITEBOARD]: { ratePerSecond: 5, burst: 10 },
+  [Message.DISCONNECT_FROM_WHITEBOARD]: { ratePerSecond: 5, burst: 10 },
+  [Message.ADD_CHAT_MESSAGE]: { ratePerSecond: 1, burst: 5 },
+  [Message.DIRECT_MESSAGE]: { ratePerSecond: 1, burst: 5 },
+  [Message.CHAT_HISTORY]: { ratePerSecond: 2, burst: 5 },
+  [Message.EDIT_CHAT_MESSAGE]: { ratePerSecond: 1, burst: 5 },
+  [Message.DELETE_CHAT_MESSAGE]: { ratePerSecond: 1, burst: 5 },
+  [Message.TOGGLE_CHAT_REACTION]: { ratePerSecond: 2, burst: 10 },
+  [Message.CHAT_COMMAND]: { ratePerSecond: 1, burst: 5 },
+  [Message.MODERATE_PLAYER]: { ratePerSecond: 1, burst: 5 },
+  [Message.SET_PLAYER_ROLE]: { ratePerSecond: 1, burst: 5 },
+  [Message.UPDATE_ROOM_SETTINGS]: { ratePerSecond: 1, burst: 3 },
+  [Message.SET_PLAYER_STATUS]: { ratePerSecond: 1, burst: 5 },
+}
+
+const CHAT_MUTE_AFTER = Number(process.env.SKYOFFICE_CHAT_MUTE_AFTER || 3)
+const CHAT_DISCONNECT_AFTER = Number(process.env.SKYOFFICE_CHAT_DISCONNECT_AFTER || 6)
+const CHAT_MUTE_MS = Number(process.env.SKYOFFICE_CHAT_MUTE_MS || 30_000)
+// violations are forgotten once a client has behaved for this long
+const CHAT_VIOLATION_WINDOW_MS = 60_000
+
+const isRateLimit = (value: any): value is RateLimit =>
+  !!value &&
+  Number.isFinite(value.ratePerSecond) &&
+  value.ratePerSecond > 0 &&
+  Number.isFinite(value.burst) &&
+  value.burst >= 1
+
+/**
+ * Default limits, overridden per message by `SKYOFFICE_RATE_LIMITS`, a JSON object keyed by the
+ * message name, e.g. `{"ADD_CHAT_MESSAGE":{"ratePerSecond":0.5,"burst":3}}`.
+ */
+export function loadRateLimits(raw = process.env.SKYOFFICE_RATE_LIMITS): RateLimits {
+  const limits: RateLimits = { ...DEFAULT_RATE_LIMITS }
+  if (!raw) return limits
+  try {
+    const overrides = JSON.parse(raw)
+    Object.entries(overrides ?? {}).forEach(([name, limit]) => {
+      const type = Message[name as keyof typeof Message] as ClientMessage | undefined
+      if (type === undefined || !isRateLimit(limit)) {
+        console.warn('[rate-limit] Ignoring invalid limit', name)
+        return
+      }
+      limits[type] = { ratePerSecond: limit.ratePerSecond, burst: limit.burst }
+    })
+  } catch (err) {
+    console.warn('[rate-limit] SKYOFFICE_RATE_LIMITS is not valid JSON, using defaults', err)
+  }
+  return limits
+}
+
+/** Token buckets per session and message type. */
+export class MessageRateLimiter {
+  private buckets = new Map<string, Map<ClientMessage, Bucket>>()
+
+  constructor(private readonly limits: RateLimits = loadRateLimits()) {}
+
+  // takes a token for the message; false when the session is over its limit
+  consume(sessionId: string, type: ClientMessage, now = Date.now()) {
+    const limit = this.limits[type]
+    if (!limit) return true
+
+    const buckets = this.buckets.get(sessionId) ?? new Map<ClientMessage, Bucket>()
+    this.buckets.set(sessionId, buckets)
+    const bucket = buckets.get(type) ?? { tokens: limit.burst, updatedAt: now }
+    const refill = ((now - bucket.updatedAt) / 1000) * limit.ratePerSecond
+    bucket.tokens = Math.min(limit.burst, bucket.tokens + refill)
+    bucket.updatedAt = now
+    buckets.set(type, bucket)
+
+    if (bucket.tokens < 1) return false
+    bucket.tokens -= 1
+    return true
+  }
+
+  reset(sessionId: string) {
+    this.buckets.delete(sessionId)
+  }
+}
+
+/**
+ * Escalates repeated chat flooding: violations are answered with a warning until the client is
+ * muted for a while, and a client that keeps going is disconnected.
+ */
+export class ChatFloodGuard {
+  private records = new Map<string, FloodRecord>()
+
+  getMutedUntil(sessionId: string, now = Date.now()): number | null {
+    const record = this.records.get(sessionId)
+    return record && record.mutedUntil > now ? record.mutedUntil : null
+  }
+
+  recordViolation(sessionId: string, now = Date.now()): ChatFloodVerdict {
+    let record = this.records.get(sessionId)
+    if (!record || now - record.lastViolationAt > CHAT_VIOLATION_WINDOW_MS) {
+      record = { violations: 0, lastViolationAt: now, mutedUntil: 0 }
+      this.records.set(sessionId, record)
+    }
+    record.violations += 1
+    record.lastViolationAt = now
+
+    let action: ChatFloodAction | null = null
+    if (record.violations >= CHAT_DISCONNECT_AFTER) {
+      action = 'disconnect'
+    } else if (record.violations === CHAT_MUTE_AFTER) {
+      action = 'mute'
+      record.mutedUntil = now + CHAT_MUTE_MS
+    } else if (record.mutedUntil <= now) {
+      action = 'warn'
+    }
+    return { action, mutedUntil: record.mutedUntil > now ? record.mutedUntil : null }
+  }
+
+  reset(sessionId: string) {
+    this.records.delete(sessionId)
+  }
+}
@@ -0,0 +1,62 @@
+import { mentionsHandle } from '../../types/ChatFormatting'
+
+export interface NpcMention {
+  id: number
+  agentId: string
+  // players map key of the author (client sessionId or NPC key)
+  authorId: string
+  authorName: string
+  content: string
+  createdAt: string
+}
+
+export interface MentionCandidate {
+  agentId: string
+  name: string
+}
+
+// mentions kept per agent; older ones are dropped once an agent falls this far behind
+const MAX_MENTIONS_PER_AGENT = 100
+const DEFAULT_PAGE_SIZE = 50
+
+export function findMentionedAgents(content: string, candidates: MentionCandidate[]): string[] {
+  if (!content.includes('@')) return []
+  return candidates
+    .filter(
+      (candidate) =>
+        mentionsHandle(content, candidate.name) || mentionsHandle(content, candidate.agentId)
+    )
+    .map((candidate) => candidate.agentId)
+}
+
+/**
+ * Per-room inbox of chat messages that mention an NPC by `@name` or `@agentId`. Agents poll it
+ * with the id of the last mention they have seen.
+ */
+export class NpcMentionInbox {
+  private sequence = 0
+  private mentionsByAgent = new Map<string, NpcMention[]>()
+
+  add(mention: Omit<NpcMention, 'id' | 'createdAt'>): NpcMention {
+    this.sequence += 1
+    const entry: NpcMention = {
+      ...mention,
+      id: this.sequence,
+      createdAt: new Date().toISOString(),
+    }
+    const list = this.mentionsByAgent.get(mention.agentId) ?? []
+    list.push(entry)
+    if (list.length > MAX_MENTIONS_PER_AGENT) list.splice(0, list.length - MAX_MENTIONS_PER_AGENT)
+    this.mentionsByAgent.set(mention.agentId, list)
+    return entry
+  }
+
+  list(agentId: string, afterId = 0, limit = DEFAULT_PAGE_SIZE): NpcMention[] {
+    const list = this.mentionsByAgent.get(agentId) ?? []
+    return list.filter((mention) => mention.id > afterId).slice(0, limit)
+  }
+
+  forget(agentId: string) {
+    this.mentionsByAgent.delete(agentId)
+  }
+}
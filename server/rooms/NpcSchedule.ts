@@ -0,0 +1,190 @@
+import { Point } from '../pathfinding/MapObjects'
+
+export type Weekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat'
+
+export interface NpcScheduleTarget {
+  position?: Point
+  workstationId?: string
+  computerId?: string
+  whiteboardId?: string
+}
+
+export interface NpcScheduleEntry {
+  label?: string
+  // office-local "HH:MM"; an entry whose end is before its start runs past midnight
+  start: string
+  end: string
+  // every day when omitted
+  days?: Weekday[]
+  target: NpcScheduleTarget
+}
+
+export interface NpcSchedule {
+  // IANA zone, falls back to the office time zone
+  timezone?: string
+  entries: NpcScheduleEntry[]
+}
+
+export interface ActiveScheduleEntry {
+  index: number
+  entry: NpcScheduleEntry
+  // identifies this occurrence, so the same slot is only acted upon once per day
+  occurrence: string
+}
+
+const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/
+const MAX_ENTRIES = 48
+const MAX_LABEL_LENGTH = 64
+
+export const DEFAULT_OFFICE_TIMEZONE = process.env.SKYOFFICE_DEFAULT_TIMEZONE || 'UTC'
+
+export function isValidTimezone(timezone: string) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+// shifts a YYYY-MM-DD calendar date by whole days
+const shiftDate = (date: string, days: number) => {
+  const shifted = new Date(`${date}T00:00:00Z`)
+  shifted.setUTCDate(shifted.getUTCDate() + days)
+  return shifted.toISOString().slice(0, 10)
+}
+
+const optionalId = (value: unknown) =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined
+
+function parseTarget(input: any): NpcScheduleTarget | string {
+  if (!input || typeof input !== 'object') return 'target is required'
+  const target: NpcScheduleTarget = {
+    workstationId: optionalId(input.workstationId),
+    computerId: optionalId(input.computerId),
+    whiteboardId: optionalId(input.whiteboardId),
+  }
+  const position = input.position
+  if (position !== undefined) {
+    if (!Number.isFinite(position?.x) || !Number.isFinite(position?.y)) {
+      return 'target.position must have numeric x and y'
+    }
+    target.position = { x: Number(position.x), y: Number(position.y) }
+  }
+  const kinds = Object.values(target).filter((value) => value !== undefined).length
+  if (kinds !== 1) {
+    return 'target needs exactly one of position, workstationId, computerId or whiteboardId'
+  }
+  return target
+}
+
+/**
+ * Validates a schedule received through the API and strips anything it does not know about.
+ * Returns an error message instead when the input is malformed.
+ */
+export function parseNpcSchedule(input: any): NpcSchedule | string {
+  if (!input || typeof input !== 'object') return 'schedule must be an object'
+
+  let timezone: string | undefined
+  if (input.timezone !== undefined) {
+    if (typeof input.timezone !== 'string' || !isValidTimezone(input.timezone)) {
+      return 'timezone must be a valid IANA time zone'
+    }
+    timezone = input.timezone
+  }
+
+  if (!Array.isArray(input.entries)) return 'entries must be an array'
+  if (input.entries.length > MAX_ENTRIES) return `at most ${MAX_ENTRIES} entries are allowed`
+
+  const entries: NpcScheduleEntry[] = []
+  for (let i = 0; i < input.entries.length; i += 1) {
+    const raw = input.entries[i]
+    const prefix = `entries[${i}]`
+    if (!raw || typeof raw !== 'object') return `${prefix} must be an object`
+    if (!TIME_PATTERN.test(raw.start) || !TIME_PATTERN.test(raw.end)) {
+      return `${prefix} start and end must be HH:MM`
+    }
+    if (raw.start === raw.end) return `${prefix} start and end must differ`
+
+    let days: Weekday[] | undefined
+    if (raw.days !== undefined) {
+      const isWeekday = (day: unknown) => WEEKDAYS.includes(day as Weekday)
+      if (!Array.isArray(raw.days) || !raw.days.every(isWeekday)) {
+        return `${prefix}.days must only contain ${WEEKDAYS.join(', ')}`
+      }
+      days = Array.from(new Set<Weekday>(raw.days))
+    }
+
+    const target = parseTarget(raw.target)
+    if (typeof target === 'string') return `${prefix}.${target}`
+
+    const entry: NpcScheduleEntry = { start: raw.start, end: raw.end, target }
+    if (typeof raw.label === 'string' && raw.label.trim()) {
+      entry.label = raw.label.trim().slice(0, MAX_LABEL_LENGTH)
+    }
+    if (days) entry.days = days
+    entries.push(entry)
+  }
+
+  return timezone ? { timezone, entries } : { entries }
+}
+
+// office-local weekday, date and minutes since midnight for the given instant
+function getLocalTime(now: Date, timezone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now)
+  const get = (type: string) => parts.find((part) => part.type === type)?.value ?? ''
+  const weekday = get('weekday').slice(0, 3).toLowerCase() as Weekday
+  return {
+    weekdayIndex: WEEKDAYS.indexOf(weekday),
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    minutes: Number(get('hour')) * 60 + Number(get('minute')),
+  }
+}
+
+/**
+ * Finds the entry that applies at `now` in the schedule's time zone. When entries overlap the
+ * first one listed wins.
+ */
+export function getActiveScheduleEntry(
+  schedule: NpcSchedule,
+  now: Date,
+  fallbackTimezone = DEFAULT_OFFICE_TIMEZONE
+): ActiveScheduleEntry | null {
+  const timezone = schedule.timezone || fallbackTimezone
+  const local = getLocalTime(now, isValidTimezone(timezone) ? timezone : 'UTC')
+
+  for (let index = 0; index < schedule.entries.length; index += 1) {
+    const entry = schedule.entries[index]
+    const start = toMinutes(entry.start)
+    const end = toMinutes(entry.end)
+    const wraps = end < start
+    const inWindow = wraps
+      ? local.minutes >= start || local.minutes < end
+      : local.minutes >= start && local.minutes < end
+    if (!inWindow) continue
+
+    // after midnight a wrapping entry still belongs to the day it started on
+    const startedYesterday = wraps && local.minutes < end
+    const startDay = WEEKDAYS[(local.weekdayIndex + (startedYesterday ? 6 : 0)) % 7]
+    if (entry.days && !entry.days.includes(startDay)) continue
+
+    const day = startedYesterday ? shiftDate(local.date, -1) : local.date
+    return { index, entry, occurrence: `${day}#${index}` }
+  }
+  return null
+}
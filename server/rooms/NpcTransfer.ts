@@ -0,0 +1,291 @@
+import { Point } from '../pathfinding/MapObjects'
+
+/** The portable part of an NPC assignment, as exported and imported in bulk. */
+export interface NpcRecord {
+  agentId: string
+  name: string
+  avatarId: string
+  workstationId: string
+  position: Point
+  role: string | null
+  voiceAgentId: string | null
+  metadata: Record<string, unknown> | null
+}
+
+export interface NpcRecordError {
+  // 1-based record number; in CSV the header is row 1 and blank lines are not counted
+  row: number
+  message: string
+}
+
+export interface NpcRecordChange {
+  agentId: string
+  changes: Partial<Record<NpcRecordField, { from: unknown; to: unknown }>>
+}
+
+export interface NpcImportDiff {
+  created: NpcRecord[]
+  updated: NpcRecordChange[]
+  unchanged: string[]
+  // only filled when the import prunes NPCs missing from it
+  removed: string[]
+}
+
+type NpcRecordField = Exclude<keyof NpcRecord, 'agentId'>
+
+const COMPARED_FIELDS: NpcRecordField[] = [
+  'name',
+  'avatarId',
+  'workstationId',
+  'position',
+  'role',
+  'voiceAgentId',
+  'metadata',
+]
+
+export const NPC_CSV_COLUMNS = [
+  'agentId',
+  'name',
+  'avatarId',
+  'workstationId',
+  'x',
+  'y',
+  'role',
+  'voiceAgentId',
+  'metadata',
+] as const
+
+const REQUIRED_CSV_COLUMNS = ['agentId', 'name', 'avatarId', 'workstationId', 'x', 'y']
+const MAX_RECORDS = 500
+
+const trimmedString = (value: unknown) =>
+  typeof value === 'string' && value.trim() ? value.trim() : null
+
+export function toNpcRecord(assignment: {
+  agentId: string
+  name: string
+  avatarId: string
+  workstationId: string
+  position: Point
+  role?: string
+  voiceAgentId?: string
+  agentMetadata?: Record<string, unknown> | null
+}): NpcRecord {
+  return {
+    agentId: assignment.agentId,
+    name: assignment.name,
+    avatarId: assignment.avatarId,
+    workstationId: assignment.workstationId,
+    position: { x: assignment.position.x, y: assignment.position.y },
+    role: assignment.role || null,
+    voiceAgentId: assignment.voiceAgentId || null,
+    metadata:
+      assignment.agentMetadata && Object.keys(assignment.agentMetadata).length
+        ? assignment.agentMetadata
+        : null,
+  }
+}
+
+function parseRecord(input: any): NpcRecord | string {
+  if (!input || typeof input !== 'object') return 'record must be an object'
+  const agentId = trimmedString(input.agentId)
+  const name = trimmedString(input.name)
+  const avatarId = trimmedString(input.avatarId)
+  const workstationId = trimmedString(input.workstationId)
+  if (!agentId || !name || !avatarId || !workstationId) {
+    return 'agentId, name, avatarId and workstationId are required'
+  }
+
+  const x = Number(input.position?.x)
+  const y = Number(input.position?.y)
+  if (input.position?.x === '' || input.position?.y === '' || !Number.isFinite(x + y)) {
+    return 'position must have numeric x and y'
+  }
+
+  const metadata = input.metadata ?? null
+  if (metadata !== null && (typeof metadata !== 'object' || Array.isArray(metadata))) {
+    return 'metadata must be an object'
+  }
+
+  return {
+    agentId,
+    name,
+    avatarId,
+    workstationId,
+    position: { x, y },
+    role: trimmedString(input.role),
+    voiceAgentId: trimmedString(input.voiceAgentId),
+    metadata: metadata && Object.keys(metadata).length ? metadata : null,
+  }
+}
+
+/**
+ * Validates imported records and rejects duplicates. Either every record is valid and returned,
+ * or the errors are, so an import never applies half of its input.
+ */
+export function parseNpcRecords(
+  input: unknown,
+  rowOffset = 0
+): { records: NpcRecord[] } | { errors: NpcRecordError[] } {
+  if (!Array.isArray(input)) return { errors: [{ row: 0, message: 'expected a list of NPCs' }] }
+  if (input.length > MAX_RECORDS) {
+    return { errors: [{ row: 0, message: `at most ${MAX_RECORDS} NPCs can be imported at once` }] }
+  }
+
+  const records: NpcRecord[] = []
+  const errors: NpcRecordError[] = []
+  const seen = new Set<string>()
+  input.forEach((raw, index) => {
+    const row = index + 1 + rowOffset
+    const record = parseRecord(raw)
+    if (typeof record === 'string') {
+      errors.push({ row, message: record })
+    } else if (seen.has(record.agentId)) {
+      errors.push({ row, message: `duplicate agentId '${record.agentId}'` })
+    } else {
+      seen.add(record.agentId)
+      records.push(record)
+    }
+  })
+  return errors.length ? { errors } : { records }
+}
+
+const csvCell = (value: unknown) => {
+  const text = value === null || value === undefined ? '' : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function formatNpcCsv(records: NpcRecord[]) {
+  const lines = records.map((record) =>
+    [
+      record.agentId,
+      record.name,
+      record.avatarId,
+      record.workstationId,
+      record.position.x,
+      record.position.y,
+      record.role,
+      record.voiceAgentId,
+      record.metadata ? JSON.stringify(record.metadata) : '',
+    ]
+      .map(csvCell)
+      .join(',')
+  )
+  return [NPC_CSV_COLUMNS.join(','), ...lines].join('\r\n') + '\r\n'
+}
+
+// RFC 4180 rows: quoted cells may contain commas, doubled quotes and line breaks
+function splitCsvRows(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i += 1
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i += 1
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell)
+    rows.push(row)
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()))
+}
+
+export function parseNpcCsv(text: string): { records: NpcRecord[] } | { errors: NpcRecordError[] } {
+  const rows = splitCsvRows(text.replace(/^\uFEFF/, ''))
+  if (!rows.length) return { errors: [{ row: 1, message: 'CSV header is missing' }] }
+
+  const header = rows[0].map((column) => column.trim())
+  const missing = REQUIRED_CSV_COLUMNS.filter((column) => !header.includes(column))
+  if (missing.length) {
+    return { errors: [{ row: 1, message: `CSV is missing columns: ${missing.join(', ')}` }] }
+  }
+
+  const errors: NpcRecordError[] = []
+  const objects = rows.slice(1).map((cells, index) => {
+    const value = (column: string) => {
+      const position = header.indexOf(column)
+      return position === -1 ? '' : (cells[position] ?? '').trim()
+    }
+    let metadata: unknown = null
+    if (value('metadata')) {
+      try {
+        metadata = JSON.parse(value('metadata'))
+      } catch {
+        errors.push({ row: index + 2, message: 'metadata is not valid JSON' })
+      }
+    }
+    return {
+      agentId: value('agentId'),
+      name: value('name'),
+      avatarId: value('avatarId'),
+      workstationId: value('workstationId'),
+      position: { x: value('x'), y: value('y') },
+      role: value('role'),
+      voiceAgentId: value('voiceAgentId'),
+      metadata,
+    }
+  })
+  if (errors.length) return { errors }
+  return parseNpcRecords(objects, 1)
+}
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b)
+
+export function diffNpcRecords(
+  existing: NpcRecord[],
+  incoming: NpcRecord[],
+  prune = false
+): NpcImportDiff {
+  const current = new Map(existing.map((record) => [record.agentId, record]))
+  const diff: NpcImportDiff = { created: [], updated: [], unchanged: [], removed: [] }
+
+  incoming.forEach((record) => {
+    const previous = current.get(record.agentId)
+    if (!previous) {
+      diff.created.push(record)
+      return
+    }
+    const changes: NpcRecordChange['changes'] = {}
+    COMPARED_FIELDS.forEach((field) => {
+      if (!sameValue(previous[field], record[field])) {
+        changes[field] = { from: previous[field], to: record[field] }
+      }
+    })
+    if (Object.keys(changes).length) {
+      diff.updated.push({ agentId: record.agentId, changes })
+    } else {
+      diff.unchanged.push(record.agentId)
+    }
+  })
+
+  if (prune) {
+    const incomingIds = new Set(incoming.map((record) => record.agentId))
+    diff.removed = existing
+      .filter((record) => !incomingIds.has(record.agentId))
+      .map((record) => record.agentId)
+  }
+  return diff
+}
@@ -0,0 +1,156 @@
+import { Player } from './schema/OfficeState'
+import { Direction, Point } from '../pathfinding/MapObjects'
+import { PLAYER_SPEED } from '../pathfinding/MovementValidator'
+
+export type NpcWalkStatus = 'walking' | 'arrived' | 'cancelled'
+
+export interface NpcWalkArrival {
+  posture: 'sit' | 'idle'
+  // defaults to the direction the NPC was walking in
+  direction?: Direction
+  workstationId?: string
+  computerId?: string
+}
+
+export interface NpcWalk {
+  id: string
+  agentId: string
+  status: NpcWalkStatus
+  target: Point
+  path: Point[]
+  arrival: NpcWalkArrival
+  startedAt: string
+  finishedAt?: string
+  cancelReason?: string
+}
+
+interface ActiveWalk {
+  walk: NpcWalk
+  player: Player
+  avatarId: string
+  nextIndex: number
+}
+
+let walkSequence = 0
+
+function getRunDirection(dx: number, dy: number): Direction {
+  // prefer the horizontal animation on diagonals, like MyPlayer does
+  if (Math.abs(dx) >= Math.abs(dy) && dx !== 0) return dx > 0 ? 'right' : 'left'
+  return dy > 0 ? 'down' : 'up'
+}
+
+/**
+ * Moves NPC players along precomputed paths at player speed. The room calls `tick` from its
+ * clock; position and animation changes go straight into the Player schema so clients animate
+ * the NPC like any other player.
+ */
+export class NpcWalker {
+  private active = new Map<string, ActiveWalk>()
+  private latest = new Map<string, NpcWalk>()
+
+  constructor(private readonly onFinished: (walk: NpcWalk) => void) {}
+
+  start(
+    agentId: string,
+    player: Player,
+    avatarId: string,
+    path: Point[],
+    arrival: NpcWalkArrival
+  ): NpcWalk {
+    this.cancel(agentId, 'superseded')
+
+    walkSequence += 1
+    const walk: NpcWalk = {
+      id: `walk-${Date.now().toString(36)}-${walkSequence}`,
+      agentId,
+      status: 'walking',
+      target: path[path.length - 1],
+      path,
+      arrival,
+      startedAt: new Date().toISOString(),
+    }
+    this.active.set(agentId, { walk, player, avatarId, nextIndex: 0 })
+    this.latest.set(agentId, walk)
+    return walk
+  }
+
+  // `notify: false` leaves out the finish callback, for callers that place the NPC themselves
+  cancel(agentId: string, reason: string, notify = true): NpcWalk | undefined {
+    const entry = this.active.get(agentId)
+    if (!entry) return undefined
+    this.active.delete(agentId)
+    entry.walk.status = 'cancelled'
+    entry.walk.cancelReason = reason
+    entry.walk.finishedAt = new Date().toISOString()
+    const [, , facing] = entry.player.anim.split('_')
+    entry.player.anim = `${entry.avatarId}_idle_${facing || 'down'}`
+    if (notify) this.onFinished(entry.walk)
+    return entry.walk
+  }
+
+  // forget everything about an agent, e.g. once it is removed from the room
+  forget(agentId: string) {
+    this.active.delete(agentId)
+    this.latest.delete(agentId)
+  }
+
+  isWalking(agentId: string) {
+    return this.active.has(agentId)
+  }
+
+  getLatest(agentId: string): NpcWalk | undefined {
+    return this.latest.get(agentId)
+  }
+
+  tick(deltaMs: number) {
+    const finished: ActiveWalk[] = []
+    this.active.forEach((entry) => {
+      if (this.advance(entry, (PLAYER_SPEED * deltaMs) / 1000)) finished.push(entry)
+    })
+
+    finished.forEach((entry) => {
+      const { walk, player, avatarId } = entry
+      this.active.delete(walk.agentId)
+      walk.status = 'arrived'
+      walk.finishedAt = new Date().toISOString()
+      const state = walk.arrival.posture === 'sit' ? 'sit' : 'idle'
+      const [, , facing] = player.anim.split('_')
+      player.anim = `${avatarId}_${state}_${walk.arrival.direction || facing || 'down'}`
+      this.onFinished(walk)
+    })
+  }
+
+  // moves the player up to `distance` pixels along its path; returns true once it arrived
+  private advance(entry: ActiveWalk, distance: number) {
+    const { walk, player, avatarId } = entry
+    let remaining = distance
+    let direction: Direction | undefined
+
+    while (remaining > 0 && entry.nextIndex < walk.path.length) {
+      const waypoint = walk.path[entry.nextIndex]
+      const dx = waypoint.x - player.x
+      const dy = waypoint.y - player.y
+      const gap = Math.hypot(dx, dy)
+      if (gap > 0) direction = getRunDirection(dx, dy)
+
+      if (gap <= remaining) {
+        player.x = waypoint.x
+        player.y = waypoint.y
+        remaining -= gap
+        entry.nextIndex += 1
+      } else {
+        player.x += (dx / gap) * remaining
+        player.y += (dy / gap) * remaining
+        remaining = 0
+      }
+    }
+
+    if (entry.nextIndex >= walk.path.length) return true
+
+    if (direction) {
+      const runAnim = `${avatarId}_run_${direction}`
+      if (player.anim !== runAnim) player.anim = runAnim
+    }
+    return false
+  }
+}
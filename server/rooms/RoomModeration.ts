@@ -0,0 +1,130 @@
+import crypto from 'crypto'
+import { IncomingMessage } from 'http'
+import {
+  MAX_MODERATION_DURATION_MS,
+  MAX_MODERATION_REASON_LENGTH,
+  ModerationAuditAction,
+  PLAYER_IDENTITY_PATTERN,
+} from '../../types/Moderation'
+import { PersistedBan, saveBan, saveModerationAuditEntry } from '../persistence/ModerationStore'
+
+// honour X-Forwarded-For only behind a proxy that sets it, or anyone could dodge an IP ban
+const TRUST_PROXY = process.env.SKYOFFICE_TRUST_PROXY === 'true'
+
+// who took a moderation action: a moderator in the room, or a management API token
+export interface ModerationActor {
+  // `player:<identity>` or `api:<agentId>`
+  id: string
+  name: string
+}
+
+// the player a moderation action applies to
+export interface ModerationTarget {
+  name: string
+  identity: string | null
+  ip: string | null
+}
+
+export interface BanRequest {
+  identity: string | null
+  ip: string | null
+  durationMs: number | null
+  reason: string
+}
+
+export function resolveClientIp(request?: IncomingMessage): string | null {
+  const forwarded = request?.headers['x-forwarded-for']
+  const header = Array.isArray(forwarded) ? forwarded[0] : forwarded
+  const address =
+    (TRUST_PROXY && header ? header.split(',')[0].trim() : '') || request?.socket?.remoteAddress
+  // IPv4 clients of a dual-stack server show up as ::ffff:1.2.3.4
+  return address ? address.replace(/^::ffff:/, '') : null
+}
+
+// the identity a client joined with, or a new one for clients that sent none
+export function resolvePlayerIdentity(raw: unknown): string {
+  const identity = typeof raw === 'string' ? raw.trim() : ''
+  return PLAYER_IDENTITY_PATTERN.test(identity) ? identity : crypto.randomUUID()
+}
+
+/**
+ * Validates a ban from the management API, which may target players who are not in the room.
+ * Returns an error message when it is invalid.
+ */
+export function parseBanRequest(body: any): BanRequest | string {
+  const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '')
+  const identity = text(body?.identity) || null
+  const ip = text(body?.ip) || null
+  if (!identity && !ip) return 'identity or ip is required'
+  if (identity && !PLAYER_IDENTITY_PATTERN.test(identity)) return 'identity has invalid format'
+  if (ip && ip.length > 64) return 'ip exceeds 64 characters'
+
+  const durationMs = body?.durationMs ?? null
+  if (
+    durationMs !== null &&
+    (!Number.isSafeInteger(durationMs) ||
+      durationMs < 1000 ||
+      durationMs > MAX_MODERATION_DURATION_MS)
+  ) {
+    return `durationMs must be an integer between 1000 and ${MAX_MODERATION_DURATION_MS}`
+  }
+  const reason = text(body?.reason)
+  if (reason.length > MAX_MODERATION_REASON_LENGTH) {
+    return `reason exceeds ${MAX_MODERATION_REASON_LENGTH} characters`
+  }
+  return { identity, ip, durationMs, reason }
+}
+
+// writes an action to the namespace's audit trail; a failed write is logged, not fatal
+export function recordModerationAction(
+  namespaceSlug: string,
+  action: ModerationAuditAction,
+  actor: ModerationActor,
+  target: ModerationTarget,
+  details: { reason?: string; durationMs?: number | null; banId?: number | null } = {}
+) {
+  try {
+    saveModerationAuditEntry({
+      namespaceSlug,
+      action,
+      actorId: actor.id,
+      actorName: actor.name,
+      targetName: target.name,
+      targetIdentity: target.identity,
+      targetIp: target.ip,
+      reason: details.reason ?? '',
+      durationMs: details.durationMs ?? null,
+      banId: details.banId ?? null,
+      createdAt: Date.now(),
+    })
+  } catch (err) {
+    console.warn('[moderation] Failed to write audit entry', namespaceSlug, action, err)
+  }
+}
+
+/**
+ * Stores a ban of the target's identity or IP address for the namespace and audits it. Throws
+ * when the ban cannot be stored, so callers never report a ban that does not hold.
+ */
+export function banFromNamespace(
+  namespaceSlug: string,
+  actor: ModerationActor,
+  target: ModerationTarget,
+  durationMs: number | null,
+  reason: string
+): PersistedBan {
+  const createdAt = Date.now()
+  const ban: Omit<PersistedBan, 'id'> = {
+    namespaceSlug,
+    identity: target.identity,
+    ip: target.ip,
+    name: target.name,
+    reason,
+    createdBy: actor.id,
+    createdAt,
+    expiresAt: durationMs ? createdAt + durationMs : null,
+  }
+  const id = saveBan(ban)
+  recordModerationAction(namespaceSlug, 'ban', actor, target, { reason, durationMs, banId: id })
+  return { ...ban, id }
+}
@@ -1,13 +1,50 @@
 import bcrypt from 'bcrypt'
+import { IncomingMessage } from 'http'
 import { Room, Client, ServerError, matchMaker, updateLobby } from 'colyseus'
 import * as RawMatchMaker from '@colyseus/core/build/MatchMaker'
 import { Dispatcher } from '@colyseus/command'
-import { Player, OfficeState, Computer, Whiteboard } from './schema/OfficeState'
+import { Player, OfficeState, Computer, Whiteboard, ChatMessage } from './schema/OfficeState'
 import { Message } from '../../types/Messages'
-import { IRoomData } from '../../types/Rooms'
+import {
+  ChannelChatMessage,
+  ChannelMessageFailure,
+  ChatFloodNotice,
+  ChatCommandList,
+  ChatHistoryPage,
+  ChatMention,
+  ClientMessage,
+  ClientMessagePayloads,
+  ModerationNotice,
+  ModerationResult,
+  PlayerPositionCorrection,
+  RoomAdminResult,
+  validateClientMessage,
+} from '../../types/MessagePayloads'
+import { GLOBAL_CHANNEL, isInMapArea, parseChatChannel } from '../../types/ChatChannels'
+import { IRoomData, RoomType } from '../../types/Rooms'
+import { DEFAULT_MAP_ID, getOfficeMap } from '../../types/OfficeMaps'
+import { OfficeLayout } from '../../types/OfficeLayout'
+import { CustomChatCommand } from '../../types/ChatCommands'
+import { formatChatHtml, mentionsHandle } from '../../types/ChatFormatting'
+import {
+  DEFAULT_MUTE_MS,
+  MODERATION_CLOSE_CODE,
+  PLAYER_IDENTITY_PATTERN,
+  describeDuration,
+} from '../../types/Moderation'
+import { DEFAULT_ROOM_ROLE, RoomRole, canModerate, outranks } from '../../types/RoomRoles'
 import { whiteboardRoomIds } from './schema/OfficeState'
 import { resolveComputerIdFromWorkstation } from '../../../shared/workstationSeats'
-import { saveNpc, allNpcs, PersistedNpc, removeNpc as removeNpcPersist } from '../persistence/NpcStore'
+import {
+  saveNpc,
+  allNpcs,
+  PersistedNpc,
+  removeNpc as removeNpcPersist,
+  saveNpcSchedule,
+  getNpcSchedule as getPersistedNpcSchedule,
+  removeNpcSchedule,
+  applyNpcChanges,
+} from '../persistence/NpcStore'
 import { patchRegistryAgent, patchRegistryOffice } from '../services/registryApi'
 
 const normaliseNpcRole = (role?: string): string => {
@@ -43,6 +80,82 @@ interface NpcUpsertOptions {
   skipPersistence?: boolean
   skipRegistrySync?: boolean
 }
+
+export interface NpcWalkTarget {
+  position?: Point
+  workstationId?: string
+  computerId?: string
+  whiteboardId?: string
+}
+
+export type NpcSayResult =
+  | { content: string }
+  | { error: 'NPC_NOT_FOUND' | 'INVALID_CONTENT'; message: string }
+
+export type NpcWalkErrorCode = 'NPC_NOT_FOUND' | 'TARGET_NOT_FOUND' | 'PATH_NOT_FOUND'
+
+export type NpcWalkResult = { walk: NpcWalk } | { error: NpcWalkErrorCode; message: string }
+
+export interface MessageStats {
+  // messages dropped for being malformed or referring to unknown items, by message name
+  rejected: Record<string, number>
+  // messages dropped for exceeding their rate limit, by message name
+  rateLimited: Record<string, number>
+  chatFlood: Record<ChatFloodAction, number>
+}
+
+export type SeatType = 'chair' | 'workstation'
+
+export interface FreeSeat {
+  type: SeatType
+  chairId: string
+  // set for workstations; walk an NPC there with this computerId
+  computerId?: string
+  // where a player sits on the chair
+  position: Point
+  direction: Direction
+  // path cost in tiles to a tile next to the chair, see WalkableMap.findRoute
+  cost: number
+}
+
+export type LayoutUpdateResult =
+  | { layout: OfficeLayout | null }
+  | { error: 'PERSISTENCE_FAILED'; message: string }
+
+export type ChatCommandUpdateResult =
+  | { command: CustomChatCommand }
+  | { error: 'TOO_MANY_COMMANDS' | 'PERSISTENCE_FAILED'; message: string }
+
+export type ModerationOutcome =
+  | { message: string }
+  | {
+      error: 'PLAYER_NOT_FOUND' | 'NOT_ALLOWED' | 'NOT_MUTED' | 'PERSISTENCE_FAILED'
+      message: string
+    }
+
+export type RoleOutcome =
+  | { message: string }
+  | { error: 'PLAYER_NOT_FOUND' | 'NOT_ALLOWED'; message: string }
+
+export type NpcImportResult =
+  | { diff: NpcImportDiff; applied: boolean }
+  | { error: 'AGENT_CONFLICT' | 'PERSISTENCE_FAILED'; message: string; agentIds?: string[] }
+
+interface NpcWalkDestination {
+  point: Point
+  // the destination is not walkable itself (a chair), so path to a tile next to it instead
+  approach: boolean
+  arrival: NpcWalkArrival
+}
+
+const NPC_WALK_TICK_MS = 100
+const NPC_SCHEDULE_INTERVAL_MS = 30_000
+// application close code (4000-4999) for clients disconnected for flooding the chat
+const CHAT_FLOOD_CLOSE_CODE = 4429
+// older room channel messages sent per CHAT_HISTORY request
+const CHAT_HISTORY_PAGE_SIZE = 50
+// proximity channel messages reach players within this many pixels of the sender
+const PROXIMITY_CHAT_RADIUS = Number(process.env.SKYOFFICE_PROXIMITY_CHAT_RADIUS || 200)
 import PlayerUpdateCommand from './commands/PlayerUpdateCommand'
 import PlayerUpdateNameCommand from './commands/PlayerUpdateNameCommand'
 import {
@@ -53,10 +166,67 @@ import {
   WhiteboardAddUserCommand,
   WhiteboardRemoveUserCommand,
 } from './commands/WhiteboardUpdateArrayCommand'
-import ChatMessageUpdateCommand from './commands/ChatMessageUpdateCommand'
-import { saveRoom, deleteRoomByName } from '../persistence/RoomStore'
+import ChatMessageUpdateCommand, { CHAT_RECENT_WINDOW } from './commands/ChatMessageUpdateCommand'
+import ChatMessageEditCommand from './commands/ChatMessageEditCommand'
+import ChatMessageDeleteCommand from './commands/ChatMessageDeleteCommand'
+import ChatReactionToggleCommand from './commands/ChatReactionToggleCommand'
+import DirectMessageCommand from './commands/DirectMessageCommand'
+import { saveRoom, deleteRoomByName, hasRoom, renameRoom } from '../persistence/RoomStore'
+import { getOfficeLayout, removeOfficeLayout, saveOfficeLayout } from '../persistence/LayoutStore'
+import { deleteChatMessages, getChatMessages } from '../persistence/ChatStore'
+import {
+  deleteChatCommands,
+  listChatCommands,
+  removeChatCommand,
+  saveChatCommand,
+} from '../persistence/ChatCommandStore'
+import { ChatCommandRegistry, MAX_CUSTOM_COMMANDS } from './ChatCommandRegistry'
+import { PersistedBan, deleteModerationData, findActiveBan } from '../persistence/ModerationStore'
+import {
+  ModerationActor,
+  ModerationTarget,
+  banFromNamespace,
+  recordModerationAction,
+  resolveClientIp,
+  resolvePlayerIdentity,
+} from './RoomModeration'
 import { verifyManagerToken, ManagerTokenPayload } from '../lib/managerToken'
+import { authenticateApiToken, checkApiTarget, isApiAuthFailure } from '../lib/apiAuth'
 import { resolvePresenceSecret } from '../services/presenceSecret'
+import { MovementValidator } from '../pathfinding/MovementValidator'
+import { clearNamespaceLayout, setNamespaceLayout } from '../pathfinding/OfficeMapSource'
+import { findRoute, getMapMetadata, getTileCosts } from '../pathfinding/WalkableMap'
+import { OccupancyLayer } from '../pathfinding/OccupancyLayer'
+import {
+  ChairObject,
+  Direction,
+  Point,
+  findNearestChair,
+  getChairs,
+  getComputer,
+  getAreas,
+  getComputers,
+  getSittingPosition,
+  getWhiteboard,
+  getWhiteboards,
+} from '../pathfinding/MapObjects'
+import { NpcWalker, NpcWalk, NpcWalkArrival } from './NpcWalker'
+import {
+  ActiveScheduleEntry,
+  DEFAULT_OFFICE_TIMEZONE,
+  NpcSchedule,
+  getActiveScheduleEntry,
+  isValidTimezone,
+  parseNpcSchedule,
+} from './NpcSchedule'
+import { NpcMention, NpcMentionInbox, findMentionedAgents } from './NpcMentionInbox'
+import { emitOfficeEvent, OfficeEventType } from '../events/officeEvents'
+import { NpcImportDiff, NpcRecord, diffNpcRecords, toNpcRecord } from './NpcTransfer'
+import { ChatFloodAction, ChatFloodGuard, MessageRateLimiter } from './MessageRateLimiter'
+
+// the `serverIssued` create option of rooms the server sets up itself; clients can only send JSON,
+// so a room created from the lobby cannot hand in this object
+export const SERVER_ISSUED_ROOM = Object.freeze({})
 
 export class SkyOffice extends Room<OfficeState> {
   private static activeRooms: Map<string, SkyOffice> = new Map()
@@ -68,26 +238,58 @@ export class SkyOffice extends Room<OfficeState> {
     nancy: 'nancy_idle_down',
   }
   private dispatcher = new Dispatcher(this)
+  private movementValidator: MovementValidator
+  private rateLimiter = new MessageRateLimiter()
+  private chatFloodGuard = new ChatFloodGuard()
+  // moderator mutes by player identity, so leaving and rejoining does not lift them
+  private chatMutes = new Map<string, number>()
+  // roles granted in the room by player identity, so they outlast a reconnect
+  private roomRoles = new Map<string, RoomRole>()
+  private chatCommands = new ChatCommandRegistry(this.dispatcher, (sessionId) =>
+    this.isChatModerator(sessionId)
+  )
+  private messageStats: MessageStats = {
+    rejected: {},
+    rateLimited: {},
+    chatFlood: { warn: 0, mute: 0, disconnect: 0 },
+  }
+  private npcWalker = new NpcWalker((walk) => this.handleNpcWalkFinished(walk))
+  private npcSchedules = new Map<string, NpcSchedule | null>()
+  // last schedule slot each NPC was sent to, so a slot is only walked to once
+  private appliedNpcSchedules = new Map<string, string>()
+  private npcMentions = new NpcMentionInbox()
+  // occupants per computer/whiteboard as last published, keyed `computer:<id>` / `whiteboard:<id>`
+  private publishedOccupancy = new Map<string, string[]>()
+  private presenceCounts = { clientsOnlineCount: 0, npcOnlineCount: 0, totalOnlineCount: 0 }
   private name: string
   private description: string
   private password: string | null = null
   private npcAssignments = new Map<string, NpcAssignment>()
   private namespaceSlug?: string
+  // rooms the server sets up keep their chat under the namespace, lobby rooms under their own id
+  private chatHistoryKey = ''
   private customDomain?: string
   private roomMetadata: Record<string, unknown> = {}
   private registryOfficeId?: string | null
-
+  private mapId = DEFAULT_MAP_ID
+  // resolves to the map with the namespace layout applied, see OfficeMapSource
+  private mapKey: string
+  private layout: OfficeLayout | null = null
 
   private static getNpcKey(agentId: string): string {
     return `npc-${agentId}`
   }
 
-  async onCreate(options: IRoomData) {
+  async onCreate(options: IRoomData & { serverIssued?: object }) {
     const { name, description } = options
     const autoDisposeOpt = (options as any).autoDispose
     const passwordOpt = (options as any).password
     const passwordHashOpt = (options as any).passwordHash as string | null | undefined
-    const namespaceSlug = (options as any).namespaceSlug as string | undefined
+    // only rooms the server sets up may pick their namespace, lobby rooms are keyed by their name
+    const serverIssued = options.serverIssued === SERVER_ISSUED_ROOM
+    const namespaceSlug = serverIssued
+      ? ((options as any).namespaceSlug as string | undefined)
+      : undefined
     const metadataOpt = (options as any).metadata as Record<string, unknown> | undefined
 
     const resolvedNamespace = (namespaceSlug && namespaceSlug.trim()) || name
@@ -100,7 +302,30 @@ export class SkyOffice extends Room<OfficeState> {
     this.description = resolvedDescription
     this.autoDispose = autoDisposeOpt ?? false
     this.namespaceSlug = resolvedNamespace.trim().toLowerCase()
+    if (!serverIssued && SkyOffice.namespaceRooms.has(this.namespaceSlug)) {
+      throw new ServerError(409, 'A room with this name already exists')
+    }
+    this.chatHistoryKey = serverIssued ? this.namespaceSlug : `room:${this.roomId}`
     this.customDomain = (metadataOpt?.customDomain as string | undefined) || undefined
+    // whoever creates a custom room from the lobby owns it; rooms the server sets up have no owner
+    const creatorIdentity = (options as any).identity
+    if (
+      this.roomName === RoomType.CUSTOM &&
+      typeof creatorIdentity === 'string' &&
+      PLAYER_IDENTITY_PATTERN.test(creatorIdentity.trim())
+    ) {
+      this.roomRoles.set(creatorIdentity.trim(), 'owner')
+    }
+
+    const requestedMapId = options.mapId ?? metadataOpt?.mapId
+    const officeMap = getOfficeMap(requestedMapId ?? DEFAULT_MAP_ID)
+    if (!officeMap) {
+      console.warn(`[skyoffice] Unknown map '${requestedMapId}' for room '${name}', using default`)
+    }
+    this.mapId = officeMap?.id ?? DEFAULT_MAP_ID
+    this.layout = this.loadStoredLayout()
+    this.mapKey = setNamespaceLayout(this.namespaceSlug, this.mapId, this.layout)
+    this.movementValidator = new MovementValidator(this.mapKey)
 
     let hasPassword = false
     if (passwordHashOpt) {
@@ -129,6 +354,7 @@ export class SkyOffice extends Room<OfficeState> {
     if (!metadataPayload.displayName) {
       metadataPayload.displayName = name
     }
+    metadataPayload.mapId = this.mapId
 
     this.roomMetadata = metadataPayload
     const registryOfficeId =
@@ -139,6 +365,11 @@ export class SkyOffice extends Room<OfficeState> {
     metadataPayload.activeRoomId = this.roomId
     this.setMetadata(metadataPayload)
     this.setState(new OfficeState())
+    this.state.mapId = this.mapId
+    this.state.namespaceSlug = this.namespaceSlug
+    this.state.layout = this.layout ? JSON.stringify(this.layout) : ''
+    this.loadRecentChatMessages()
+    this.loadChatCommands()
     SkyOffice.activeRooms.set(this.roomId, this)
     if (this.namespaceSlug) {
       SkyOffice.namespaceRooms.set(this.namespaceSlug, this)
@@ -158,34 +389,51 @@ export class SkyOffice extends Room<OfficeState> {
       autoDispose: !!this.autoDispose,
     })
 
-    // HARD-CODED: Add 5 computers in a room
-    for (let i = 0; i < 5; i++) {
-      this.state.computers.set(String(i), new Computer())
-    }
-
-    // HARD-CODED: Add 3 whiteboards in a room
-    for (let i = 0; i < 3; i++) {
-      this.state.whiteboards.set(String(i), new Whiteboard())
-    }
+    // move walking NPCs along their paths on a fixed server tick, then report who sits where
+    this.setSimulationInterval((deltaTime) => {
+      this.npcWalker.tick(deltaTime)
+      this.publishOccupancyChanges()
+    }, NPC_WALK_TICK_MS)
+    // send NPCs to wherever their daily schedule says they should be
+    this.clock.setInterval(() => this.runNpcSchedules(), NPC_SCHEDULE_INTERVAL_MS)
+
+    // add the computers and whiteboards of the Tiled map, keyed by the ids the client uses too
+    getComputers(this.mapKey).forEach((computer) => {
+      this.state.computers.set(computer.id, new Computer())
+    })
+    getWhiteboards(this.mapKey).forEach((whiteboard) => {
+      this.state.whiteboards.set(whiteboard.id, new Whiteboard())
+    })
 
     // when a player connect to a computer, add to the computer connectedUser array
-    this.onMessage(Message.CONNECT_TO_COMPUTER, (client, message: { computerId: string }) => {
+    this.onValidatedMessage(Message.CONNECT_TO_COMPUTER, (client, message) => {
+      if (!this.hasComputer(client, Message.CONNECT_TO_COMPUTER, message.computerId)) return
       this.dispatcher.dispatch(new ComputerAddUserCommand(), {
         client,
         computerId: message.computerId,
       })
+      this.emitRoomEvent('computer.joined', {
+        ...this.describePlayer(client.sessionId),
+        computerId: message.computerId,
+      })
     })
 
     // when a player disconnect from a computer, remove from the computer connectedUser array
-    this.onMessage(Message.DISCONNECT_FROM_COMPUTER, (client, message: { computerId: string }) => {
+    this.onValidatedMessage(Message.DISCONNECT_FROM_COMPUTER, (client, message) => {
+      if (!this.hasComputer(client, Message.DISCONNECT_FROM_COMPUTER, message.computerId)) return
       this.dispatcher.dispatch(new ComputerRemoveUserCommand(), {
         client,
         computerId: message.computerId,
       })
+      this.emitRoomEvent('computer.left', {
+        ...this.describePlayer(client.sessionId),
+        computerId: message.computerId,
+      })
     })
 
     // when a player stop sharing screen
-    this.onMessage(Message.STOP_SCREEN_SHARE, (client, message: { computerId: string }) => {
+    this.onValidatedMessage(Message.STOP_SCREEN_SHARE, (client, message) => {
+      if (!this.hasComputer(client, Message.STOP_SCREEN_SHARE, message.computerId)) return
       const computer = this.state.computers.get(message.computerId)
       computer.connectedUser.forEach((id) => {
         this.clients.forEach((cli) => {
@@ -194,84 +442,947 @@ export class SkyOffice extends Room<OfficeState> {
           }
         })
       })
+      this.emitRoomEvent('screenshare.stopped', {
+        ...this.describePlayer(client.sessionId),
+        computerId: message.computerId,
+      })
+    })
+
+    // when a player starts sharing screen; the stream itself goes peer to peer
+    this.onValidatedMessage(Message.START_SCREEN_SHARE, (client, message) => {
+      if (!this.hasComputer(client, Message.START_SCREEN_SHARE, message.computerId)) return
+      const computer = this.state.computers.get(message.computerId)
+      if (!computer.connectedUser.has(client.sessionId)) {
+        this.rejectMessage(client, Message.START_SCREEN_SHARE, 'not connected to this computer')
+        return
+      }
+      this.emitRoomEvent('screenshare.started', {
+        ...this.describePlayer(client.sessionId),
+        computerId: message.computerId,
+      })
+    })
+
+    // when a player connect to a whiteboard, add to the whiteboard connectedUser array
+    this.onValidatedMessage(Message.CONNECT_TO_WHITEBOARD, (client, message) => {
+      if (!this.hasWhiteboard(client, Message.CONNECT_TO_WHITEBOARD, message.whiteboardId)) return
+      this.dispatcher.dispatch(new WhiteboardAddUserCommand(), {
+        client,
+        whiteboardId: message.whiteboardId,
+      })
+    })
+
+    // when a player disconnect from a whiteboard, remove from the whiteboard connectedUser array
+    this.onValidatedMessage(Message.DISCONNECT_FROM_WHITEBOARD, (client, message) => {
+      if (!this.hasWhiteboard(client, Message.DISCONNECT_FROM_WHITEBOARD, message.whiteboardId)) {
+        return
+      }
+      this.dispatcher.dispatch(new WhiteboardRemoveUserCommand(), {
+        client,
+        whiteboardId: message.whiteboardId,
+      })
+    })
+
+    // when receiving updatePlayer message, check the move and call the PlayerUpdateCommand
+    this.onValidatedMessage(Message.UPDATE_PLAYER, (client, message) => {
+      const player = this.state.players.get(client.sessionId)
+      if (!player) return
+      const verdict = this.movementValidator.validate(client.sessionId, player, message)
+      if (verdict.ok === false) {
+        this.rejectMessage(client, Message.UPDATE_PLAYER, verdict.reason)
+        const correction: PlayerPositionCorrection = {
+          x: player.x,
+          y: player.y,
+          anim: player.anim,
+          reason: verdict.reason,
+        }
+        client.send(Message.PLAYER_POSITION_CORRECTION, correction)
+        return
+      }
+      this.dispatcher.dispatch(new PlayerUpdateCommand(), {
+        client,
+        x: message.x,
+        y: message.y,
+        anim: message.anim,
+      })
+    })
+
+    // when receiving updatePlayerName message, call the PlayerUpdateNameCommand
+    this.onValidatedMessage(Message.UPDATE_PLAYER_NAME, (client, message) => {
+      this.dispatcher.dispatch(new PlayerUpdateNameCommand(), {
+        client,
+        name: message.name,
+      })
+    })
+
+    // when a player is ready to connect, call the PlayerReadyToConnectCommand
+    this.onValidatedMessage(Message.READY_TO_CONNECT, (client) => {
+      const player = this.state.players.get(client.sessionId)
+      if (player) player.readyToConnect = true
+    })
+
+    // when a player is ready to connect, call the PlayerReadyToConnectCommand
+    this.onValidatedMessage(Message.VIDEO_CONNECTED, (client) => {
+      const player = this.state.players.get(client.sessionId)
+      if (player) player.videoConnected = true
+    })
+
+    // when a player disconnect a stream, broadcast the signal to the other player connected to the stream
+    this.onValidatedMessage(Message.DISCONNECT_STREAM, (client, message) => {
+      this.clients.forEach((cli) => {
+        if (cli.sessionId === message.clientId) {
+          cli.send(Message.DISCONNECT_STREAM, client.sessionId)
+        }
+      })
+    })
+
+    // when a player send a chat message, update the message array and broadcast to all connected clients except the sender
+    this.onValidatedMessage(Message.ADD_CHAT_MESSAGE, (client, message) => {
+      // muted clients were told already; their messages are dropped quietly
+      if (this.getChatMutedUntil(client.sessionId)) return
+
+      if (message.channel && message.channel !== GLOBAL_CHANNEL) {
+        this.sendChannelMessage(client, message.channel, message.content)
+        return
+      }
+
+      // store the message and add it to the recent window that joining players receive
+      this.dispatcher.dispatch(new ChatMessageUpdateCommand(), {
+        playerId: client.sessionId,
+        content: message.content,
+        historyKey: this.chatHistoryKey,
+      })
+
+      // broadcast to all currently connected clients except the sender (to render in-game dialog on top of the character)
+      this.broadcast(
+        Message.ADD_CHAT_MESSAGE,
+        { clientId: client.sessionId, content: message.content },
+        { except: client }
+      )
+
+      this.recordChatMentions(client.sessionId, message.content)
+      this.notifyMentionedPlayers(client.sessionId, message.content, GLOBAL_CHANNEL, this.clients)
+      this.emitRoomEvent('chat.message', {
+        ...this.describePlayer(client.sessionId),
+        ...this.describeChatContent(message.content),
+      })
     })
 
-    // when a player connect to a whiteboard, add to the whiteboard connectedUser array
-    this.onMessage(Message.CONNECT_TO_WHITEBOARD, (client, message: { whiteboardId: string }) => {
-      this.dispatcher.dispatch(new WhiteboardAddUserCommand(), {
-        client,
-        whiteboardId: message.whiteboardId,
-      })
+    // pages in room channel messages older than the ones a client has
+    this.onValidatedMessage(Message.CHAT_HISTORY, (client, message) => {
+      let page: ChatHistoryPage
+      try {
+        const { messages, hasMore } = getChatMessages(
+          this.chatHistoryKey,
+          CHAT_HISTORY_PAGE_SIZE,
+          message.before
+        )
+        page = {
+          messages: messages.map(({ namespaceSlug, ...stored }) => stored),
+          hasMore,
+        }
+      } catch (err) {
+        console.warn('[chat] Failed to read chat history', this.chatHistoryKey, err)
+        page = { messages: [], hasMore: false }
+      }
+      client.send(Message.CHAT_HISTORY, page)
+    })
+
+    // slash commands reply to the player or broadcast an emote, and are never stored as messages
+    this.onValidatedMessage(Message.CHAT_COMMAND, (client, message) => {
+      if (this.getChatMutedUntil(client.sessionId)) return
+      this.chatCommands.run(client, message.name, message.args)
+    })
+
+    // only the author or a moderator can change a message, and only while it is in the room state
+    this.onValidatedMessage(Message.EDIT_CHAT_MESSAGE, (client, message) => {
+      if (this.getChatMutedUntil(client.sessionId)) return
+      if (!this.canChangeChatMessage(client, Message.EDIT_CHAT_MESSAGE, message.messageId)) return
+      this.dispatcher.dispatch(new ChatMessageEditCommand(), message)
+    })
+
+    this.onValidatedMessage(Message.DELETE_CHAT_MESSAGE, (client, message) => {
+      if (!this.canChangeChatMessage(client, Message.DELETE_CHAT_MESSAGE, message.messageId)) return
+      this.dispatcher.dispatch(new ChatMessageDeleteCommand(), message)
+    })
+
+    this.onValidatedMessage(Message.TOGGLE_CHAT_REACTION, (client, message) => {
+      if (!this.state.players.has(client.sessionId)) return
+      this.dispatcher.dispatch(new ChatReactionToggleCommand(), {
+        ...message,
+        playerId: client.sessionId,
+      })
+    })
+
+    // the same as /status, for the status menu and the client's idle detection
+    this.onValidatedMessage(Message.SET_PLAYER_STATUS, (client, message) => {
+      const player = this.state.players.get(client.sessionId)
+      if (player) player.status = message.status
+    })
+
+    this.onValidatedMessage(Message.DIRECT_MESSAGE, (client, message) => {
+      if (this.getChatMutedUntil(client.sessionId)) return
+      this.dispatcher.dispatch(new DirectMessageCommand(), { client, ...message })
+    })
+
+    // moderators mute, kick and ban from the player menu, but only players below their own role
+    this.onValidatedMessage(Message.MODERATE_PLAYER, (client, message) => {
+      if (!this.isChatModerator(client.sessionId)) {
+        this.rejectMessage(client, Message.MODERATE_PLAYER, 'not a moderator')
+        return
+      }
+      const targetRole = this.state.players.get(message.playerId)?.role
+      const outcome: ModerationOutcome =
+        message.playerId === client.sessionId ||
+        (targetRole && !outranks(this.getPlayerRole(client.sessionId), targetRole))
+          ? { error: 'NOT_ALLOWED', message: 'You cannot moderate that player.' }
+          : this.moderatePlayer(this.getModerationActor(client), message)
+      const result: ModerationResult = {
+        playerId: message.playerId,
+        action: message.action,
+        message: outcome.message,
+        error: 'error' in outcome || undefined,
+      }
+      client.send(Message.MODERATION_RESULT, result)
+    })
+
+    // the owner promotes and demotes players; granting 'owner' hands the room over
+    this.onValidatedMessage(Message.SET_PLAYER_ROLE, (client, message) => {
+      if (this.getPlayerRole(client.sessionId) !== 'owner') {
+        this.rejectMessage(client, Message.SET_PLAYER_ROLE, 'not the room owner')
+        return
+      }
+      const outcome: RoleOutcome =
+        message.playerId === client.sessionId
+          ? { error: 'NOT_ALLOWED', message: 'You cannot change your own role.' }
+          : this.setPlayerRole(message.playerId, message.role)
+      if (!('error' in outcome) && message.role === 'owner') {
+        this.setPlayerRole(client.sessionId, 'moderator')
+      }
+      const result: RoomAdminResult = {
+        message: outcome.message,
+        error: 'error' in outcome || undefined,
+      }
+      client.send(Message.ROOM_ADMIN_RESULT, result)
+    })
+
+    // the owner renames the room or changes its description or password without recreating it
+    this.onValidatedMessage(Message.UPDATE_ROOM_SETTINGS, async (client, message) => {
+      if (this.getPlayerRole(client.sessionId) !== 'owner') {
+        this.rejectMessage(client, Message.UPDATE_ROOM_SETTINGS, 'not the room owner')
+        return
+      }
+      if (message.removePassword && message.password !== undefined) {
+        this.rejectMessage(client, Message.UPDATE_ROOM_SETTINGS, 'password with removePassword')
+        return
+      }
+      if (message.name && message.name !== this.name && this.isRoomNameTaken(message.name)) {
+        const taken: RoomAdminResult = {
+          message: 'Another room already has this name.',
+          error: true,
+        }
+        client.send(Message.ROOM_ADMIN_RESULT, taken)
+        return
+      }
+      let result: RoomAdminResult
+      try {
+        await this.updateRoomSettings(message)
+        result = { message: 'The room settings are saved.' }
+      } catch (err) {
+        console.error('[skyoffice] Failed to update room settings', this.namespaceSlug, err)
+        result = { message: 'Failed to save the room settings.', error: true }
+      }
+      client.send(Message.ROOM_ADMIN_RESULT, result)
+    })
+  }
+
+  private canChangeChatMessage(client: Client, type: ClientMessage, messageId: number): boolean {
+    const chatMessage = this.state.chatMessages.find((candidate) => candidate.id === messageId)
+    if (!chatMessage || chatMessage.deleted) {
+      this.rejectMessage(client, type, `message ${messageId} is not in the recent chat`)
+      return false
+    }
+    if (chatMessage.authorId !== client.sessionId && !this.isChatModerator(client.sessionId)) {
+      this.rejectMessage(client, type, `not allowed to change message ${messageId}`)
+      return false
+    }
+    return true
+  }
+
+  private getPlayerRole(sessionId: string): string {
+    return this.state.players.get(sessionId)?.role ?? DEFAULT_ROOM_ROLE
+  }
+
+  private isChatModerator(sessionId: string): boolean {
+    return canModerate(this.getPlayerRole(sessionId))
+  }
+
+  /**
+   * Gives a player in the room a role and keeps it for their identity, so it holds when they
+   * rejoin. Callers check that the player may be given the role.
+   */
+  public setPlayerRole(playerId: string, role: RoomRole): RoleOutcome {
+    const client = this.clients.find((cli) => cli.sessionId === playerId)
+    const player = this.state.players.get(playerId)
+    if (!client || !player) {
+      return { error: 'PLAYER_NOT_FOUND', message: 'That player is not in the room.' }
+    }
+    const identity = (client as unknown as { userData?: any }).userData?.identity
+    if (identity) this.roomRoles.set(identity, role)
+    player.role = role
+    // commands limited to moderators come and go with the role
+    this.sendChatCommandList(client)
+    this.emitRoomEvent('player.role.changed', { ...this.describePlayer(playerId), role })
+    const name = player.name || 'The player'
+    switch (role) {
+      case 'owner':
+        return { message: `${name} now owns the room.` }
+      case 'moderator':
+        return { message: `${name} is now a moderator.` }
+      case 'member':
+        return { message: `${name} is now a member.` }
+    }
+  }
+
+  // the room data players see in the game, sent on join and whenever the owner changes it
+  private getRoomData() {
+    return {
+      id: this.roomId,
+      name: this.name,
+      description: this.description,
+      namespaceSlug: this.namespaceSlug,
+      customDomain: this.customDomain,
+      metadata: this.roomMetadata,
+    }
+  }
+
+  // fields left out are kept; `removePassword` makes the room public again
+  private async updateRoomSettings(settings: ClientMessagePayloads[Message.UPDATE_ROOM_SETTINGS]) {
+    const previousName = this.name
+    if (settings.removePassword) {
+      this.password = null
+    } else if (settings.password !== undefined) {
+      this.password = await bcrypt.hash(settings.password, await bcrypt.genSalt(10))
+    }
+    if (settings.name) this.name = settings.name
+    if (settings.description) this.description = settings.description
+
+    // the lobby lists rooms by their metadata, so the change shows up there right away
+    const metadata: Record<string, unknown> = {
+      ...this.roomMetadata,
+      name: this.name,
+      description: this.description,
+      hasPassword: !!this.password,
+    }
+    if (metadata.displayName === previousName) metadata.displayName = this.name
+    this.roomMetadata = metadata
+    await this.setMetadata(metadata)
+    updateLobby(this)
+
+    // rooms are persisted by name, and their NPCs point at that name
+    try {
+      const room = {
+        name: this.name,
+        description: this.description,
+        password: this.password,
+        autoDispose: !!this.autoDispose,
+      }
+      if (this.name !== previousName) renameRoom(previousName, room)
+      else saveRoom(room)
+    } catch (err) {
+      console.warn('[skyoffice] Failed to persist room settings', this.namespaceSlug, err)
+    }
+
+    this.broadcast(Message.SEND_ROOM_DATA, this.getRoomData())
+    this.emitRoomEvent('room.updated', {
+      name: this.name,
+      description: this.description,
+      hasPassword: !!this.password,
+    })
+  }
+
+  // open rooms are told apart by their name in the lobby, saved rooms are keyed by it
+  private isRoomNameTaken(name: string) {
+    const key = name.trim().toLowerCase()
+    for (const room of SkyOffice.activeRooms.values()) {
+      if (room !== this && room.name.trim().toLowerCase() === key) return true
+    }
+    return hasRoom(name)
+  }
+
+  // a flood mute or a moderator mute, whichever ends later
+  private getChatMutedUntil(sessionId: string, now = Date.now()): number | null {
+    const floodMute = this.chatFloodGuard.getMutedUntil(sessionId, now) ?? 0
+    const moderatorMute = this.state.players.get(sessionId)?.chatMutedUntil ?? 0
+    const until = Math.max(floodMute, moderatorMute)
+    return until > now ? until : null
+  }
+
+  private getModerationActor(client: Client): ModerationActor {
+    const userData = (client as unknown as { userData?: any }).userData
+    return {
+      id: `player:${userData?.identity ?? client.sessionId}`,
+      name: this.state.players.get(client.sessionId)?.name || client.sessionId,
+    }
+  }
+
+  private getModerationTarget(client: Client): ModerationTarget {
+    const userData = (client as unknown as { userData?: any }).userData
+    return {
+      name: this.state.players.get(client.sessionId)?.name ?? '',
+      identity: userData?.identity ?? null,
+      ip: userData?.ip ?? null,
+    }
+  }
+
+  /**
+   * Mutes, unmutes, kicks or bans a player in the room and writes the action to the audit trail.
+   * Callers check that the actor may moderate the player.
+   */
+  public moderatePlayer(
+    actor: ModerationActor,
+    request: ClientMessagePayloads[Message.MODERATE_PLAYER]
+  ): ModerationOutcome {
+    const { playerId, action } = request
+    const client = this.clients.find((cli) => cli.sessionId === playerId)
+    const player = this.state.players.get(playerId)
+    // NPC connections own no player and are managed through the NPC API instead
+    if (!client || !player) {
+      return { error: 'PLAYER_NOT_FOUND', message: 'That player is not in the room.' }
+    }
+
+    const target = this.getModerationTarget(client)
+    const name = player.name || 'The player'
+    const reason = request.reason ?? ''
+    const withReason = (text: string) => (reason ? `${text} Reason: ${reason}` : text)
+    const notify = (message: string, until: number | null) => {
+      const notice: ModerationNotice = { action, message: withReason(message), until }
+      client.send(Message.MODERATION_NOTICE, notice)
+    }
+
+    switch (action) {
+      case 'mute': {
+        const durationMs = request.durationMs ?? DEFAULT_MUTE_MS
+        const until = Date.now() + durationMs
+        player.chatMutedUntil = until
+        if (target.identity) this.chatMutes.set(target.identity, until)
+        notify(`A moderator muted you for ${describeDuration(durationMs)}.`, until)
+        recordModerationAction(this.namespaceSlug, action, actor, target, { reason, durationMs })
+        return { message: `${name} is muted for ${describeDuration(durationMs)}.` }
+      }
+      case 'unmute': {
+        if (!this.getChatMutedUntil(playerId)) {
+          return { error: 'NOT_MUTED', message: `${name} is not muted.` }
+        }
+        player.chatMutedUntil = 0
+        this.chatFloodGuard.reset(playerId)
+        if (target.identity) this.chatMutes.delete(target.identity)
+        notify('A moderator unmuted you.', null)
+        recordModerationAction(this.namespaceSlug, action, actor, target, { reason })
+        return { message: `${name} is no longer muted.` }
+      }
+      case 'kick':
+        notify('A moderator removed you from the room.', null)
+        recordModerationAction(this.namespaceSlug, action, actor, target, { reason })
+        client.leave(MODERATION_CLOSE_CODE)
+        return { message: `${name} was removed from the room.` }
+      case 'ban': {
+        const durationMs = request.durationMs ?? null
+        const banBy = request.banBy ?? 'identity'
+        let ban: PersistedBan
+        try {
+          ban = banFromNamespace(
+            this.namespaceSlug,
+            actor,
+            {
+              ...target,
+              identity: banBy === 'identity' ? target.identity : null,
+              ip: banBy === 'ip' ? target.ip : null,
+            },
+            durationMs,
+            reason
+          )
+        } catch (err) {
+          console.error('[moderation] Failed to persist ban', this.namespaceSlug, err)
+          return { error: 'PERSISTENCE_FAILED', message: 'Failed to save the ban.' }
+        }
+        this.disconnectBanned(ban)
+        const length = durationMs ? ` for ${describeDuration(durationMs)}` : ''
+        return { message: `${name} is banned${length}.` }
+      }
+    }
+  }
+
+  // tells the players a new ban matches and disconnects them; NPC connections are never banned
+  public disconnectBanned(ban: PersistedBan) {
+    const length = ban.expiresAt ? ` for ${describeDuration(ban.expiresAt - Date.now())}` : ''
+    const notice: ModerationNotice = {
+      action: 'ban',
+      message: `A moderator banned you from the room${length}.${
+        ban.reason ? ` Reason: ${ban.reason}` : ''
+      }`,
+      until: ban.expiresAt,
+    }
+    this.clients.forEach((cli) => {
+      const userData = (cli as unknown as { userData?: any }).userData
+      if (userData?.npcKey) return
+      const matches =
+        (!!ban.identity && userData?.identity === ban.identity) ||
+        (!!ban.ip && userData?.ip === ban.ip)
+      if (!matches) return
+      cli.send(Message.MODERATION_NOTICE, notice)
+      cli.leave(MODERATION_CLOSE_CODE)
+    })
+  }
+
+  private sendChatCommandList(client: Client) {
+    const list: ChatCommandList = { commands: this.chatCommands.list(client.sessionId) }
+    client.send(Message.CHAT_COMMANDS, list)
+  }
+
+  public getChatCommands(): CustomChatCommand[] {
+    return this.chatCommands.getCustomCommands()
+  }
+
+  // stores a custom command for the namespace and offers it to everyone in the room right away
+  public setChatCommand(command: CustomChatCommand): ChatCommandUpdateResult {
+    if (!this.chatCommands.hasRoomFor(command.name)) {
+      return {
+        error: 'TOO_MANY_COMMANDS',
+        message: `A room can have at most ${MAX_CUSTOM_COMMANDS} custom commands`,
+      }
+    }
+    try {
+      if (this.namespaceSlug) saveChatCommand(this.namespaceSlug, command)
+    } catch (err) {
+      console.error('[chat] Failed to persist chat command', this.namespaceSlug, err)
+      return { error: 'PERSISTENCE_FAILED', message: 'Failed to save the command' }
+    }
+    this.chatCommands.setCustomCommand(command)
+    this.clients.forEach((cli) => this.sendChatCommandList(cli))
+    return { command }
+  }
+
+  public removeChatCommand(name: string): boolean {
+    try {
+      if (this.namespaceSlug) removeChatCommand(this.namespaceSlug, name)
+    } catch (err) {
+      console.warn('[chat] Failed to remove chat command', this.namespaceSlug, err)
+    }
+    const removed = this.chatCommands.removeCustomCommand(name)
+    if (removed) this.clients.forEach((cli) => this.sendChatCommandList(cli))
+    return removed
+  }
+
+  /**
+   * Delivers a proximity or zone channel message to the channel's current members, sender
+   * included. Only global messages are kept in the room state, so these never reach late joiners.
+   */
+  private sendChannelMessage(client: Client, channel: string, content: string) {
+    const sender = this.state.players.get(client.sessionId)
+    const members = sender ? this.getChannelMembers(channel, client.sessionId) : []
+    if (!sender || !members.includes(client)) {
+      const failure: ChannelMessageFailure = {
+        channel,
+        message: 'You are not in this channel anymore.',
+      }
+      client.send(Message.CHANNEL_MESSAGE_FAILED, failure)
+      return
+    }
+
+    const channelMessage: ChannelChatMessage = {
+      channel,
+      senderId: client.sessionId,
+      senderName: sender.name,
+      content,
+      createdAt: Date.now(),
+    }
+    members.forEach((member) => member.send(Message.CHANNEL_MESSAGE, channelMessage))
+    this.notifyMentionedPlayers(client.sessionId, content, channel, members)
+    // only the channel's members may read the message, so integrations learn that it was sent
+    this.emitRoomEvent('chat.channel_message', {
+      ...this.describePlayer(client.sessionId),
+      channel,
+      length: content.length,
+    })
+  }
+
+  // tells each player in `audience` that a message mentions them as `@name`, except its author
+  private notifyMentionedPlayers(
+    authorId: string,
+    content: string,
+    channel: string,
+    audience: Client[]
+  ) {
+    const author = this.state.players.get(authorId)
+    if (!author || !content.includes('@')) return
+
+    const mention: ChatMention = {
+      channel,
+      senderId: authorId,
+      senderName: author.name,
+      content,
+      createdAt: Date.now(),
+    }
+    audience.forEach((cli) => {
+      const name = this.state.players.get(cli.sessionId)?.name
+      if (cli.sessionId === authorId || !name || !mentionsHandle(content, name)) return
+      cli.send(Message.CHAT_MENTION, mention)
+    })
+  }
+
+  // event payloads carry the message as sent and as escaped HTML for integrations to display
+  private describeChatContent(content: string) {
+    const names: string[] = []
+    this.state.players.forEach((player) => names.push(player.name))
+    return { content, contentHtml: formatChatHtml(content, names) }
+  }
+
+  // clients currently in a non-global channel; players join zones by using the item or standing
+  // in the area, and the proximity channel is centered on the sender
+  private getChannelMembers(channel: string, senderId: string): Client[] {
+    const parsed = parseChatChannel(channel)
+    if (!parsed || parsed.kind === 'global') return []
+
+    const isMember = (sessionId: string): boolean => {
+      const player = this.state.players.get(sessionId)
+      if (!player) return false
+      if (parsed.kind === 'proximity') {
+        const sender = this.state.players.get(senderId)
+        return Math.hypot(player.x - sender.x, player.y - sender.y) <= PROXIMITY_CHAT_RADIUS
+      }
+      switch (parsed.zoneType) {
+        case 'computer':
+          return !!this.state.computers.get(parsed.zoneId)?.connectedUser.has(sessionId)
+        case 'whiteboard':
+          return !!this.state.whiteboards.get(parsed.zoneId)?.connectedUser.has(sessionId)
+        case 'area': {
+          const area = getAreas(this.mapKey).find((candidate) => candidate.id === parsed.zoneId)
+          return !!area && isInMapArea(area, player.x, player.y)
+        }
+      }
+    }
+    return this.clients.filter((cli) => isMember(cli.sessionId))
+  }
+
+  /**
+   * Registers a message handler that only runs once the payload passed the shared validator
+   * from `types/MessagePayloads`. Malformed messages are logged and dropped.
+   */
+  private onValidatedMessage<T extends ClientMessage>(
+    type: T,
+    handler: (client: Client, message: ClientMessagePayloads[T]) => void
+  ) {
+    this.onMessage(type, (client, payload: unknown) => {
+      if (!this.rateLimiter.consume(client.sessionId, type)) {
+        this.handleRateLimited(client, type)
+        return
+      }
+      const result = validateClientMessage(type, payload)
+      if (result.ok === false) {
+        this.rejectMessage(client, type, result.error)
+        return
+      }
+      handler(client, result.value)
+    })
+  }
+
+  private rejectMessage(client: Client, type: ClientMessage, reason: string) {
+    const name = Message[type]
+    this.messageStats.rejected[name] = (this.messageStats.rejected[name] ?? 0) + 1
+    console.warn(
+      `[skyoffice] Rejected ${name} from ${client.sessionId} in room ${this.roomId}:`,
+      reason
+    )
+  }
+
+  // over-limit messages are dropped without logging each one; chat flooding escalates
+  private handleRateLimited(client: Client, type: ClientMessage) {
+    const name = Message[type]
+    this.messageStats.rateLimited[name] = (this.messageStats.rateLimited[name] ?? 0) + 1
+    if (type !== Message.ADD_CHAT_MESSAGE && type !== Message.DIRECT_MESSAGE) return
+
+    const verdict = this.chatFloodGuard.recordViolation(client.sessionId)
+    if (!verdict.action) return
+    this.messageStats.chatFlood[verdict.action] += 1
+
+    const seconds = verdict.mutedUntil ? Math.ceil((verdict.mutedUntil - Date.now()) / 1000) : 0
+    const messages: Record<ChatFloodAction, string> = {
+      warn: 'You are sending messages too fast. Slow down or you will be muted.',
+      mute: `You are muted for ${seconds} seconds for flooding the chat.`,
+      disconnect: 'You were disconnected for flooding the chat.',
+    }
+    const notice: ChatFloodNotice = {
+      action: verdict.action,
+      mutedUntil: verdict.mutedUntil,
+      message: messages[verdict.action],
+    }
+    client.send(Message.CHAT_FLOOD_NOTICE, notice)
+
+    if (verdict.action !== 'warn') {
+      console.warn(
+        `[skyoffice] Chat flood in room ${this.roomId}: ${verdict.action} ${client.sessionId}`
+      )
+    }
+    if (verdict.action === 'disconnect') {
+      client.leave(CHAT_FLOOD_CLOSE_CODE)
+    }
+  }
+
+  public getLayout(): OfficeLayout | null {
+    return this.layout
+  }
+
+  /**
+   * Stores the layout of the namespace (null goes back to the base map) and applies it: the
+   * walkable grid and map objects are rebuilt and clients re-render from the synced state.
+   */
+  public updateLayout(layout: OfficeLayout | null): LayoutUpdateResult {
+    try {
+      if (layout) {
+        saveOfficeLayout(this.namespaceSlug, layout)
+      } else {
+        removeOfficeLayout(this.namespaceSlug)
+      }
+    } catch (err) {
+      console.error('[layout] Failed to persist layout', this.namespaceSlug, err)
+      return { error: 'PERSISTENCE_FAILED', message: 'Failed to save the layout' }
+    }
+
+    this.layout = layout
+    setNamespaceLayout(this.namespaceSlug, this.mapId, layout)
+    this.state.layout = layout ? JSON.stringify(layout) : ''
+    this.emitRoomEvent('layout.updated', {
+      mapId: this.mapId,
+      moved: layout ? Object.keys(layout.moved).length : 0,
+      removed: layout ? layout.removed.length : 0,
+      added: layout ? layout.added.length : 0,
+    })
+    return { layout }
+  }
+
+  // seeds the room state with the newest stored messages of the namespace
+  private loadRecentChatMessages() {
+    try {
+      getChatMessages(this.chatHistoryKey, CHAT_RECENT_WINDOW).messages.forEach((stored) => {
+        const chatMessage = new ChatMessage()
+        chatMessage.id = stored.id
+        chatMessage.authorId = stored.authorId
+        chatMessage.author = stored.author
+        chatMessage.content = stored.content
+        chatMessage.createdAt = stored.createdAt
+        chatMessage.editedAt = stored.editedAt
+        chatMessage.deleted = stored.deleted
+        chatMessage.reactions = stored.reactions
+        this.state.chatMessages.push(chatMessage)
+      })
+    } catch (err) {
+      console.warn('[chat] Failed to load chat history', this.chatHistoryKey, err)
+    }
+  }
+
+  private loadChatCommands() {
+    try {
+      listChatCommands(this.namespaceSlug).forEach(({ namespaceSlug, updatedAt, ...command }) =>
+        this.chatCommands.setCustomCommand(command)
+      )
+    } catch (err) {
+      console.warn('[chat] Failed to load chat commands', this.namespaceSlug, err)
+    }
+  }
+
+  // a layout saved for another map no longer matches the objects of this room's map
+  private loadStoredLayout(): OfficeLayout | null {
+    try {
+      const stored = getOfficeLayout(this.namespaceSlug)
+      if (!stored) return null
+      if (stored.layout.mapId !== this.mapId) {
+        console.warn(
+          `[layout] Ignoring layout of '${this.namespaceSlug}' made for map '${stored.layout.mapId}'`
+        )
+        return null
+      }
+      return stored.layout
+    } catch (err) {
+      console.warn('[layout] Failed to load layout', this.namespaceSlug, err)
+      return null
+    }
+  }
+
+  public getMessageStats(): MessageStats {
+    return {
+      rejected: { ...this.messageStats.rejected },
+      rateLimited: { ...this.messageStats.rateLimited },
+      chatFlood: { ...this.messageStats.chatFlood },
+    }
+  }
+
+  private hasComputer(client: Client, type: ClientMessage, computerId: string) {
+    if (this.state.computers.has(computerId)) return true
+    this.rejectMessage(client, type, `unknown computerId '${computerId}'`)
+    return false
+  }
+
+  private hasWhiteboard(client: Client, type: ClientMessage, whiteboardId: string) {
+    if (this.state.whiteboards.has(whiteboardId)) return true
+    this.rejectMessage(client, type, `unknown whiteboardId '${whiteboardId}'`)
+    return false
+  }
+
+  // publishes an event of this room on the office event bus (webhooks and other API consumers)
+  private emitRoomEvent(type: OfficeEventType, data: Record<string, unknown>, agentId?: string) {
+    emitOfficeEvent({
+      type,
+      roomId: this.roomId,
+      namespaceSlug: this.namespaceSlug ?? null,
+      agentId,
+      data,
     })
+  }
 
-    // when a player disconnect from a whiteboard, remove from the whiteboard connectedUser array
-    this.onMessage(
-      Message.DISCONNECT_FROM_WHITEBOARD,
-      (client, message: { whiteboardId: string }) => {
-        this.dispatcher.dispatch(new WhiteboardRemoveUserCommand(), {
-          client,
-          whiteboardId: message.whiteboardId,
-        })
-      }
-    )
-
-    // when receiving updatePlayer message, call the PlayerUpdateCommand
-    this.onMessage(
-      Message.UPDATE_PLAYER,
-      (client, message: { x: number; y: number; anim: string }) => {
-        this.dispatcher.dispatch(new PlayerUpdateCommand(), {
-          client,
-          x: message.x,
-          y: message.y,
-          anim: message.anim,
-        })
-      }
+  // who a session belongs to, as reported in room events
+  private describePlayer(playerId: string) {
+    const npc = this.getNpcAssignments().find(
+      (assignment) => SkyOffice.getNpcKey(assignment.agentId) === playerId
     )
+    return {
+      playerId,
+      name: this.state.players.get(playerId)?.name ?? '',
+      agentId: npc?.agentId ?? null,
+    }
+  }
 
-    // when receiving updatePlayerName message, call the PlayerUpdateNameCommand
-    this.onMessage(Message.UPDATE_PLAYER_NAME, (client, message: { name: string }) => {
-      this.dispatcher.dispatch(new PlayerUpdateNameCommand(), {
-        client,
-        name: message.name,
-      })
+  private getOccupancy(): Map<string, string[]> {
+    const occupancy = new Map<string, string[]>()
+    this.state.computers.forEach((computer, id) => {
+      occupancy.set(`computer:${id}`, Array.from(computer.connectedUser.values()).sort())
     })
+    this.state.whiteboards.forEach((whiteboard, id) => {
+      occupancy.set(`whiteboard:${id}`, Array.from(whiteboard.connectedUser.values()).sort())
+    })
+    return occupancy
+  }
 
-    // when a player is ready to connect, call the PlayerReadyToConnectCommand
-    this.onMessage(Message.READY_TO_CONNECT, (client) => {
-      const player = this.state.players.get(client.sessionId)
-      if (player) player.readyToConnect = true
+  /**
+   * Where players stand and which chairs and computers are taken right now, built from the
+   * `players` and `computers` state. The NPC a path is planned for is left out, so it neither
+   * avoids itself nor counts its own seat as taken.
+   */
+  public getOccupancyLayer(excludeAgentId?: string): OccupancyLayer {
+    const excludePlayerKey = excludeAgentId ? SkyOffice.getNpcKey(excludeAgentId) : undefined
+    const { tileWidth, tileHeight } = getMapMetadata(this.mapKey)
+    const occupancy = new OccupancyLayer(tileWidth, tileHeight)
+    this.state.players.forEach((player, key) => {
+      if (key === excludePlayerKey) return
+      occupancy.addPlayer(player)
+      if (!player.anim.includes('_sit_')) return
+      const chair = findNearestChair(player, this.mapKey)
+      if (chair && Math.hypot(chair.x - player.x, chair.y - player.y) <= tileWidth) {
+        occupancy.occupiedChairs.add(chair.id)
+      }
     })
+    this.state.computers.forEach((computer, id) => {
+      const users = Array.from(computer.connectedUser.values())
+      if (users.some((user) => user !== excludePlayerKey)) occupancy.occupiedComputers.add(id)
+    })
+    return occupancy
+  }
 
-    // when a player is ready to connect, call the PlayerReadyToConnectCommand
-    this.onMessage(Message.VIDEO_CONNECTED, (client) => {
-      const player = this.state.players.get(client.sessionId)
-      if (player) player.videoConnected = true
+  /**
+   * The free chair or workstation with the cheapest path from a point. A workstation is a
+   * computer with its nearest chair and is free when nobody uses the computer or sits on the
+   * chair; chairs of taken workstations are never offered as plain chairs.
+   */
+  public findNearestFreeSeat(point: Point, type: SeatType, agentId?: string): FreeSeat | null {
+    const occupancy = this.getOccupancyLayer(agentId)
+    const { tileWidth, tileHeight } = getMapMetadata(this.mapKey)
+    const costs = getTileCosts(point, this.mapKey, { diagonal: true, occupancy })
+
+    const workstationChairs = new Map<string, string>()
+    getComputers(this.mapKey).forEach((computer) => {
+      const chair = findNearestChair(computer, this.mapKey)
+      if (chair) workstationChairs.set(chair.id, computer.id)
     })
+    const candidates: { chair: ChairObject; computerId?: string }[] = []
+    if (type === 'workstation') {
+      workstationChairs.forEach((computerId, chairId) => {
+        if (occupancy.occupiedComputers.has(computerId)) return
+        const chair = getChairs(this.mapKey).find((candidate) => candidate.id === chairId)
+        if (chair) candidates.push({ chair, computerId })
+      })
+    } else {
+      getChairs(this.mapKey).forEach((chair) => {
+        const computerId = workstationChairs.get(chair.id)
+        if (computerId && occupancy.occupiedComputers.has(computerId)) return
+        candidates.push({ chair })
+      })
+    }
 
-    // when a player disconnect a stream, broadcast the signal to the other player connected to the stream
-    this.onMessage(Message.DISCONNECT_STREAM, (client, message: { clientId: string }) => {
-      this.clients.forEach((cli) => {
-        if (cli.sessionId === message.clientId) {
-          cli.send(Message.DISCONNECT_STREAM, client.sessionId)
-        }
+    let best: FreeSeat | null = null
+    candidates.forEach(({ chair, computerId }) => {
+      if (occupancy.occupiedChairs.has(chair.id)) return
+      const position = getSittingPosition(chair)
+      this.getApproachPoints(position).forEach((approach) => {
+        const tileX = Math.floor(approach.x / tileWidth)
+        const tileY = Math.floor(approach.y / tileHeight)
+        const cost = costs.get(`${tileX},${tileY}`)
+        if (cost === undefined || (best && cost >= best.cost)) return
+        best = { type, chairId: chair.id, computerId, position, direction: chair.direction, cost }
       })
     })
+    return best
+  }
 
-    // when a player send a chat message, update the message array and broadcast to all connected clients except the sender
-    this.onMessage(Message.ADD_CHAT_MESSAGE, (client, message: { content: string }) => {
-      // update the message array (so that players join later can also see the message)
-      this.dispatcher.dispatch(new ChatMessageUpdateCommand(), {
-        client,
-        content: message.content,
+  /**
+   * Emits `occupancy.changed` for every computer or whiteboard whose occupants changed since the
+   * last call. Occupancy is touched from many places (messages, leaving clients, NPC desks), so it
+   * is diffed on the tick rather than reported at each of them.
+   */
+  private publishOccupancyChanges() {
+    this.getOccupancy().forEach((occupants, key) => {
+      const previous = this.publishedOccupancy.get(key) ?? []
+      if (previous.join('|') === occupants.join('|')) return
+      this.publishedOccupancy.set(key, occupants)
+      const [itemType, itemId] = key.split(':')
+      this.emitRoomEvent('occupancy.changed', {
+        itemType,
+        itemId,
+        occupants: occupants.map((playerId) => this.describePlayer(playerId)),
       })
+    })
+  }
 
-      // broadcast to all currently connected clients except the sender (to render in-game dialog on top of the character)
-      this.broadcast(
-        Message.ADD_CHAT_MESSAGE,
-        { clientId: client.sessionId, content: message.content },
-        { except: client }
-      )
+  /**
+   * Current NPCs, people, presence counts and occupancy of the room; event stream consumers start
+   * from this and apply events on top.
+   */
+  public getLiveSnapshot() {
+    const players: ReturnType<SkyOffice['describePlayer']>[] = []
+    this.state.players.forEach((_player, playerId) => {
+      const described = this.describePlayer(playerId)
+      if (!described.agentId) players.push(described)
+    })
+    const occupancy: Record<string, string[]> = {}
+    this.getOccupancy().forEach((occupants, key) => {
+      if (occupants.length) occupancy[key] = occupants
     })
+    return {
+      roomId: this.roomId,
+      namespaceSlug: this.namespaceSlug ?? null,
+      mapId: this.mapId,
+      presence: { ...this.presenceCounts },
+      npcs: this.getNpcAssignments(),
+      players,
+      occupancy,
+    }
+  }
+
+  public getMapId() {
+    return this.mapId
+  }
+
+  // the room's map with its namespace layout applied, for pathfinding
+  public getMapKey() {
+    return this.mapKey
   }
 
   public static getRoomById(roomId: string): SkyOffice | undefined {
@@ -394,6 +1505,24 @@ export class SkyOffice extends Room<OfficeState> {
         console.warn('[skyoffice] Failed to delete persisted room entry', slug, err)
       }
 
+      try {
+        deleteChatMessages(slug)
+      } catch (err) {
+        console.warn('[skyoffice] Failed to delete chat history', slug, err)
+      }
+
+      try {
+        deleteChatCommands(slug)
+      } catch (err) {
+        console.warn('[skyoffice] Failed to delete chat commands', slug, err)
+      }
+
+      try {
+        deleteModerationData(slug)
+      } catch (err) {
+        console.warn('[skyoffice] Failed to delete bans and moderation audit', slug, err)
+      }
+
       try {
         const listings = await matchMaker.query({ name: slug })
         this.removeListings(listings, slugCandidates, removedRooms)
@@ -517,13 +1646,7 @@ export class SkyOffice extends Room<OfficeState> {
     if (!computerId) return undefined
 
     // Remove from any previous computer occupancy
-    this.state.computers.forEach((computer) => {
-      computer.connectedUser.forEach((sessionId) => {
-        if (sessionId === playerKey) {
-          computer.connectedUser.delete(sessionId)
-        }
-      })
-    })
+    this.releaseNpcWorkstation(playerKey)
 
     const targetComputer = this.state.computers.get(computerId)
     if (!targetComputer) return undefined
@@ -536,6 +1659,16 @@ export class SkyOffice extends Room<OfficeState> {
     return computerId
   }
 
+  private releaseNpcWorkstation(playerKey: string) {
+    this.state.computers.forEach((computer) => {
+      computer.connectedUser.forEach((sessionId) => {
+        if (sessionId === playerKey) {
+          computer.connectedUser.delete(sessionId)
+        }
+      })
+    })
+  }
+
   public upsertNpc(payload: NpcDeploymentPayload, options: NpcUpsertOptions = {}): NpcAssignment {
     const key = SkyOffice.getNpcKey(payload.agentId)
     let player = this.state.players.get(key)
@@ -577,22 +1710,7 @@ export class SkyOffice extends Room<OfficeState> {
     
     if (!options.skipPersistence) {
       // 持久化保存 NPC 到数据库
-      saveNpc({
-        agentId: assignment.agentId,
-        registryAgentId: assignment.registryAgentId || null,
-        officeId: assignment.officeId || null,
-        name: assignment.name,
-        avatarId: assignment.avatarId,
-        workstationId: assignment.workstationId,
-        positionX: assignment.position?.x ?? player.x,
-        positionY: assignment.position?.y ?? player.y,
-        role: assignment.role,
-        voiceAgentId: assignment.voiceAgentId || null,
-        computerId: assignment.computerId || null,
-        roomName: this.name,
-        namespaceSlug: assignment.namespaceSlug || null,
-        agentMetadata: assignment.agentMetadata || null,
-      })
+      saveNpc(this.toPersistedNpc(assignment, player))
     }
 
     if (!options.skipRegistrySync) {
@@ -600,10 +1718,121 @@ export class SkyOffice extends Room<OfficeState> {
     }
 
     this.updatePresenceMetadata()
+    this.emitRoomEvent('npc.upserted', { npc: assignment }, assignment.agentId)
     
     return assignment
   }
 
+  private toPersistedNpc(assignment: NpcDeploymentPayload, player?: Player): PersistedNpc {
+    return {
+      agentId: assignment.agentId,
+      registryAgentId: assignment.registryAgentId || null,
+      officeId: assignment.officeId || null,
+      name: assignment.name,
+      avatarId: assignment.avatarId,
+      workstationId: assignment.workstationId,
+      positionX: assignment.position?.x ?? player?.x ?? 0,
+      positionY: assignment.position?.y ?? player?.y ?? 0,
+      role: assignment.role,
+      voiceAgentId: assignment.voiceAgentId || null,
+      computerId: assignment.computerId || null,
+      roomName: this.name,
+      namespaceSlug: assignment.namespaceSlug || null,
+      agentMetadata: assignment.agentMetadata || null,
+    }
+  }
+
+  public exportNpcs(): NpcRecord[] {
+    return this.getNpcAssignments().map(toNpcRecord)
+  }
+
+  /**
+   * Creates, updates and, with `prune`, removes NPCs so the room matches `records`. Every row is
+   * written in one transaction before the room changes, so a failed import leaves both untouched.
+   * A dry run only reports the diff.
+   */
+  public importNpcs(
+    records: NpcRecord[],
+    options: { dryRun?: boolean; prune?: boolean } = {}
+  ): NpcImportResult {
+    const conflicts = records
+      .filter((record) => {
+        const room = SkyOffice.findRoomWithAgent(record.agentId)
+        return !!room && room !== this
+      })
+      .map((record) => record.agentId)
+    if (conflicts.length) {
+      return {
+        error: 'AGENT_CONFLICT',
+        message: 'Some agents are deployed in another room',
+        agentIds: conflicts,
+      }
+    }
+
+    // upsertNpc normalises roles, so compare against what it would store
+    const incoming = records.map((record) => ({
+      ...record,
+      role: normaliseNpcRole(record.role ?? undefined),
+    }))
+    const diff = diffNpcRecords(this.exportNpcs(), incoming, options.prune)
+    if (options.dryRun) return { diff, applied: false }
+
+    const changed = new Set([
+      ...diff.created.map((record) => record.agentId),
+      ...diff.updated.map((change) => change.agentId),
+    ])
+    const payloads: NpcDeploymentPayload[] = incoming
+      .filter((record) => changed.has(record.agentId))
+      .map((record) => {
+        const existing = this.npcAssignments.get(record.agentId)
+        const computerId = resolveComputerIdFromWorkstation(record.workstationId)
+        return {
+          agentId: record.agentId,
+          registryAgentId: existing?.registryAgentId,
+          name: record.name,
+          avatarId: record.avatarId,
+          workstationId: record.workstationId,
+          position: record.position,
+          role: record.role,
+          officeId: existing?.officeId ?? this.registryOfficeId ?? undefined,
+          computerId: computerId && this.state.computers.has(computerId) ? computerId : undefined,
+          voiceAgentId: record.voiceAgentId ?? undefined,
+          namespaceSlug: existing?.namespaceSlug || this.namespaceSlug || this.name,
+          agentMetadata: record.metadata,
+        }
+      })
+
+    try {
+      applyNpcChanges(
+        payloads.map((payload) => this.toPersistedNpc(payload)),
+        diff.removed
+      )
+    } catch (err) {
+      console.error('[npc-import] Failed to persist imported NPCs', this.roomId, err)
+      return { error: 'PERSISTENCE_FAILED', message: 'Failed to persist imported NPCs' }
+    }
+
+    // the imported rows are saved, so walks stop without persisting where the NPCs stood
+    payloads.forEach((payload) => {
+      const walk = this.npcWalker.cancel(payload.agentId, 'imported', false)
+      this.upsertNpc(payload, { skipPersistence: true })
+      if (!walk) return
+      this.emitRoomEvent(
+        'npc.walk.cancelled',
+        {
+          walkId: walk.id,
+          position: payload.position ?? null,
+          anim: this.state.players.get(SkyOffice.getNpcKey(payload.agentId))?.anim ?? null,
+          computerId: null,
+          reason: walk.cancelReason ?? null,
+        },
+        payload.agentId
+      )
+    })
+    diff.removed.forEach((agentId) => this.removeNpc(agentId))
+    return { diff, applied: true }
+  }
+
   private syncNpcToRegistry(assignment: NpcAssignment) {
     if (!assignment.officeId || !assignment.registryAgentId) return
 
@@ -704,6 +1933,10 @@ export class SkyOffice extends Room<OfficeState> {
     return this.name
   }
 
+  public getRegistryOfficeId(): string | null {
+    return this.registryOfficeId ?? null
+  }
+
   public isRegistryBacked(): boolean {
     const metadata = this.roomMetadata || {}
     return Boolean(
@@ -723,6 +1956,8 @@ export class SkyOffice extends Room<OfficeState> {
     const key = SkyOffice.getNpcKey(agentId)
     const assignment = this.npcAssignments.get(agentId)
     const existed = this.npcAssignments.delete(agentId)
+    this.npcWalker.forget(agentId)
+    this.npcMentions.forget(agentId)
 
     // remove from players map
     if (this.state.players.has(key)) {
@@ -743,6 +1978,7 @@ export class SkyOffice extends Room<OfficeState> {
 
     if (assignment) {
       this.syncNpcRemovalFromRegistry(assignment)
+      this.emitRoomEvent('npc.removed', { npc: assignment }, agentId)
     }
 
     this.updatePresenceMetadata()
@@ -771,6 +2007,8 @@ export class SkyOffice extends Room<OfficeState> {
     assignment.assignedAt = nowIso
 
     if (update.position) {
+      // an explicit position overrides any walk in progress
+      this.npcWalker.cancel(agentId, 'position updated')
       assignment.position = { ...update.position }
       if (player) {
         player.x = update.position.x
@@ -799,30 +2037,282 @@ export class SkyOffice extends Room<OfficeState> {
       assignment.voiceAgentId = update.voiceAgentId
     }
 
-    saveNpc({
-      agentId: assignment.agentId,
-      registryAgentId: assignment.registryAgentId || null,
-      officeId: assignment.officeId || null,
-      name: assignment.name,
-      avatarId: assignment.avatarId,
-      workstationId: assignment.workstationId,
-      positionX: assignment.position?.x ?? player?.x ?? 0,
-      positionY: assignment.position?.y ?? player?.y ?? 0,
-      role: assignment.role,
-      voiceAgentId: assignment.voiceAgentId || null,
-      computerId: assignment.computerId || null,
-      roomName: this.name,
-      namespaceSlug: assignment.namespaceSlug || null,
-      agentMetadata: assignment.agentMetadata || null,
-    })
+    saveNpc(this.toPersistedNpc(assignment, player))
 
     this.syncNpcToRegistry(assignment)
     this.updatePresenceMetadata()
+    this.emitRoomEvent('npc.upserted', { npc: assignment, anim: player?.anim ?? null }, agentId)
 
     return { assignment, player }
   }
 
-  async onAuth(client: Client, options: any) {
+  /**
+   * Starts walking an NPC to a point or to the chair of a workstation. The walk runs on the room's
+   * simulation tick; its outcome is reported through `getNpcWalk` and the office event bus.
+   */
+  public walkNpc(agentId: string, target: NpcWalkTarget): NpcWalkResult {
+    const key = SkyOffice.getNpcKey(agentId)
+    const player = this.state.players.get(key)
+    const assignment = this.npcAssignments.get(agentId)
+    if (!player || !assignment) {
+      return { error: 'NPC_NOT_FOUND', message: 'NPC not found in this room' }
+    }
+
+    const destination = this.resolveNpcWalkDestination(target)
+    if (!destination) {
+      return { error: 'TARGET_NOT_FOUND', message: 'Walk target not found' }
+    }
+
+    const path = this.planNpcPath(agentId, { x: player.x, y: player.y }, destination)
+    if (!path) {
+      return { error: 'PATH_NOT_FOUND', message: 'Path not found' }
+    }
+
+    // the NPC leaves its desk as soon as it starts walking
+    this.releaseNpcWorkstation(key)
+    assignment.computerId = undefined
+
+    const walk = this.npcWalker.start(
+      agentId,
+      player,
+      assignment.avatarId,
+      path,
+      destination.arrival
+    )
+    this.emitRoomEvent(
+      'npc.walk.started',
+      { walkId: walk.id, target: walk.target, arrival: walk.arrival },
+      agentId
+    )
+    return { walk }
+  }
+
+  public getNpcWalk(agentId: string): NpcWalk | undefined {
+    return this.npcWalker.getLatest(agentId)
+  }
+
+  private resolveNpcWalkDestination(target: NpcWalkTarget): NpcWalkDestination | null {
+    if (target.workstationId || target.computerId) {
+      const computerId =
+        target.computerId ||
+        (target.workstationId && resolveComputerIdFromWorkstation(target.workstationId))
+      if (!computerId || !this.state.computers.has(computerId)) return null
+      const computer = getComputer(computerId, this.mapKey)
+      const chair = computer && findNearestChair(computer, this.mapKey)
+      if (!chair) return null
+      return {
+        point: getSittingPosition(chair),
+        approach: true,
+        arrival: {
+          posture: 'sit',
+          direction: chair.direction,
+          workstationId: target.workstationId,
+          computerId,
+        },
+      }
+    }
+
+    if (target.whiteboardId) {
+      const whiteboard = getWhiteboard(target.whiteboardId, this.mapKey)
+      if (!whiteboard) return null
+      const { tileHeight } = getMapMetadata(this.mapKey)
+      // stand on the tile right below the whiteboard, facing it
+      return {
+        point: { x: whiteboard.x, y: whiteboard.y + whiteboard.height / 2 + tileHeight / 2 },
+        approach: false,
+        arrival: { posture: 'idle', direction: 'up' },
+      }
+    }
+
+    if (target.position) {
+      return { point: target.position, approach: false, arrival: { posture: 'idle' } }
+    }
+    return null
+  }
+
+  /**
+   * Posts a chat message authored by an NPC: it is stored in the chat history and broadcast like a
+   * player message, so clients show a dialog bubble above the NPC.
+   */
+  public npcSay(agentId: string, content: unknown): NpcSayResult {
+    const key = SkyOffice.getNpcKey(agentId)
+    if (!this.npcAssignments.has(agentId) || !this.state.players.has(key)) {
+      return { error: 'NPC_NOT_FOUND', message: 'NPC not found in this room' }
+    }
+
+    const result = validateClientMessage(Message.ADD_CHAT_MESSAGE, { content })
+    if (result.ok === false) {
+      return { error: 'INVALID_CONTENT', message: result.error }
+    }
+
+    const message = result.value.content
+    this.dispatcher.dispatch(new ChatMessageUpdateCommand(), {
+      playerId: key,
+      content: message,
+      historyKey: this.chatHistoryKey,
+    })
+    this.broadcast(Message.ADD_CHAT_MESSAGE, { clientId: key, content: message })
+    this.recordChatMentions(key, message)
+    this.notifyMentionedPlayers(key, message, GLOBAL_CHANNEL, this.clients)
+    this.emitRoomEvent(
+      'chat.message',
+      { ...this.describePlayer(key), ...this.describeChatContent(message) },
+      agentId
+    )
+    return { content: message }
+  }
+
+  public getNpcMentions(agentId: string, afterId?: number, limit?: number): NpcMention[] {
+    return this.npcMentions.list(agentId, afterId, limit)
+  }
+
+  // files the message in the inbox of every NPC it mentions, except the author's own
+  private recordChatMentions(authorId: string, content: string) {
+    const candidates = this.getNpcAssignments()
+      .filter((assignment) => SkyOffice.getNpcKey(assignment.agentId) !== authorId)
+      .map((assignment) => ({ agentId: assignment.agentId, name: assignment.name }))
+    const mentionedAgents = findMentionedAgents(content, candidates)
+    if (!mentionedAgents.length) return
+
+    const authorName = this.state.players.get(authorId)?.name ?? ''
+    mentionedAgents.forEach((agentId) => {
+      const mention = this.npcMentions.add({ agentId, authorId, authorName, content })
+      this.emitRoomEvent('chat.mention', { mention }, agentId)
+    })
+  }
+
+  public getNpcSchedule(agentId: string): NpcSchedule | null {
+    if (!this.npcSchedules.has(agentId)) {
+      const persisted = getPersistedNpcSchedule(agentId)
+      const parsed = persisted ? parseNpcSchedule(persisted.schedule) : null
+      if (typeof parsed === 'string') {
+        console.warn('[npc-schedule] Ignoring invalid persisted schedule', agentId, parsed)
+      }
+      this.npcSchedules.set(agentId, parsed && typeof parsed !== 'string' ? parsed : null)
+    }
+    return this.npcSchedules.get(agentId) ?? null
+  }
+
+  public setNpcSchedule(agentId: string, schedule: NpcSchedule) {
+    saveNpcSchedule(agentId, schedule as unknown as Record<string, unknown>)
+    this.npcSchedules.set(agentId, schedule)
+    this.appliedNpcSchedules.delete(agentId)
+    this.applyNpcSchedule(agentId, new Date())
+  }
+
+  public clearNpcSchedule(agentId: string) {
+    removeNpcSchedule(agentId)
+    this.npcSchedules.set(agentId, null)
+    this.appliedNpcSchedules.delete(agentId)
+  }
+
+  public getActiveNpcScheduleEntry(agentId: string, now = new Date()): ActiveScheduleEntry | null {
+    const schedule = this.getNpcSchedule(agentId)
+    return schedule ? getActiveScheduleEntry(schedule, now, this.getOfficeTimezone()) : null
+  }
+
+  public getOfficeTimezone(): string {
+    const metadata = this.roomMetadata || {}
+    const candidate = metadata.timezone ?? metadata.officeTimezone
+    return typeof candidate === 'string' && isValidTimezone(candidate)
+      ? candidate
+      : DEFAULT_OFFICE_TIMEZONE
+  }
+
+  private runNpcSchedules() {
+    const now = new Date()
+    this.npcAssignments.forEach((assignment) => this.applyNpcSchedule(assignment.agentId, now))
+  }
+
+  private applyNpcSchedule(agentId: string, now: Date) {
+    const active = this.getActiveNpcScheduleEntry(agentId, now)
+    if (!active || this.appliedNpcSchedules.get(agentId) === active.occurrence) return
+    this.appliedNpcSchedules.set(agentId, active.occurrence)
+
+    const result = this.walkNpc(agentId, active.entry.target)
+    if ('error' in result) {
+      console.warn(
+        '[npc-schedule] Failed to start scheduled walk',
+        agentId,
+        active.entry.label || `entry ${active.index}`,
+        result.message
+      )
+    }
+  }
+
+  // the tiles around a spot that cannot be walked on itself, such as the seat of a chair
+  private getApproachPoints(goal: Point): Point[] {
+    const { tileWidth, tileHeight } = getMapMetadata(this.mapKey)
+    return [
+      { x: goal.x, y: goal.y + tileHeight },
+      { x: goal.x, y: goal.y - tileHeight },
+      { x: goal.x - tileWidth, y: goal.y },
+      { x: goal.x + tileWidth, y: goal.y },
+    ]
+  }
+
+  private planNpcPath(
+    agentId: string,
+    start: Point,
+    destination: NpcWalkDestination
+  ): Point[] | null {
+    const goal = destination.point
+    const candidates = destination.approach ? this.getApproachPoints(goal) : [goal]
+
+    // NPCs walk diagonally along smoothed paths around other players; a blocked point target
+    // falls back to the closest tile they can reach, while approach candidates must be reachable
+    const occupancy = this.getOccupancyLayer(agentId)
+    let best: ReturnType<typeof findRoute> = null
+    candidates.forEach((candidate) => {
+      const route = findRoute(start, candidate, this.mapKey, {
+        diagonal: true,
+        smooth: true,
+        nearest: !destination.approach,
+        occupancy,
+      })
+      if (route && (!best || route.cost < best.cost)) best = route
+    })
+    if (!best) return null
+
+    // the first waypoint is the centre of the tile the NPC already stands on
+    return [...best.path.slice(1), best.targetAdjusted ? best.target : goal]
+  }
+
+  private handleNpcWalkFinished(walk: NpcWalk) {
+    const key = SkyOffice.getNpcKey(walk.agentId)
+    const player = this.state.players.get(key)
+    const assignment = this.npcAssignments.get(walk.agentId)
+    if (!player || !assignment) return
+
+    const arrived = walk.status === 'arrived'
+    if (arrived && walk.arrival.computerId) {
+      assignment.computerId = walk.arrival.computerId
+      this.assignNpcToWorkstation(key, {
+        ...assignment,
+        workstationId: walk.arrival.workstationId || assignment.workstationId,
+      })
+    }
+
+    this.updateNpcState(walk.agentId, {
+      position: { x: Math.round(player.x), y: Math.round(player.y) },
+      anim: player.anim,
+      workstationId: arrived ? walk.arrival.workstationId : undefined,
+    })
+
+    this.emitRoomEvent(
+      arrived ? 'npc.walk.arrived' : 'npc.walk.cancelled',
+      {
+        walkId: walk.id,
+        position: assignment.position,
+        anim: player.anim,
+        computerId: arrived ? walk.arrival.computerId ?? null : null,
+        reason: walk.cancelReason ?? null,
+      },
+      walk.agentId
+    )
+  }
+
+  async onAuth(client: Client, options: any, request?: IncomingMessage) {
     const requestedNamespace =
       (typeof options?.namespaceSlug === 'string' && options.namespaceSlug.trim().toLowerCase()) ||
       (typeof options?.name === 'string' && options.name.trim().toLowerCase()) ||
@@ -841,27 +2331,49 @@ export class SkyOffice extends Room<OfficeState> {
       }
     }
     await this.validateNpcHandshake(client, options)
+    this.checkBans(client, options, request)
     return true
   }
 
+  // remembers who a player is for moderation and refuses players banned from the namespace
+  private checkBans(client: Client, options: any, request?: IncomingMessage) {
+    const userData = ((client as unknown as { userData?: any }).userData ??= {})
+    if (userData.npcKey) return
+    userData.identity = resolvePlayerIdentity(options?.identity)
+    userData.ip = resolveClientIp(request)
+
+    let ban: PersistedBan | null = null
+    try {
+      ban = findActiveBan(this.namespaceSlug, userData.identity, userData.ip)
+    } catch (err) {
+      console.warn('[moderation] Failed to check bans', this.namespaceSlug, err)
+    }
+    if (!ban) return
+    const until = ban.expiresAt ? ` until ${new Date(ban.expiresAt).toUTCString()}` : ''
+    throw new ServerError(MODERATION_CLOSE_CODE, `You are banned from this room${until}.`)
+  }
+
   onJoin(client: Client, options: any) {
-    const npcKey = (client as unknown as { userData?: any })?.userData?.npcKey
+    const userData = (client as unknown as { userData?: any })?.userData
+    const npcKey = userData?.npcKey
     if (!npcKey) {
-      this.state.players.set(client.sessionId, new Player())
+      const player = new Player()
+      player.role =
+        this.roomRoles.get(userData?.identity) ??
+        (userData?.chatModerator ? 'moderator' : DEFAULT_ROOM_ROLE)
+      player.chatMutedUntil = this.chatMutes.get(userData?.identity) ?? 0
+      this.state.players.set(client.sessionId, player)
     }
-    client.send(Message.SEND_ROOM_DATA, {
-      id: this.roomId,
-      name: this.name,
-      description: this.description,
-      namespaceSlug: this.namespaceSlug,
-      customDomain: this.customDomain,
-      metadata: this.roomMetadata,
-    })
+    client.send(Message.SEND_ROOM_DATA, this.getRoomData())
+    if (!npcKey) this.sendChatCommandList(client)
     
     // 同步现有 NPC 到新连接的客户端
     this.syncNpcsToClient(client)
 
     this.updatePresenceMetadata()
+    if (!npcKey) {
+      this.emitRoomEvent('player.joined', this.describePlayer(client.sessionId))
+    }
   }
 
   private async validateNpcHandshake(client: Client, options: any) {
@@ -873,7 +2385,7 @@ export class SkyOffice extends Room<OfficeState> {
         (typeof options?.managerToken === 'string' && options.managerToken.trim()) ||
         ''
       if (tokenCandidate) {
-        console.warn('[skyoffice] managerToken provided without agentId')
+        await this.resolveChatModerator(client, tokenCandidate)
       }
       return
     }
@@ -963,6 +2475,24 @@ export class SkyOffice extends Room<OfficeState> {
     userData.presenceSecretSource = secretSource
   }
 
+  // players who join with a manager token scoped to `chat:moderate` for this room moderate its chat;
+  // any other token is ignored rather than refusing the join
+  private async resolveChatModerator(client: Client, token: string) {
+    const result = await authenticateApiToken(token, 'chat:moderate')
+    const denied = isApiAuthFailure(result)
+      ? result
+      : checkApiTarget(result, {
+          namespaceSlug: this.namespaceSlug,
+          officeId: this.registryOfficeId,
+        })
+    if (denied) {
+      console.warn(`[skyoffice] managerToken of ${client.sessionId} ignored: ${denied.message}`)
+      return
+    }
+    const userData = ((client as unknown as { userData?: any }).userData ??= {})
+    userData.chatModerator = true
+  }
+
   // 同步现有 NPC 到客户端
   private syncNpcsToClient(client: Client) {
     this.ensureNpcAssignmentsLoaded()
@@ -975,6 +2505,8 @@ export class SkyOffice extends Room<OfficeState> {
     this.npcAssignments.forEach((assignment) => {
       const key = SkyOffice.getNpcKey(assignment.agentId)
       let player = this.state.players.get(key)
+      // a walking NPC is already in sync; resetting it would snap it back to where it started
+      if (player && this.npcWalker.isWalking(assignment.agentId)) return
 
       if (!player) {
         player = new Player()
@@ -990,7 +2522,10 @@ export class SkyOffice extends Room<OfficeState> {
         ? SkyOffice.getSittingAnim(assignment.avatarId)
         : SkyOffice.getIdleAnim(assignment.avatarId)
 
-      const assignedComputer = this.assignNpcToWorkstation(key, assignment)
+      // NPCs that walked away from their desk keep the spot they are standing on
+      const assignedComputer = assignment.computerId
+        ? this.assignNpcToWorkstation(key, assignment)
+        : undefined
       if (assignedComputer && assignment.computerId !== assignedComputer) {
         assignment.computerId = assignedComputer
       }
@@ -1031,9 +2566,16 @@ export class SkyOffice extends Room<OfficeState> {
   }
 
   onLeave(client: Client, consented: boolean) {
+    // NPC connections do not own a player, so only people show up as leaving
+    const leaving = this.state.players.has(client.sessionId)
+      ? this.describePlayer(client.sessionId)
+      : null
     if (this.state.players.has(client.sessionId)) {
       this.state.players.delete(client.sessionId)
     }
+    this.movementValidator.reset(client.sessionId)
+    this.rateLimiter.reset(client.sessionId)
+    this.chatFloodGuard.reset(client.sessionId)
     this.state.computers.forEach((computer) => {
       if (computer.connectedUser.has(client.sessionId)) {
         computer.connectedUser.delete(client.sessionId)
@@ -1046,6 +2588,9 @@ export class SkyOffice extends Room<OfficeState> {
     })
 
     this.updatePresenceMetadata()
+    if (leaving) {
+      this.emitRoomEvent('player.left', { ...leaving, consented })
+    }
   }
 
   onDispose() {
@@ -1060,9 +2605,18 @@ export class SkyOffice extends Room<OfficeState> {
       const current = SkyOffice.namespaceRooms.get(this.namespaceSlug)
       if (current === this) {
         SkyOffice.namespaceRooms.delete(this.namespaceSlug)
+        clearNamespaceLayout(this.mapKey)
       }
     }
 
+    // nothing can open the history of a lobby room again once it is gone
+    if (this.chatHistoryKey !== this.namespaceSlug) {
+      try {
+        deleteChatMessages(this.chatHistoryKey)
+      } catch (err) {
+        console.warn('[chat] Failed to delete chat history', this.chatHistoryKey, err)
+      }
+    }
   }
 
   private updatePresenceMetadata() {
@@ -1080,6 +2634,18 @@ export class SkyOffice extends Room<OfficeState> {
     metadata.totalOnlineCount = clientCount + npcCount
     this.roomMetadata = metadata
     this.setMetadata(metadata)
+
+    if (
+      clientCount !== this.presenceCounts.clientsOnlineCount ||
+      npcCount !== this.presenceCounts.npcOnlineCount
+    ) {
+      this.presenceCounts = {
+        clientsOnlineCount: clientCount,
+        npcOnlineCount: npcCount,
+        totalOnlineCount: clientCount + npcCount,
+      }
+      this.emitRoomEvent('presence.updated', { ...this.presenceCounts })
+    }
   }
 
   public static getRoomByNamespaceSlug(slug: string): SkyOffice | undefined {
@@ -0,0 +1,186 @@
+import { Command } from '@colyseus/command'
+import { Client } from 'colyseus'
+import { IOfficeState, IPlayer } from '../../../types/IOfficeState'
+import { Message } from '../../../types/Messages'
+import { ChatCommandInfo, CustomChatCommand } from '../../../types/ChatCommands'
+import { ChatCommandResult, ChatEmote } from '../../../types/MessagePayloads'
+import { PLAYER_STATUSES, isPlayerStatus } from '../../../types/PlayerStatus'
+import DirectMessageCommand from './DirectMessageCommand'
+
+export type ChatCommandPayload = {
+  client: Client
+  // the name the command was run with
+  name: string
+  args: string
+  // the commands the client may run, for /help
+  commands: ChatCommandInfo[]
+}
+
+type CustomPayload = ChatCommandPayload & { definition: CustomChatCommand }
+
+type PlayerMatch = { key: string; player: IPlayer }
+
+function reply(data: ChatCommandPayload, message: string, extra?: Partial<ChatCommandResult>) {
+  const result: ChatCommandResult = { command: data.name, message, ...extra }
+  data.client.send(Message.CHAT_COMMAND_RESULT, result)
+}
+
+const replyError = (data: ChatCommandPayload, message: string) =>
+  reply(data, message, { error: true })
+
+/**
+ * Finds the player named at the start of `args`, ignoring case, and returns the rest of `args` as
+ * `remainder`. Names may contain spaces, so the longest full name wins; a unique prefix of the
+ * first word is accepted otherwise. Only keys passing `filter` are considered.
+ */
+function findPlayer(
+  state: IOfficeState,
+  args: string,
+  filter: (key: string) => boolean = () => true
+): (PlayerMatch & { remainder: string }) | null {
+  const text = args.trim()
+  const lower = text.toLowerCase()
+  const candidates: PlayerMatch[] = []
+  state.players.forEach((player, key) => {
+    if (player.name && filter(key)) candidates.push({ key, player })
+  })
+
+  const exact = candidates
+    .filter(({ player }) => {
+      const name = player.name.toLowerCase()
+      return lower === name || lower.startsWith(`${name} `)
+    })
+    .sort((a, b) => b.player.name.length - a.player.name.length)[0]
+  if (exact) return { ...exact, remainder: text.slice(exact.player.name.length).trim() }
+
+  const [word = ''] = lower.split(/\s+/)
+  const prefixed = candidates.filter(({ player }) => player.name.toLowerCase().startsWith(word))
+  if (!word || prefixed.length !== 1) return null
+  return { ...prefixed[0], remainder: text.slice(word.length).trim() }
+}
+
+// emotes go to everyone in the room, the sender included
+function sendEmote(command: Command<IOfficeState>, senderId: string, content: string) {
+  const emote: ChatEmote = { senderId, content, createdAt: Date.now() }
+  command.room.broadcast(Message.CHAT_EMOTE, emote)
+}
+
+export class MeCommand extends Command<IOfficeState, ChatCommandPayload> {
+  execute(data: ChatCommandPayload) {
+    const player = this.state.players.get(data.client.sessionId)
+    if (!player) return
+    if (!data.args) return replyError(data, 'Usage: /me <action>')
+    sendEmote(this, data.client.sessionId, `${player.name} ${data.args}`)
+  }
+}
+
+export class WaveCommand extends Command<IOfficeState, ChatCommandPayload> {
+  execute(data: ChatCommandPayload) {
+    const player = this.state.players.get(data.client.sessionId)
+    if (!player) return
+    if (!data.args) {
+      sendEmote(this, data.client.sessionId, `${player.name} waves`)
+      return
+    }
+
+    const target = findPlayer(this.state, data.args)
+    if (!target) return replyError(data, `Nobody called '${data.args}' is here.`)
+    sendEmote(this, data.client.sessionId, `${player.name} waves at ${target.player.name}`)
+  }
+}
+
+export class GotoCommand extends Command<IOfficeState, ChatCommandPayload> {
+  execute(data: ChatCommandPayload) {
+    if (!data.args) return replyError(data, 'Usage: /goto <name>')
+    const target = findPlayer(this.state, data.args)
+    if (!target) return replyError(data, `Nobody called '${data.args}' is here.`)
+    if (target.key === data.client.sessionId) return replyError(data, 'You are already there.')
+
+    reply(data, `Walking to ${target.player.name}.`, {
+      walkTo: { x: target.player.x, y: target.player.y },
+    })
+  }
+}
+
+export class StatusCommand extends Command<IOfficeState, ChatCommandPayload> {
+  execute(data: ChatCommandPayload) {
+    const player = this.state.players.get(data.client.sessionId)
+    if (!player) return
+    const choices = PLAYER_STATUSES.join(', ')
+    if (!data.args) return reply(data, `Your status is ${player.status}. Choose one of ${choices}.`)
+
+    const status = data.args.toLowerCase()
+    if (!isPlayerStatus(status)) {
+      return replyError(data, `Unknown status '${data.args}'. Choose one of ${choices}.`)
+    }
+    player.status = status
+    reply(data, `Your status is now ${status}.`)
+  }
+}
+
+export class WhoCommand extends Command<IOfficeState, ChatCommandPayload> {
+  execute(data: ChatCommandPayload) {
+    const names: string[] = []
+    this.state.players.forEach((player) => {
+      if (!player.name) return
+      names.push(player.status === 'available' ? player.name : `${player.name} (${player.status})`)
+    })
+    names.sort((a, b) => a.localeCompare(b))
+    reply(data, `${names.length} in the room: ${names.join(', ')}`)
+  }
+}
+
+export class DmCommand extends Command<IOfficeState, ChatCommandPayload> {
+  execute(data: ChatCommandPayload) {
+    if (!data.args) return replyError(data, 'Usage: /dm <name> [message]')
+    // only players with a client can receive direct messages
+    const target = findPlayer(this.state, data.args, (key) =>
+      this.room.clients.some((cli) => cli.sessionId === key && cli !== data.client)
+    )
+    if (!target) return replyError(data, `No other player called '${data.args}' is here.`)
+
+    if (!target.remainder) {
+      return reply(data, `Direct messages to ${target.player.name}.`, {
+        conversationId: target.key,
+      })
+    }
+    return new DirectMessageCommand().setPayload({
+      client: data.client,
+      recipientId: target.key,
+      content: target.remainder,
+    })
+  }
+}
+
+export class HelpCommand extends Command<IOfficeState, ChatCommandPayload> {
+  execute(data: ChatCommandPayload) {
+    const describe = (command: ChatCommandInfo) =>
+      `/${command.name}${command.usage ? ` ${command.usage}` : ''} – ${command.description}`
+
+    if (data.args) {
+      const name = data.args.replace(/^\//, '').toLowerCase()
+      const command = data.commands.find((candidate) => candidate.name === name)
+      if (!command) return replyError(data, `Unknown command /${name}.`)
+      return reply(data, describe(command))
+    }
+    reply(data, data.commands.map(describe).join('\n'))
+  }
+}
+
+export class CustomCommand extends Command<IOfficeState, CustomPayload> {
+  execute(data: CustomPayload) {
+    const player = this.state.players.get(data.client.sessionId)
+    if (!player) return
+    const content = data.definition.response
+      .replace(/\{player\}/g, () => player.name)
+      .replace(/\{args\}/g, () => data.args)
+      .trim()
+    if (!content) return
+
+    if (data.definition.broadcast) {
+      sendEmote(this, data.client.sessionId, content)
+    } else {
+      reply(data, content)
+    }
+  }
+}
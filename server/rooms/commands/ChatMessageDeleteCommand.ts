@@ -0,0 +1,26 @@
+import { Command } from '@colyseus/command'
+import { IOfficeState } from '../../../types/IOfficeState'
+import { markChatMessageDeleted } from '../../persistence/ChatStore'
+
+type Payload = {
+  messageId: number
+}
+
+export default class ChatMessageDeleteCommand extends Command<IOfficeState, Payload> {
+  execute(data: Payload) {
+    const { messageId } = data
+    const chatMessage = this.room.state.chatMessages.find((message) => message.id === messageId)
+
+    if (!chatMessage || chatMessage.deleted) return
+
+    // the message stays in the array as a placeholder, so clients keep their order
+    chatMessage.content = ''
+    chatMessage.reactions = ''
+    chatMessage.deleted = true
+    try {
+      markChatMessageDeleted(messageId)
+    } catch (err) {
+      console.warn('[chat] Failed to persist chat message deletion', messageId, err)
+    }
+  }
+}
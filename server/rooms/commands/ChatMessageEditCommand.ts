@@ -0,0 +1,25 @@
+import { Command } from '@colyseus/command'
+import { IOfficeState } from '../../../types/IOfficeState'
+import { editChatMessage } from '../../persistence/ChatStore'
+
+type Payload = {
+  messageId: number
+  content: string
+}
+
+export default class ChatMessageEditCommand extends Command<IOfficeState, Payload> {
+  execute(data: Payload) {
+    const { messageId, content } = data
+    const chatMessage = this.room.state.chatMessages.find((message) => message.id === messageId)
+
+    if (!chatMessage || chatMessage.deleted) return
+
+    chatMessage.content = content
+    chatMessage.editedAt = new Date().getTime()
+    try {
+      editChatMessage(messageId, content, chatMessage.editedAt)
+    } catch (err) {
+      console.warn('[chat] Failed to persist chat message edit', messageId, err)
+    }
+  }
+}
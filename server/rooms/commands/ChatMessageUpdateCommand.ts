@@ -1,30 +1,45 @@
 import { Command } from '@colyseus/command'
-import { Client } from 'colyseus'
 import { IOfficeState } from '../../../types/IOfficeState'
 import { ChatMessage } from '../schema/OfficeState'
+import { saveChatMessage } from '../../persistence/ChatStore'
+
+// messages kept in the room state, i.e. what a joining client receives; older ones are paged in
+export const CHAT_RECENT_WINDOW = 50
 
 type Payload = {
-  client: Client
+  // key of the author in the players map: a client sessionId or an NPC key
+  playerId: string
   content: string
+  // namespace of a server room, or `room:<roomId>` for a room created from the lobby
+  historyKey: string
 }
 
 export default class ChatMessageUpdateCommand extends Command<IOfficeState, Payload> {
   execute(data: Payload) {
-    const { client, content } = data
-    const player = this.room.state.players.get(client.sessionId)
+    const { playerId, content, historyKey } = data
+    const player = this.room.state.players.get(playerId)
     const chatMessages = this.room.state.chatMessages
 
-    if (!chatMessages) return
-
-    /**
-     * Only allow server to store a maximum of 100 chat messages:
-     * remove the first element before pushing a new one when array length is >= 100
-     */
-    if (chatMessages.length >= 100) chatMessages.shift()
+    if (!player || !chatMessages) return
 
     const newMessage = new ChatMessage()
     newMessage.author = player.name
+    newMessage.authorId = playerId
     newMessage.content = content
+    try {
+      newMessage.id = saveChatMessage({
+        namespaceSlug: historyKey,
+        authorId: playerId,
+        author: player.name,
+        content,
+        createdAt: newMessage.createdAt,
+      })
+    } catch (err) {
+      console.warn('[chat] Failed to persist chat message', historyKey, err)
+    }
+
+    // the whole history lives in the database, so the state only keeps the recent window
+    while (chatMessages.length >= CHAT_RECENT_WINDOW) chatMessages.shift()
     chatMessages.push(newMessage)
   }
 }
@@ -0,0 +1,34 @@
+import { Command } from '@colyseus/command'
+import { IOfficeState } from '../../../types/IOfficeState'
+import {
+  parseChatReactions,
+  serializeChatReactions,
+  toggleChatReaction,
+} from '../../../types/ChatReactions'
+import { saveChatReactions } from '../../persistence/ChatStore'
+
+type Payload = {
+  messageId: number
+  playerId: string
+  emoji: string
+}
+
+export default class ChatReactionToggleCommand extends Command<IOfficeState, Payload> {
+  execute(data: Payload) {
+    const { messageId, playerId, emoji } = data
+    const chatMessage = this.room.state.chatMessages.find((message) => message.id === messageId)
+
+    if (!chatMessage || chatMessage.deleted) return
+
+    const reactions = serializeChatReactions(
+      toggleChatReaction(parseChatReactions(chatMessage.reactions), emoji, playerId)
+    )
+    if (reactions === chatMessage.reactions) return
+    chatMessage.reactions = reactions
+    try {
+      saveChatReactions(messageId, reactions)
+    } catch (err) {
+      console.warn('[chat] Failed to persist chat reactions', messageId, err)
+    }
+  }
+}
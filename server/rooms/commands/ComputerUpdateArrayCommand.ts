@@ -23,7 +23,7 @@ export class ComputerRemoveUserCommand extends Command<IOfficeState, Payload> {
     const { client, computerId } = data
     const computer = this.state.computers.get(computerId)
 
-    if (computer.connectedUser.has(client.sessionId)) {
+    if (computer && computer.connectedUser.has(client.sessionId)) {
       computer.connectedUser.delete(client.sessionId)
     }
   }
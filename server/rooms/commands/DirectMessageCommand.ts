@@ -0,0 +1,41 @@
+import { Command } from '@colyseus/command'
+import { Client } from 'colyseus'
+import { IOfficeState } from '../../../types/IOfficeState'
+import { Message } from '../../../types/Messages'
+import { DirectMessage, DirectMessageFailure } from '../../../types/MessagePayloads'
+
+type Payload = {
+  client: Client
+  // sessionId of the recipient
+  recipientId: string
+  content: string
+}
+
+// direct messages only reach the sender and the recipient, and are not kept in the chat history
+export default class DirectMessageCommand extends Command<IOfficeState, Payload> {
+  execute(data: Payload) {
+    const { client, recipientId, content } = data
+    const sender = this.state.players.get(client.sessionId)
+    const recipient = this.room.clients.find((cli) => cli.sessionId === recipientId)
+
+    // NPCs have no client, so they cannot receive direct messages
+    if (!sender || !recipient || recipient === client) {
+      const failure: DirectMessageFailure = {
+        recipientId,
+        message: 'Direct messages can only be sent to other players in this room.',
+      }
+      client.send(Message.DIRECT_MESSAGE_FAILED, failure)
+      return
+    }
+
+    const directMessage: DirectMessage = {
+      senderId: client.sessionId,
+      senderName: sender.name,
+      recipientId: recipient.sessionId,
+      content,
+      createdAt: Date.now(),
+    }
+    client.send(Message.DIRECT_MESSAGE, directMessage)
+    recipient.send(Message.DIRECT_MESSAGE, directMessage)
+  }
+}
@@ -23,7 +23,7 @@ export class WhiteboardRemoveUserCommand extends Command<IOfficeState, Payload>
     const { client, whiteboardId } = data
     const whiteboard = this.state.whiteboards.get(whiteboardId)
 
-    if (whiteboard.connectedUser.has(client.sessionId)) {
+    if (whiteboard && whiteboard.connectedUser.has(client.sessionId)) {
       whiteboard.connectedUser.delete(client.sessionId)
     }
   }
@@ -6,6 +6,9 @@ import {
   IWhiteboard,
   IChatMessage,
 } from '../../../types/IOfficeState'
+import { DEFAULT_MAP_ID } from '../../../types/OfficeMaps'
+import { DEFAULT_PLAYER_STATUS } from '../../../types/PlayerStatus'
+import { DEFAULT_ROOM_ROLE } from '../../../types/RoomRoles'
 
 export class Player extends Schema implements IPlayer {
   @type('string') name = ''
@@ -14,6 +17,9 @@ export class Player extends Schema implements IPlayer {
   @type('string') anim = 'adam_idle_down'
   @type('boolean') readyToConnect = false
   @type('boolean') videoConnected = false
+  @type('string') role: string = DEFAULT_ROOM_ROLE
+  @type('string') status: string = DEFAULT_PLAYER_STATUS
+  @type('number') chatMutedUntil = 0
 }
 
 export class Computer extends Schema implements IComputer {
@@ -26,12 +32,22 @@ export class Whiteboard extends Schema implements IWhiteboard {
 }
 
 export class ChatMessage extends Schema implements IChatMessage {
+  @type('number') id = 0
   @type('string') author = ''
+  @type('string') authorId = ''
   @type('number') createdAt = new Date().getTime()
   @type('string') content = ''
+  @type('number') editedAt = 0
+  @type('boolean') deleted = false
+  @type('string') reactions = ''
 }
 
 export class OfficeState extends Schema implements IOfficeState {
+  @type('string') mapId = DEFAULT_MAP_ID
+  @type('string') namespaceSlug = ''
+  // JSON encoded OfficeLayout of the namespace, empty while the base map is used
+  @type('string') layout = ''
+
   @type({ map: Player })
   players = new MapSchema<Player>()
 
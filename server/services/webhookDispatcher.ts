@@ -0,0 +1,224 @@
+import crypto from 'crypto'
+import http from 'http'
+import https from 'https'
+import { OfficeEvent, OfficeEventType, onOfficeEvent } from '../events/officeEvents'
+import {
+  PersistedWebhook,
+  WebhookDeadLetter,
+  addWebhookDeadLetter,
+  getWebhook,
+  listWebhooks,
+} from '../persistence/WebhookStore'
+import { BLOCKED_TARGET_CODE, isAllowedWebhookHost, webhookLookup } from './webhookTargets'
+
+export interface WebhookPayload {
+  // stable across retries, so receivers can drop duplicates
+  id: string
+  type: OfficeEventType
+  createdAt: string
+  roomId: string
+  namespaceSlug: string | null
+  agentId: string | null
+  data: Record<string, unknown>
+}
+
+interface Delivery {
+  webhook: PersistedWebhook
+  payload: WebhookPayload
+  attempt: number
+}
+
+interface AttemptResult {
+  ok: boolean
+  // false once another attempt cannot succeed, e.g. the receiver rejected the payload
+  retryable: boolean
+  status: number | null
+  error: string | null
+}
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-SkyOffice-Signature'
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-SkyOffice-Timestamp'
+
+const MAX_ATTEMPTS = Math.max(1, Number(process.env.WEBHOOK_MAX_ATTEMPTS || 5))
+const RETRY_BASE_DELAY_MS = Number(process.env.WEBHOOK_RETRY_BASE_DELAY_MS || 2_000)
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000
+const DELIVERY_TIMEOUT_MS = Number(process.env.WEBHOOK_TIMEOUT_MS || 10_000)
+
+let deliverySequence = 0
+const pendingRetries = new Set<NodeJS.Timeout>()
+
+/**
+ * Signs `${timestamp}.${body}` with the webhook secret. Receivers recompute it and should reject
+ * stale timestamps so a captured delivery cannot be replayed later.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string) {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+  return `sha256=${digest}`
+}
+
+export function generateWebhookSecret() {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`
+}
+
+const subscribesTo = (webhook: PersistedWebhook, type: string) =>
+  webhook.active && (webhook.events.length === 0 || webhook.events.includes(type))
+
+// exponential backoff with a little jitter so failing receivers are not hit in lockstep
+const retryDelay = (attempt: number) => {
+  const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), RETRY_MAX_DELAY_MS)
+  return Math.round(delay * (0.8 + Math.random() * 0.4))
+}
+
+function toPayload(event: OfficeEvent): WebhookPayload {
+  deliverySequence += 1
+  return {
+    id: `evt-${Date.now().toString(36)}-${deliverySequence}`,
+    type: event.type,
+    createdAt: event.createdAt,
+    roomId: event.roomId,
+    namespaceSlug: event.namespaceSlug,
+    agentId: event.agentId ?? null,
+    data: event.data,
+  }
+}
+
+/**
+ * Posts the payload once. Uses node's http client rather than fetch so every connection goes
+ * through `webhookLookup`, and redirects are not followed to wherever they point.
+ */
+function attemptDelivery(
+  webhook: PersistedWebhook,
+  payload: WebhookPayload
+): Promise<AttemptResult> {
+  const url = new URL(webhook.url)
+  if (!isAllowedWebhookHost(url.hostname)) {
+    const error = `${url.hostname} is a private address`
+    return Promise.resolve({ ok: false, retryable: false, status: null, error })
+  }
+
+  const body = JSON.stringify(payload)
+  const timestamp = Math.floor(Date.now() / 1000)
+  const client = url.protocol === 'http:' ? http : https
+  return new Promise((resolve) => {
+    const request = client.request(
+      url,
+      {
+        method: 'POST',
+        lookup: webhookLookup,
+        timeout: DELIVERY_TIMEOUT_MS,
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Length': Buffer.byteLength(body),
+          'User-Agent': 'SkyOffice-Webhooks',
+          'X-SkyOffice-Event': payload.type,
+          'X-SkyOffice-Delivery': payload.id,
+          [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(webhook.secret, timestamp, body),
+        },
+      },
+      (response) => {
+        // the receiver's body is not used, but must be read for the socket to be released
+        response.resume()
+        const status = response.statusCode ?? 0
+        if (status >= 200 && status < 300) {
+          resolve({ ok: true, retryable: false, status, error: null })
+          return
+        }
+        // other client errors will not go away by sending the same payload again
+        const retryable = status >= 500 || status === 408 || status === 429
+        resolve({ ok: false, retryable, status, error: `receiver responded with ${status}` })
+      }
+    )
+    request.on('timeout', () => request.destroy(new Error('request timed out')))
+    request.on('error', (err: NodeJS.ErrnoException) => {
+      // a receiver that resolves to a private address is not retried
+      const retryable = err.code !== BLOCKED_TARGET_CODE
+      resolve({ ok: false, retryable, status: null, error: err.message || 'request failed' })
+    })
+    request.end(body)
+  })
+}
+
+function deliver(delivery: Delivery) {
+  const { webhook, payload, attempt } = delivery
+  attemptDelivery(webhook, payload)
+    .then((result) => {
+      if (result.ok) return
+      if (result.retryable && attempt < MAX_ATTEMPTS) {
+        const timer = setTimeout(() => {
+          pendingRetries.delete(timer)
+          retry({ ...delivery, attempt: attempt + 1 })
+        }, retryDelay(attempt))
+        pendingRetries.add(timer)
+        return
+      }
+
+      console.warn(
+        `[webhooks] Dead-lettering ${payload.type} for webhook ${webhook.id}`,
+        `after ${attempt} attempt(s):`,
+        result.error
+      )
+      addWebhookDeadLetter({
+        webhookId: webhook.id,
+        namespaceSlug: webhook.namespaceSlug,
+        eventId: payload.id,
+        eventType: payload.type,
+        payload: payload as unknown as Record<string, unknown>,
+        attempts: attempt,
+        lastStatus: result.status,
+        lastError: result.error,
+        failedAt: new Date().toISOString(),
+      })
+    })
+    .catch((err) => {
+      console.error('[webhooks] Failed to record webhook delivery', webhook.id, err)
+    })
+}
+
+// the webhook may have been deleted, paused or changed while the retry was waiting
+function retry(delivery: Delivery) {
+  let webhook: PersistedWebhook | null
+  try {
+    webhook = getWebhook(delivery.webhook.id)
+  } catch (err) {
+    console.error('[webhooks] Failed to load webhook', delivery.webhook.id, err)
+    return
+  }
+  if (!webhook || !subscribesTo(webhook, delivery.payload.type)) return
+  deliver({ ...delivery, webhook })
+}
+
+function dispatchEvent(event: OfficeEvent) {
+  if (!event.namespaceSlug) return
+  let webhooks: PersistedWebhook[]
+  try {
+    webhooks = listWebhooks(event.namespaceSlug).filter((webhook) =>
+      subscribesTo(webhook, event.type)
+    )
+  } catch (err) {
+    console.error('[webhooks] Failed to load webhooks', event.namespaceSlug, err)
+    return
+  }
+  if (!webhooks.length) return
+
+  const payload = toPayload(event)
+  webhooks.forEach((webhook) => deliver({ webhook, payload, attempt: 1 }))
+}
+
+// sends a dead-lettered payload again, starting over with a fresh set of attempts
+export function redeliverWebhookDeadLetter(webhook: PersistedWebhook, letter: WebhookDeadLetter) {
+  deliver({ webhook, payload: letter.payload as unknown as WebhookPayload, attempt: 1 })
+}
+
+/**
+ * Forwards office events to the webhooks subscribed in their namespace. Returns a function that
+ * stops listening and drops scheduled retries.
+ */
+export function startWebhookDispatcher(): () => void {
+  const unsubscribe = onOfficeEvent(dispatchEvent)
+  return () => {
+    unsubscribe()
+    pendingRetries.forEach((timer) => clearTimeout(timer))
+    pendingRetries.clear()
+  }
+}
@@ -0,0 +1,103 @@
+import dns from 'dns'
+import net from 'net'
+
+// lets webhooks use plain http and reach loopback or private networks, for local development only
+const ALLOW_INSECURE_TARGETS = process.env.WEBHOOK_ALLOW_INSECURE_TARGETS === 'true'
+
+// host names that only ever point inside the server's own network
+const INTERNAL_HOST_PATTERN = /(^|\.)(localhost|local|internal|localdomain|home\.arpa)$/i
+
+// [first address, prefix length] of the IPv4 ranges a webhook may not reach
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+]
+
+const ipv4ToNumber = (ip: string) =>
+  ip.split('.').reduce((value, octet) => value * 256 + Number(octet), 0)
+
+function isBlockedIpv4(ip: string) {
+  const value = ipv4ToNumber(ip)
+  return BLOCKED_IPV4_RANGES.some(([start, bits]) => {
+    const size = 2 ** (32 - bits)
+    return Math.floor(value / size) === Math.floor(ipv4ToNumber(start) / size)
+  })
+}
+
+function isBlockedIpv6(ip: string) {
+  const address = ip.toLowerCase().replace(/^\[|\]$/g, '')
+  // IPv4-mapped addresses reach the IPv4 host; URLs write them in hex, e.g. ::ffff:7f00:1
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+  if (mapped) return isBlockedIpv4(mapped[1])
+  const mappedHex = address.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/)
+  if (mappedHex) {
+    const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)]
+    return isBlockedIpv4([high >> 8, high & 255, low >> 8, low & 255].join('.'))
+  }
+  if (address === '::' || address === '::1') return true
+  // unique local fc00::/7, link-local fe80::/10 and multicast ff00::/8
+  return /^(f[cd]|fe[89ab]|ff)/.test(address)
+}
+
+// loopback, link-local, private, shared and multicast addresses
+export function isPrivateAddress(ip: string) {
+  const version = net.isIP(ip.replace(/^\[|\]$/g, ''))
+  if (version === 4) return isBlockedIpv4(ip)
+  if (version === 6) return isBlockedIpv6(ip)
+  return false
+}
+
+/**
+ * Checks a webhook URL before it is stored. Returns an error message when the server must not
+ * post to it. Names are resolved again on every delivery, see `webhookLookup`.
+ */
+export function checkWebhookUrl(url: URL): string | null {
+  if (url.protocol !== 'https:' && !(ALLOW_INSECURE_TARGETS && url.protocol === 'http:')) {
+    return 'url must use https'
+  }
+  if (ALLOW_INSECURE_TARGETS) return null
+  const host = url.hostname.replace(/^\[|\]$/g, '')
+  if (INTERNAL_HOST_PATTERN.test(host) || isPrivateAddress(host)) {
+    return 'url must not point to a loopback, link-local or private address'
+  }
+  return null
+}
+
+// error code of lookups refused by `webhookLookup`
+export const BLOCKED_TARGET_CODE = 'EWEBHOOKTARGET'
+
+/**
+ * `lookup` for webhook requests: refuses host names that resolve to a private address, so a name
+ * that passed `checkWebhookUrl` cannot be pointed inside the network later on.
+ */
+export const webhookLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, options, (err, address, family) => {
+    if (err || ALLOW_INSECURE_TARGETS) return callback(err, address, family)
+    // newer Node versions ask for every address at once
+    const addresses: Array<string | dns.LookupAddress> = Array.isArray(address)
+      ? address
+      : [address]
+    const blocked = addresses
+      .map((entry) => (typeof entry === 'string' ? entry : entry.address))
+      .find(isPrivateAddress)
+    if (blocked) {
+      const error = Object.assign(new Error(`${hostname} resolves to ${blocked}`), {
+        code: BLOCKED_TARGET_CODE,
+      })
+      return callback(error, address, family)
+    }
+    callback(null, address, family)
+  })
+}
+
+// IP literals skip the lookup, so requests to them are checked directly
+export const isAllowedWebhookHost = (hostname: string) =>
+  ALLOW_INSECURE_TARGETS || !isPrivateAddress(hostname)
@@ -0,0 +1,66 @@
+// everyone in the room; the only channel kept in the room state's chat history
+export const GLOBAL_CHANNEL = 'global'
+// players within the proximity chat radius of the sender
+export const PROXIMITY_CHANNEL = 'proximity'
+
+export type ChatZoneType = 'computer' | 'whiteboard' | 'area'
+
+export type ChatChannel =
+  | { kind: 'global' }
+  | { kind: 'proximity' }
+  | { kind: 'zone'; zoneType: ChatZoneType; zoneId: string }
+
+export const CHAT_CHANNEL_PATTERN = /^(?:global|proximity|(?:computer|whiteboard|area):\S+)$/
+
+// Tiled object layer holding named rectangles that get their own chat channel
+export const MAP_AREA_LAYER = 'Areas'
+
+export interface MapArea {
+  // Tiled object id
+  id: string
+  name: string
+  // top-left corner, in pixels
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export function getZoneChannel(zoneType: ChatZoneType, zoneId: string) {
+  return `${zoneType}:${zoneId}`
+}
+
+export function parseChatChannel(channel: string): ChatChannel | null {
+  if (!CHAT_CHANNEL_PATTERN.test(channel)) return null
+  if (channel === GLOBAL_CHANNEL) return { kind: 'global' }
+  if (channel === PROXIMITY_CHANNEL) return { kind: 'proximity' }
+  const separator = channel.indexOf(':')
+  return {
+    kind: 'zone',
+    zoneType: channel.slice(0, separator) as ChatZoneType,
+    zoneId: channel.slice(separator + 1),
+  }
+}
+
+// unnamed rectangles are skipped, as are points, polygons and tile objects
+export function readMapAreas(tiledData: any): MapArea[] {
+  const layers: any[] = Array.isArray(tiledData?.layers) ? tiledData.layers : []
+  const layer = layers.find((candidate) => candidate?.name === MAP_AREA_LAYER)
+  const objects: any[] = Array.isArray(layer?.objects) ? layer.objects : []
+  return objects
+    .filter((obj) => typeof obj?.name === 'string' && obj.name.trim() && !obj.gid)
+    .filter((obj) => !obj.point && !obj.ellipse && !obj.polygon && !obj.polyline)
+    .map((obj) => ({
+      id: String(obj.id),
+      name: obj.name.trim(),
+      x: Number(obj.x) || 0,
+      y: Number(obj.y) || 0,
+      width: Number(obj.width) || 0,
+      height: Number(obj.height) || 0,
+    }))
+    .filter((area) => area.width > 0 && area.height > 0)
+}
+
+export function isInMapArea(area: MapArea, x: number, y: number) {
+  return x >= area.x && x < area.x + area.width && y >= area.y && y < area.y + area.height
+}
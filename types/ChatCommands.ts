@@ -0,0 +1,52 @@
+// chat input starting with this runs a command instead of being sent as a message
+export const CHAT_COMMAND_PREFIX = '/'
+
+export const CHAT_COMMAND_NAME_PATTERN = /^[a-z][a-z0-9_-]{0,23}$/
+
+export type ChatCommandPermission = 'everyone' | 'moderator'
+
+// what the chat input shows for autocomplete and help
+export interface ChatCommandInfo {
+  name: string
+  // arguments, e.g. `<name> [message]`
+  usage: string
+  description: string
+  permission: ChatCommandPermission
+  // registered for the room rather than built in
+  custom: boolean
+}
+
+export interface ParsedChatCommand {
+  name: string
+  // everything after the name, trimmed
+  args: string
+}
+
+/**
+ * Splits `/name args` into its parts. Returns null for plain messages, including ones starting
+ * with `//`, which the chat sends as a message with the first slash removed.
+ */
+export function parseChatCommand(input: string): ParsedChatCommand | null {
+  const trimmed = input.trim()
+  if (!trimmed.startsWith(CHAT_COMMAND_PREFIX)) return null
+  if (trimmed.startsWith(CHAT_COMMAND_PREFIX.repeat(2))) return null
+  const body = trimmed.slice(CHAT_COMMAND_PREFIX.length)
+  const separator = body.search(/\s/)
+  return separator === -1
+    ? { name: body.toLowerCase(), args: '' }
+    : { name: body.slice(0, separator).toLowerCase(), args: body.slice(separator).trim() }
+}
+
+/**
+ * A command registered for a room by its owners. `response` is a template where `{player}` is
+ * replaced with the name of the player running it and `{args}` with its arguments.
+ */
+export interface CustomChatCommand {
+  name: string
+  usage: string
+  description: string
+  response: string
+  // send the response to the whole room as an emote instead of only to the player
+  broadcast: boolean
+  permission: ChatCommandPermission
+}
@@ -0,0 +1,187 @@
+// chat content is plain text with a small markdown subset: **bold**, *italic* or _italic_ and
+// `code`. Bare http(s) URLs become links and `@name` mentions of known players are highlighted.
+
+export const MAX_CHAT_LINES = 10
+export const DIALOG_BUBBLE_MAX_LENGTH = 70
+
+export type ChatToken =
+  | { type: 'text' | 'bold' | 'italic' | 'code'; text: string }
+  | { type: 'link'; text: string; href: string }
+  // `name` is the player name as it is spelled in the players map
+  | { type: 'mention'; text: string; name: string }
+
+// control characters other than newlines, and the bidi overrides that can disguise text
+const UNSAFE_CHARACTERS = /[\u0000-\u0009\u000b-\u001f\u007f‪-‮⁦-⁩]/g
+const MARKUP_PATTERN = new RegExp(
+  [
+    '`[^`\\n]+`',
+    '\\*\\*[^*\\n]+\\*\\*',
+    '\\*[^*\\s][^*\\n]*\\*',
+    '_[^_\\s][^_\\n]*_',
+    'https?://[^\\s<>"\'`]+',
+  ].join('|'),
+  'g'
+)
+// left off the end of a link, as they usually belong to the sentence around it
+const TRAILING_PUNCTUATION = /[.,;:!?)\]}'"]+$/
+
+export const isWordCharacter = (char: string | undefined) =>
+  !!char && /[\p{L}\p{N}_-]/u.test(char)
+
+// true when `content` contains `@handle` followed by a word boundary, ignoring case
+export function mentionsHandle(content: string, handle: string) {
+  const needle = `@${handle.trim().toLowerCase()}`
+  if (needle.length < 2) return false
+  const haystack = content.toLowerCase()
+  let index = haystack.indexOf(needle)
+  while (index !== -1) {
+    if (!isWordCharacter(haystack[index + needle.length])) return true
+    index = haystack.indexOf(needle, index + 1)
+  }
+  return false
+}
+
+/**
+ * Drops control characters and bidi overrides, normalises line breaks and caps the number of
+ * lines. The server applies it to every chat message it accepts.
+ */
+export function normalizeChatContent(content: string) {
+  const lines = content.replace(/\r\n?/g, '\n').replace(UNSAFE_CHARACTERS, '').split('\n')
+  const kept = lines.slice(0, MAX_CHAT_LINES - 1)
+  if (lines.length >= MAX_CHAT_LINES) kept.push(lines.slice(MAX_CHAT_LINES - 1).join(' '))
+  return kept.join('\n').trim()
+}
+
+export function isSafeLink(href: string) {
+  try {
+    const url = new URL(href)
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+// splits `@name` mentions of the given player names out of plain text, longest name first
+function tokenizeMentions(text: string, names: string[]): ChatToken[] {
+  const sorted = names.filter((name) => name.trim()).sort((a, b) => b.length - a.length)
+  if (!sorted.length || !text.includes('@')) return [{ type: 'text', text }]
+
+  const tokens: ChatToken[] = []
+  let start = 0
+  let index = text.indexOf('@')
+  while (index !== -1) {
+    const rest = text.slice(index + 1).toLowerCase()
+    const name = isWordCharacter(text[index - 1])
+      ? undefined
+      : sorted.find(
+          (candidate) =>
+            rest.startsWith(candidate.toLowerCase()) && !isWordCharacter(rest[candidate.length])
+        )
+    if (name) {
+      if (index > start) tokens.push({ type: 'text', text: text.slice(start, index) })
+      const end = index + 1 + name.length
+      tokens.push({ type: 'mention', text: text.slice(index, end), name })
+      start = end
+    }
+    index = text.indexOf('@', name ? start : index + 1)
+  }
+  if (start < text.length) tokens.push({ type: 'text', text: text.slice(start) })
+  return tokens
+}
+
+/**
+ * Splits chat content into formatted tokens. Renderers output the tokens as text, so markup in
+ * the content can never become HTML.
+ */
+export function tokenizeChatContent(content: string, names: string[] = []): ChatToken[] {
+  const tokens: ChatToken[] = []
+  const pushText = (text: string) => {
+    if (text) tokens.push(...tokenizeMentions(text, names))
+  }
+
+  const pattern = new RegExp(MARKUP_PATTERN)
+  let last = 0
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(content))) {
+    const raw = match[0]
+    const index = match.index
+    let token: ChatToken | null = null
+    let length = raw.length
+
+    if (raw.startsWith('`')) {
+      token = { type: 'code', text: raw.slice(1, -1) }
+    } else if (raw.startsWith('**')) {
+      token = { type: 'bold', text: raw.slice(2, -2) }
+    } else if (raw.startsWith('*') || raw.startsWith('_')) {
+      // snake_case words are not italic
+      const inWord =
+        isWordCharacter(content[index - 1]) || isWordCharacter(content[index + length])
+      if (!raw.startsWith('_') || !inWord) token = { type: 'italic', text: raw.slice(1, -1) }
+    } else {
+      const href = raw.replace(TRAILING_PUNCTUATION, '')
+      length = href.length
+      if (isSafeLink(href)) token = { type: 'link', text: href, href }
+    }
+
+    if (!token) {
+      // the skipped match may still hold markup, e.g. `snake_case and _italic_`
+      pattern.lastIndex = index + 1
+      continue
+    }
+    pushText(content.slice(last, index))
+    tokens.push(token)
+    last = index + length
+  }
+  pushText(content.slice(last))
+  return tokens
+}
+
+// the content without markup or unsafe characters, on one line
+export function toPlainText(content: string) {
+  return tokenizeChatContent(content.replace(UNSAFE_CHARACTERS, ''))
+    .map((token) => token.text)
+    .join('')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+// what the dialog bubble above a player shows for a message
+export function toDialogBubbleText(content: string) {
+  const text = toPlainText(content)
+  return text.length <= DIALOG_BUBBLE_MAX_LENGTH
+    ? text
+    : `${text.substring(0, DIALOG_BUBBLE_MAX_LENGTH)}...`
+}
+
+export function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+// the content as an HTML fragment for integrations that display it, with everything escaped
+export function formatChatHtml(content: string, names: string[] = []) {
+  return tokenizeChatContent(content, names)
+    .map((token) => {
+      const text = escapeHtml(token.text)
+      switch (token.type) {
+        case 'bold':
+          return `<strong>${text}</strong>`
+        case 'italic':
+          return `<em>${text}</em>`
+        case 'code':
+          return `<code>${text}</code>`
+        case 'link':
+          return `<a href="${escapeHtml(token.href)}" rel="noopener nofollow">${text}</a>`
+        case 'mention':
+          return `<span class="mention">${text}</span>`
+        default:
+          return text
+      }
+    })
+    .join('')
+    .replace(/\n/g, '<br>')
+}
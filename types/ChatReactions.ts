@@ -0,0 +1,49 @@
+// emoji reactions of a chat message: ids of the players that reacted, keyed by emoji
+export type ChatReactions = Record<string, string[]>
+
+// distinct emoji per message
+export const MAX_CHAT_REACTIONS = 20
+
+// reactions travel as JSON strings in the room state and the chat history, empty when there are none
+export function parseChatReactions(raw: string | null | undefined): ChatReactions {
+  if (!raw) return {}
+  try {
+    const parsed = JSON.parse(raw)
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {}
+    const reactions: ChatReactions = {}
+    Object.entries(parsed).forEach(([emoji, playerIds]) => {
+      if (!Array.isArray(playerIds)) return
+      const ids = playerIds.filter((id): id is string => typeof id === 'string')
+      if (ids.length) reactions[emoji] = ids
+    })
+    return reactions
+  } catch {
+    return {}
+  }
+}
+
+// adds the player's reaction, or takes it back when it is already there
+export function toggleChatReaction(
+  reactions: ChatReactions,
+  emoji: string,
+  playerId: string
+): ChatReactions {
+  const playerIds = reactions[emoji] ?? []
+  const next = { ...reactions }
+  if (playerIds.includes(playerId)) {
+    const remaining = playerIds.filter((id) => id !== playerId)
+    if (remaining.length) {
+      next[emoji] = remaining
+    } else {
+      delete next[emoji]
+    }
+    return next
+  }
+  if (!reactions[emoji] && Object.keys(reactions).length >= MAX_CHAT_REACTIONS) return reactions
+  next[emoji] = [...playerIds, playerId]
+  return next
+}
+
+export function serializeChatReactions(reactions: ChatReactions) {
+  return Object.keys(reactions).length ? JSON.stringify(reactions) : ''
+}
@@ -7,6 +7,12 @@ export interface IPlayer extends Schema {
   anim: string
   readyToConnect: boolean
   videoConnected: boolean
+  // one of ROOM_ROLES
+  role: string
+  // one of PLAYER_STATUSES
+  status: string
+  // epoch milliseconds until which a moderator muted the player's chat, 0 when not muted
+  chatMutedUntil: number
 }
 
 export interface IComputer extends Schema {
@@ -19,12 +25,25 @@ export interface IWhiteboard extends Schema {
 }
 
 export interface IChatMessage extends Schema {
+  // id in the namespace's stored chat history, 0 if it was not stored
+  id: number
   author: string
+  // key of the author in the players map, empty for notices
+  authorId: string
   createdAt: number
   content: string
+  // epoch milliseconds of the last edit, 0 if never edited
+  editedAt: number
+  // deleted messages stay as placeholders with empty content
+  deleted: boolean
+  // JSON encoded ChatReactions, see types/ChatReactions
+  reactions: string
 }
 
 export interface IOfficeState extends Schema {
+  mapId: string
+  namespaceSlug: string
+  layout: string
   players: MapSchema<IPlayer>
   computers: MapSchema<IComputer>
   whiteboards: MapSchema<IWhiteboard>
@@ -4,3 +4,41 @@ export enum ItemType {
   WHITEBOARD,
   VENDINGMACHINE,
 }
+
+// custom Tiled property that gives computers and whiteboards an id independent of layer order
+export const ITEM_ID_PROPERTY = 'itemId'
+
+interface TiledItemObject {
+  properties?: { name: string; value?: unknown }[]
+}
+
+// maps without the `itemId` property fall back to the object's index in its layer
+function getTiledItemId(object: TiledItemObject, index: number): string {
+  const property = object.properties?.find((candidate) => candidate.name === ITEM_ID_PROPERTY)
+  const value = property?.value
+  if ((typeof value === 'string' && value.trim()) || typeof value === 'number') {
+    return String(value).trim()
+  }
+  return String(index)
+}
+
+/**
+ * The computers or whiteboards of a Tiled object layer with their ids, shared by the client and
+ * the room state. A duplicated id would make two items share one room state entry, so only the
+ * first object with an id is kept and `onDuplicate` hears about the others.
+ */
+export function getTiledItems<T extends TiledItemObject>(
+  objects: T[],
+  onDuplicate?: (id: string) => void
+): { id: string; object: T }[] {
+  const items: { id: string; object: T }[] = []
+  objects.forEach((object, index) => {
+    const id = getTiledItemId(object ?? {}, index)
+    if (items.some((item) => item.id === id)) {
+      onDuplicate?.(id)
+      return
+    }
+    items.push({ id, object })
+  })
+  return items
+}
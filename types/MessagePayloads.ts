@@ -0,0 +1,410 @@
+import { Message } from './Messages'
+import { CHAT_CHANNEL_PATTERN } from './ChatChannels'
+import { CHAT_COMMAND_NAME_PATTERN, ChatCommandInfo } from './ChatCommands'
+import { normalizeChatContent } from './ChatFormatting'
+import {
+  BanTarget,
+  MAX_MODERATION_DURATION_MS,
+  MAX_MODERATION_REASON_LENGTH,
+  ModerationAction,
+  isModerationAction,
+} from './Moderation'
+import {
+  MAX_ROOM_DESCRIPTION_LENGTH,
+  MAX_ROOM_NAME_LENGTH,
+  MAX_ROOM_PASSWORD_LENGTH,
+  RoomRole,
+  isRoomRole,
+} from './RoomRoles'
+import { PlayerStatus, isPlayerStatus } from './PlayerStatus'
+
+export const MAX_CHAT_MESSAGE_LENGTH = 500
+export const MAX_PLAYER_NAME_LENGTH = 32
+const MAX_ID_LENGTH = 64
+const MAX_ANIM_LENGTH = 64
+const MAX_CHANNEL_LENGTH = 80
+const MAX_EMOJI_LENGTH = 32
+const MAX_COMMAND_NAME_LENGTH = 24
+const EMOJI_PATTERN = /^[^\s<>"'`]+$/
+const MAX_COORDINATE = 100000
+const ANIM_PATTERN = /^[A-Za-z0-9]+(?:_[A-Za-z0-9]+){1,3}$/
+
+/**
+ * Payloads sent from the client to the server, keyed by message type.
+ * Messages that carry no payload are typed as `undefined`.
+ */
+export interface ClientMessagePayloads {
+  [Message.UPDATE_PLAYER]: { x: number; y: number; anim: string }
+  [Message.UPDATE_PLAYER_NAME]: { name: string }
+  [Message.READY_TO_CONNECT]: undefined
+  [Message.DISCONNECT_STREAM]: { clientId: string }
+  [Message.CONNECT_TO_COMPUTER]: { computerId: string }
+  [Message.DISCONNECT_FROM_COMPUTER]: { computerId: string }
+  [Message.STOP_SCREEN_SHARE]: { computerId: string }
+  [Message.CONNECT_TO_WHITEBOARD]: { whiteboardId: string }
+  [Message.DISCONNECT_FROM_WHITEBOARD]: { whiteboardId: string }
+  [Message.VIDEO_CONNECTED]: undefined
+  // channel defaults to the global room channel, see ChatChannels
+  [Message.ADD_CHAT_MESSAGE]: { content: string; channel?: string }
+  [Message.START_SCREEN_SHARE]: { computerId: string }
+  [Message.DIRECT_MESSAGE]: { recipientId: string; content: string }
+  // id of the oldest room channel message the client has
+  [Message.CHAT_HISTORY]: { before: number }
+  // only the author or a moderator may edit or delete a message
+  [Message.EDIT_CHAT_MESSAGE]: { messageId: number; content: string }
+  [Message.DELETE_CHAT_MESSAGE]: { messageId: number }
+  [Message.TOGGLE_CHAT_REACTION]: { messageId: number; emoji: string }
+  // a slash command typed into the chat, see ChatCommands
+  [Message.CHAT_COMMAND]: { name: string; args: string }
+  // only moderators may moderate; a ban without durationMs is permanent, see Moderation
+  [Message.MODERATE_PLAYER]: {
+    playerId: string
+    action: ModerationAction
+    durationMs?: number
+    reason?: string
+    banBy?: BanTarget
+  }
+  // only the owner may; granting 'owner' hands the room over, see RoomRoles
+  [Message.SET_PLAYER_ROLE]: { playerId: string; role: RoomRole }
+  // only the owner may; fields left out are kept and `removePassword` makes the room public
+  [Message.UPDATE_ROOM_SETTINGS]: {
+    name?: string
+    description?: string
+    password?: string
+    removePassword?: boolean
+  }
+  // picked by the player, or 'away' when the client noticed they went idle
+  [Message.SET_PLAYER_STATUS]: { status: PlayerStatus }
+}
+
+export type ClientMessage = keyof ClientMessagePayloads
+
+// sent by the server when it rejects a movement update and snaps the player back
+export interface PlayerPositionCorrection {
+  x: number
+  y: number
+  anim: string
+  reason: string
+}
+
+// sent by the server when it drops chat messages of a client that floods the room
+export interface ChatFloodNotice {
+  action: 'warn' | 'mute' | 'disconnect'
+  // epoch milliseconds, set while the client is muted
+  mutedUntil: number | null
+  message: string
+}
+
+// sent by the server to both the sender and the recipient of a direct message
+export interface DirectMessage {
+  senderId: string
+  senderName: string
+  recipientId: string
+  content: string
+  createdAt: number
+}
+
+// sent by the server to the sender when a direct message cannot be delivered
+export interface DirectMessageFailure {
+  recipientId: string
+  message: string
+}
+
+// sent by the server to the members of a proximity or zone channel, sender included
+export interface ChannelChatMessage {
+  channel: string
+  senderId: string
+  senderName: string
+  content: string
+  createdAt: number
+}
+
+// sent by the server to the sender when it is not a member of the channel
+export interface ChannelMessageFailure {
+  channel: string
+  message: string
+}
+
+export interface ChatHistoryMessage {
+  id: number
+  authorId: string
+  author: string
+  content: string
+  createdAt: number
+  editedAt: number
+  deleted: boolean
+  reactions: string
+}
+
+// sent by the server in reply to CHAT_HISTORY, oldest message first
+export interface ChatHistoryPage {
+  messages: ChatHistoryMessage[]
+  hasMore: boolean
+}
+
+// sent by the server to the player who ran a chat command
+export interface ChatCommandResult {
+  command: string
+  message: string
+  // the command did not run, e.g. it is unknown, not allowed or its arguments are wrong
+  error?: boolean
+  // set by /goto: the spot the player should walk to
+  walkTo?: { x: number; y: number }
+  // set by /dm without a message: the player to open a direct conversation with
+  conversationId?: string
+}
+
+// sent by the server on join and whenever the room's custom commands change
+export interface ChatCommandList {
+  // only the commands the player is allowed to run
+  commands: ChatCommandInfo[]
+}
+
+// sent by the server to everyone in the room for /me, /wave and broadcasting custom commands;
+// emotes are not kept in the chat history
+export interface ChatEmote {
+  senderId: string
+  // the full line, starting with the sender's name where it reads that way
+  content: string
+  createdAt: number
+}
+
+// sent by the server to each player a room or channel message mentions as `@name`
+export interface ChatMention {
+  channel: string
+  senderId: string
+  senderName: string
+  content: string
+  createdAt: number
+}
+
+// sent by the server to the moderator who acted on a player
+export interface ModerationResult {
+  playerId: string
+  action: ModerationAction
+  message: string
+  // nothing was done, e.g. the player left or may not be moderated
+  error?: boolean
+}
+
+// sent by the server to the player a moderator acted on, before kicking or banning them
+export interface ModerationNotice {
+  action: ModerationAction
+  message: string
+  // epoch milliseconds when a mute or ban ends, null when it does not
+  until: number | null
+}
+
+// sent by the server to the player who changed a role or the room settings
+export interface RoomAdminResult {
+  message: string
+  // nothing was changed, e.g. the player is not the owner
+  error?: boolean
+}
+
+export type PayloadValidationResult<T> = { ok: true; value: T } | { ok: false; error: string }
+
+type FieldValidator<T> = (value: unknown, path: string) => PayloadValidationResult<T>
+
+const fail = (error: string): { ok: false; error: string } => ({ ok: false, error })
+
+interface StringFieldOptions {
+  maxLength: number
+  pattern?: RegExp
+  allowEmpty?: boolean
+}
+
+const stringField =
+  (options: StringFieldOptions): FieldValidator<string> =>
+  (value, path) => {
+    if (typeof value !== 'string') return fail(`${path} must be a string`)
+    const trimmed = value.trim()
+    if (!options.allowEmpty && !trimmed) return fail(`${path} must not be empty`)
+    if (trimmed.length > options.maxLength) {
+      return fail(`${path} exceeds ${options.maxLength} characters`)
+    }
+    if (options.pattern && !options.pattern.test(trimmed)) {
+      return fail(`${path} has invalid format`)
+    }
+    return { ok: true, value: trimmed }
+  }
+
+// chat text is normalised before it is checked, see ChatFormatting
+const chatTextField =
+  (options: { allowEmpty?: boolean } = {}): FieldValidator<string> =>
+  (value, path) => {
+    if (typeof value !== 'string') return fail(`${path} must be a string`)
+    return stringField({ maxLength: MAX_CHAT_MESSAGE_LENGTH, ...options })(
+      normalizeChatContent(value),
+      path
+    )
+  }
+
+const optionalField =
+  <T>(validator: FieldValidator<T>): FieldValidator<T | undefined> =>
+  (value, path) =>
+    value === undefined || value === null ? { ok: true, value: undefined } : validator(value, path)
+
+const coordinateField: FieldValidator<number> = (value, path) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return fail(`${path} must be a finite number`)
+  }
+  if (Math.abs(value) > MAX_COORDINATE) return fail(`${path} is out of range`)
+  return { ok: true, value }
+}
+
+function objectOf<T>(fields: { [K in keyof T]: FieldValidator<T[K]> }) {
+  return (payload: unknown): PayloadValidationResult<T> => {
+    if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+      return fail('payload must be an object')
+    }
+    const source = payload as Record<string, unknown>
+    const value = {} as T
+    for (const key of Object.keys(fields) as Array<keyof T>) {
+      const result = fields[key](source[key as string], String(key))
+      if (result.ok === false) return fail(result.error)
+      value[key] = result.value
+    }
+    return { ok: true, value }
+  }
+}
+
+const emptyPayload = (payload: unknown): PayloadValidationResult<undefined> => {
+  if (payload === undefined || payload === null) return { ok: true, value: undefined }
+  if (typeof payload === 'object' && Object.keys(payload as object).length === 0) {
+    return { ok: true, value: undefined }
+  }
+  return fail('payload must be empty')
+}
+
+const messageIdField: FieldValidator<number> = (value, path) => {
+  if (typeof value !== 'number' || !Number.isSafeInteger(value) || value < 1) {
+    return fail(`${path} must be a positive integer`)
+  }
+  return { ok: true, value }
+}
+
+const durationField: FieldValidator<number> = (value, path) => {
+  if (typeof value !== 'number' || !Number.isSafeInteger(value) || value < 1000) {
+    return fail(`${path} must be an integer of at least 1000`)
+  }
+  if (value > MAX_MODERATION_DURATION_MS) return fail(`${path} is out of range`)
+  return { ok: true, value }
+}
+
+const moderationActionField: FieldValidator<ModerationAction> = (value, path) =>
+  isModerationAction(value) ? { ok: true, value } : fail(`${path} is not a moderation action`)
+
+const banTargetField: FieldValidator<BanTarget> = (value, path) =>
+  value === 'identity' || value === 'ip'
+    ? { ok: true, value }
+    : fail(`${path} must be 'identity' or 'ip'`)
+
+const roomRoleField: FieldValidator<RoomRole> = (value, path) =>
+  isRoomRole(value) ? { ok: true, value } : fail(`${path} is not a room role`)
+
+const playerStatusField: FieldValidator<PlayerStatus> = (value, path) =>
+  isPlayerStatus(value) ? { ok: true, value } : fail(`${path} is not a player status`)
+
+// hashed exactly as typed, like the password a room is created with, so it is not trimmed
+const passwordField: FieldValidator<string> = (value, path) => {
+  if (typeof value !== 'string') return fail(`${path} must be a string`)
+  if (!value) return fail(`${path} must not be empty`)
+  if (value.length > MAX_ROOM_PASSWORD_LENGTH) {
+    return fail(`${path} exceeds ${MAX_ROOM_PASSWORD_LENGTH} characters`)
+  }
+  return { ok: true, value }
+}
+
+const booleanField: FieldValidator<boolean> = (value, path) =>
+  typeof value === 'boolean' ? { ok: true, value } : fail(`${path} must be a boolean`)
+
+const idField = stringField({ maxLength: MAX_ID_LENGTH })
+const computerPayload = objectOf<{ computerId: string }>({ computerId: idField })
+const whiteboardPayload = objectOf<{ whiteboardId: string }>({ whiteboardId: idField })
+
+const clientMessageValidators: {
+  [K in ClientMessage]: (payload: unknown) => PayloadValidationResult<ClientMessagePayloads[K]>
+} = {
+  [Message.UPDATE_PLAYER]: objectOf<ClientMessagePayloads[Message.UPDATE_PLAYER]>({
+    x: coordinateField,
+    y: coordinateField,
+    anim: stringField({ maxLength: MAX_ANIM_LENGTH, pattern: ANIM_PATTERN }),
+  }),
+  [Message.UPDATE_PLAYER_NAME]: objectOf<ClientMessagePayloads[Message.UPDATE_PLAYER_NAME]>({
+    name: stringField({ maxLength: MAX_PLAYER_NAME_LENGTH }),
+  }),
+  [Message.READY_TO_CONNECT]: emptyPayload,
+  [Message.DISCONNECT_STREAM]: objectOf<ClientMessagePayloads[Message.DISCONNECT_STREAM]>({
+    clientId: idField,
+  }),
+  [Message.CONNECT_TO_COMPUTER]: computerPayload,
+  [Message.DISCONNECT_FROM_COMPUTER]: computerPayload,
+  [Message.STOP_SCREEN_SHARE]: computerPayload,
+  [Message.CONNECT_TO_WHITEBOARD]: whiteboardPayload,
+  [Message.DISCONNECT_FROM_WHITEBOARD]: whiteboardPayload,
+  [Message.VIDEO_CONNECTED]: emptyPayload,
+  [Message.ADD_CHAT_MESSAGE]: objectOf<ClientMessagePayloads[Message.ADD_CHAT_MESSAGE]>({
+    content: chatTextField(),
+    channel: optionalField(
+      stringField({ maxLength: MAX_CHANNEL_LENGTH, pattern: CHAT_CHANNEL_PATTERN })
+    ),
+  }),
+  [Message.START_SCREEN_SHARE]: computerPayload,
+  [Message.DIRECT_MESSAGE]: objectOf<ClientMessagePayloads[Message.DIRECT_MESSAGE]>({
+    recipientId: idField,
+    content: chatTextField(),
+  }),
+  [Message.CHAT_HISTORY]: objectOf<ClientMessagePayloads[Message.CHAT_HISTORY]>({
+    before: messageIdField,
+  }),
+  [Message.EDIT_CHAT_MESSAGE]: objectOf<ClientMessagePayloads[Message.EDIT_CHAT_MESSAGE]>({
+    messageId: messageIdField,
+    content: chatTextField(),
+  }),
+  [Message.DELETE_CHAT_MESSAGE]: objectOf<ClientMessagePayloads[Message.DELETE_CHAT_MESSAGE]>({
+    messageId: messageIdField,
+  }),
+  [Message.TOGGLE_CHAT_REACTION]: objectOf<ClientMessagePayloads[Message.TOGGLE_CHAT_REACTION]>({
+    messageId: messageIdField,
+    emoji: stringField({ maxLength: MAX_EMOJI_LENGTH, pattern: EMOJI_PATTERN }),
+  }),
+  [Message.CHAT_COMMAND]: objectOf<ClientMessagePayloads[Message.CHAT_COMMAND]>({
+    name: stringField({ maxLength: MAX_COMMAND_NAME_LENGTH, pattern: CHAT_COMMAND_NAME_PATTERN }),
+    args: chatTextField({ allowEmpty: true }),
+  }),
+  [Message.MODERATE_PLAYER]: objectOf<ClientMessagePayloads[Message.MODERATE_PLAYER]>({
+    playerId: idField,
+    action: moderationActionField,
+    durationMs: optionalField(durationField),
+    reason: optionalField(
+      stringField({ maxLength: MAX_MODERATION_REASON_LENGTH, allowEmpty: true })
+    ),
+    banBy: optionalField(banTargetField),
+  }),
+  [Message.SET_PLAYER_ROLE]: objectOf<ClientMessagePayloads[Message.SET_PLAYER_ROLE]>({
+    playerId: idField,
+    role: roomRoleField,
+  }),
+  [Message.UPDATE_ROOM_SETTINGS]: objectOf<ClientMessagePayloads[Message.UPDATE_ROOM_SETTINGS]>({
+    name: optionalField(stringField({ maxLength: MAX_ROOM_NAME_LENGTH })),
+    description: optionalField(stringField({ maxLength: MAX_ROOM_DESCRIPTION_LENGTH })),
+    password: optionalField(passwordField),
+    removePassword: optionalField(booleanField),
+  }),
+  [Message.SET_PLAYER_STATUS]: objectOf<ClientMessagePayloads[Message.SET_PLAYER_STATUS]>({
+    status: playerStatusField,
+  }),
+}
+
+// validate (and normalise) a payload received for, or about to be sent as, a client message
+export function validateClientMessage<T extends ClientMessage>(
+  type: T,
+  payload: unknown
+): PayloadValidationResult<ClientMessagePayloads[T]> {
+  const validator = clientMessageValidators[type] as (
+    payload: unknown
+  ) => PayloadValidationResult<ClientMessagePayloads[T]>
+  if (!validator) return fail(`unknown message type ${type}`)
+  return validator(payload)
+}
@@ -11,4 +11,27 @@ export enum Message {
   VIDEO_CONNECTED,
   ADD_CHAT_MESSAGE,
   SEND_ROOM_DATA,
+  PLAYER_POSITION_CORRECTION,
+  START_SCREEN_SHARE,
+  CHAT_FLOOD_NOTICE,
+  DIRECT_MESSAGE,
+  DIRECT_MESSAGE_FAILED,
+  CHANNEL_MESSAGE,
+  CHANNEL_MESSAGE_FAILED,
+  CHAT_HISTORY,
+  EDIT_CHAT_MESSAGE,
+  DELETE_CHAT_MESSAGE,
+  TOGGLE_CHAT_REACTION,
+  CHAT_COMMAND,
+  CHAT_COMMAND_RESULT,
+  CHAT_COMMANDS,
+  CHAT_EMOTE,
+  CHAT_MENTION,
+  MODERATE_PLAYER,
+  MODERATION_RESULT,
+  MODERATION_NOTICE,
+  SET_PLAYER_ROLE,
+  UPDATE_ROOM_SETTINGS,
+  ROOM_ADMIN_RESULT,
+  SET_PLAYER_STATUS,
 }
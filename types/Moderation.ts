@@ -0,0 +1,38 @@
+// what a room moderator can do to a player
+export const MODERATION_ACTIONS = ['mute', 'unmute', 'kick', 'ban'] as const
+
+export type ModerationAction = typeof MODERATION_ACTIONS[number]
+
+// actions written to a room's audit trail; bans are lifted through the management API
+export type ModerationAuditAction = ModerationAction | 'unban'
+
+// a ban matches the player's browser identity, or every connection from their IP address
+export type BanTarget = 'identity' | 'ip'
+
+export const DEFAULT_MUTE_MS = 10 * 60_000
+export const MAX_MODERATION_DURATION_MS = 365 * 24 * 60 * 60_000
+export const MAX_MODERATION_REASON_LENGTH = 200
+// browser identities are generated by the client and sent when joining
+export const PLAYER_IDENTITY_PATTERN = /^[A-Za-z0-9-]{8,64}$/
+
+// application close code (4000-4999) for players kicked or banned from a room
+export const MODERATION_CLOSE_CODE = 4403
+
+export function isModerationAction(value: unknown): value is ModerationAction {
+  return MODERATION_ACTIONS.includes(value as ModerationAction)
+}
+
+// e.g. "10 minutes" or "2 days", rounded down to the largest whole unit
+export function describeDuration(ms: number) {
+  const units: Array<[string, number]> = [
+    ['day', 24 * 60 * 60_000],
+    ['hour', 60 * 60_000],
+    ['minute', 60_000],
+    ['second', 1000],
+  ]
+  for (const [unit, size] of units) {
+    const count = Math.floor(ms / size)
+    if (count >= 1) return `${count} ${unit}${count === 1 ? '' : 's'}`
+  }
+  return 'a moment'
+}
@@ -0,0 +1,107 @@
+// decor layers and the tileset their objects come from; objects on them can be added and removed
+export const LAYOUT_DECOR_LAYERS = {
+  Objects: 'Modern_Office_Black_Shadow',
+  ObjectsOnCollide: 'Modern_Office_Black_Shadow',
+  GenericObjects: 'Generic',
+  GenericObjectsOnCollide: 'Generic',
+  Basement: 'Basement',
+} as const
+
+export type LayoutDecorLayer = keyof typeof LAYOUT_DECOR_LAYERS
+
+// item objects carry room state (ids, seats), so they can only be moved
+export const LAYOUT_ITEM_LAYERS = ['Chair', 'Computer', 'Whiteboard', 'VendingMachine'] as const
+
+// Tiled property marking objects added by a layout, holding the id of the added entry
+export const LAYOUT_ID_PROPERTY = 'layoutId'
+
+export const LAYOUT_GRID_SIZE = 32
+
+export interface LayoutPosition {
+  // Tiled coordinates, i.e. the bottom-left corner of the object
+  x: number
+  y: number
+}
+
+export interface LayoutAddedObject extends LayoutPosition {
+  id: string
+  layer: LayoutDecorLayer
+  // tile index within the layer's tileset
+  frame: number
+}
+
+/** Changes a namespace made to the objects of its base map. */
+export interface OfficeLayout {
+  mapId: string
+  // new positions of base map objects, keyed by Tiled object id
+  moved: Record<string, LayoutPosition>
+  // Tiled ids of removed decor objects
+  removed: number[]
+  added: LayoutAddedObject[]
+}
+
+export function isLayoutDecorLayer(layer: unknown): layer is LayoutDecorLayer {
+  return (
+    typeof layer === 'string' && Object.prototype.hasOwnProperty.call(LAYOUT_DECOR_LAYERS, layer)
+  )
+}
+
+export function isLayoutEditableLayer(layer: unknown) {
+  return isLayoutDecorLayer(layer) || LAYOUT_ITEM_LAYERS.includes(layer as any)
+}
+
+export function getLayoutObjectId(object: { properties?: unknown }): string | null {
+  const properties = Array.isArray(object.properties) ? object.properties : []
+  const property = properties.find((candidate: any) => candidate?.name === LAYOUT_ID_PROPERTY)
+  return typeof property?.value === 'string' ? property.value : null
+}
+
+/**
+ * Returns a copy of Tiled map data with the layout applied. Client and server both build on the
+ * result, so they agree on where every object is; unknown object ids are ignored.
+ */
+export function applyOfficeLayout<T extends { layers?: any[]; tilesets?: any[] }>(
+  data: T,
+  layout: OfficeLayout | null
+): T {
+  if (!layout || !Array.isArray(data.layers)) return data
+  const removed = new Set(layout.removed)
+  const tilesets: any[] = Array.isArray(data.tilesets) ? data.tilesets : []
+  let nextObjectId = Number((data as any).nextobjectid) || 1
+
+  const layers = data.layers.map((layer) => {
+    if (layer?.type !== 'objectgroup' || !isLayoutEditableLayer(layer.name)) return layer
+    const decor = isLayoutDecorLayer(layer.name)
+    const objects: any[] = (Array.isArray(layer.objects) ? layer.objects : [])
+      .filter((object: any) => !(decor && removed.has(object?.id)))
+      .map((object: any) => {
+        const position = layout.moved[String(object?.id)]
+        return position ? { ...object, x: position.x, y: position.y } : object
+      })
+
+    if (decor) {
+      const tilesetName = LAYOUT_DECOR_LAYERS[layer.name as LayoutDecorLayer]
+      const tileset = tilesets.find((candidate) => candidate?.name === tilesetName)
+      layout.added
+        .filter((added) => added.layer === layer.name && tileset)
+        .forEach((added) => {
+          objects.push({
+            id: nextObjectId,
+            gid: Number(tileset.firstgid) + added.frame,
+            name: '',
+            type: '',
+            rotation: 0,
+            visible: true,
+            x: added.x,
+            y: added.y,
+            width: Number(tileset.tilewidth) || LAYOUT_GRID_SIZE,
+            height: Number(tileset.tileheight) || LAYOUT_GRID_SIZE,
+            properties: [{ name: LAYOUT_ID_PROPERTY, type: 'string', value: added.id }],
+          })
+          nextObjectId += 1
+        })
+    }
+    return { ...layer, objects }
+  })
+  return { ...data, layers, nextobjectid: nextObjectId }
+}
@@ -0,0 +1,67 @@
+export interface OfficeMapTileset {
+  // tileset name as used inside the Tiled map
+  name: string
+  // image path below client/public
+  image: string
+}
+
+export interface OfficeMap {
+  id: string
+  name: string
+  // Tiled JSON below client/public, loaded by the client and read from disk by the server
+  tilemap: string
+  // optional precomputed walkable grid below client/public, see WalkableMap
+  walkableGrid?: string
+  tilesets: OfficeMapTileset[]
+}
+
+export const DEFAULT_MAP_ID = 'skyoffice'
+
+// every map uses the same layer names and item tilesets, only the tilemap and its tiles differ
+export const OFFICE_MAPS: OfficeMap[] = [
+  {
+    id: DEFAULT_MAP_ID,
+    name: 'Sky Office',
+    tilemap: 'assets/map/map.json',
+    walkableGrid: 'assets/map/walkable-grid.json',
+    tilesets: [
+      { name: 'FloorAndGround', image: 'assets/map/FloorAndGround.png' },
+      {
+        name: 'Modern_Office_Black_Shadow',
+        image: 'assets/tileset/Modern_Office_Black_Shadow.png',
+      },
+      { name: 'Generic', image: 'assets/tileset/Generic.png' },
+      { name: 'Basement', image: 'assets/tileset/Basement.png' },
+    ],
+  },
+  {
+    // the Sky Office without its west wing, for smaller teams
+    id: 'east-wing',
+    name: 'East Wing',
+    tilemap: 'assets/map/east-wing.json',
+    tilesets: [
+      { name: 'FloorAndGround', image: 'assets/map/FloorAndGround.png' },
+      {
+        name: 'Modern_Office_Black_Shadow',
+        image: 'assets/tileset/Modern_Office_Black_Shadow.png',
+      },
+      { name: 'Generic', image: 'assets/tileset/Generic.png' },
+      { name: 'Basement', image: 'assets/tileset/Basement.png' },
+    ],
+  },
+]
+
+export function getOfficeMap(mapId: unknown): OfficeMap | undefined {
+  if (typeof mapId !== 'string') return undefined
+  const key = mapId.trim().toLowerCase()
+  return OFFICE_MAPS.find((map) => map.id === key)
+}
+
+// texture keys are namespaced by map, so two maps can ship different images for one tileset name
+export function getMapTextureKey(mapId: string, tilesetName: string) {
+  return `${mapId}:${tilesetName}`
+}
+
+export function getMapTilemapKey(mapId: string) {
+  return `tilemap:${mapId}`
+}
@@ -0,0 +1,10 @@
+// availability a player shows to the rest of the room
+export const PLAYER_STATUSES = ['available', 'busy', 'dnd', 'away'] as const
+
+export type PlayerStatus = typeof PLAYER_STATUSES[number]
+
+export const DEFAULT_PLAYER_STATUS: PlayerStatus = 'available'
+
+export function isPlayerStatus(value: unknown): value is PlayerStatus {
+  return PLAYER_STATUSES.includes(value as PlayerStatus)
+}
@@ -0,0 +1,24 @@
+// a player's role in a room; the player who creates a custom room owns it
+export const ROOM_ROLES = ['owner', 'moderator', 'member'] as const
+
+export type RoomRole = typeof ROOM_ROLES[number]
+
+export const DEFAULT_ROOM_ROLE: RoomRole = 'member'
+
+export const MAX_ROOM_NAME_LENGTH = 64
+export const MAX_ROOM_DESCRIPTION_LENGTH = 500
+export const MAX_ROOM_PASSWORD_LENGTH = 128
+
+export function isRoomRole(value: unknown): value is RoomRole {
+  return ROOM_ROLES.includes(value as RoomRole)
+}
+
+// owners and moderators mute, kick and ban, and may change anyone's chat messages
+export function canModerate(role: string) {
+  return role === 'owner' || role === 'moderator'
+}
+
+// a player may only moderate players below their own role
+export function outranks(role: string, other: string) {
+  return ROOM_ROLES.indexOf(role as RoomRole) < ROOM_ROLES.indexOf(other as RoomRole)
+}
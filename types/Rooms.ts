@@ -9,4 +9,6 @@ export interface IRoomData {
   description: string
   password: string | null
   autoDispose: boolean
+  // one of OFFICE_MAPS; rooms without one use the default map
+  mapId?: string
 }